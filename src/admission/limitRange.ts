@@ -0,0 +1,274 @@
+import { ResourceParseError } from '../errors';
+import { ResourceList } from '../resources/ResourceList';
+import { ScalarResource } from '../resources/ScalarResource';
+import { roundFraction } from '../resources/arithmetic';
+import { formatQuantity, parseQuantity, quantityFraction } from '../resources/quantity';
+import { containerLimits, containerRequests, podLimits, podRequests, toResourceList } from '../pod/podResources';
+import { validateContainerResources } from '../pod/validateResources';
+import { Container, PodSpec, ResourceMap, ResourceRequirements } from '../pod/types';
+
+/**
+ * One entry of a LimitRange's `spec.limits`.
+ */
+export interface LimitRangeItem {
+  /** Items of other types, such as `PersistentVolumeClaim`, do not apply to pods. */
+  type: 'Container' | 'Pod' | 'PersistentVolumeClaim';
+  /** The limits of containers that do not set them. Defaults to `max`. */
+  default?: ResourceMap;
+  /** The requests of containers that do not set them. Defaults to `default`, then to `min`. */
+  defaultRequest?: ResourceMap;
+  min?: ResourceMap;
+  max?: ResourceMap;
+  maxLimitRequestRatio?: ResourceMap;
+}
+
+/**
+ * A LimitRange object, as read from a manifest or from the API.
+ */
+export interface LimitRange {
+  metadata?: { name?: string };
+  spec: { limits: LimitRangeItem[] };
+}
+
+/**
+ * Options for {@link applyLimitRange}.
+ */
+export interface LimitRangeOptions {
+  /** The name of the pod, as used in rejection messages. */
+  podName?: string;
+}
+
+/**
+ * The result of {@link applyLimitRange}.
+ */
+export interface LimitRangeResult {
+  /** The pod spec with the requests and limits the pod is admitted with. */
+  spec: PodSpec;
+  /** The `kubernetes.io/limit-ranger` annotation listing the defaults that were set, if any were. */
+  annotation?: string;
+  /** The reasons the pod would be rejected; empty if it is admitted. */
+  violations: string[];
+  /** The message the API server rejects the pod with, if it has violations. */
+  message?: string;
+}
+
+/** The requests and limits LimitRanger sets on containers that do not set them. */
+interface ContainerDefaults {
+  requests: ResourceList;
+  limits: ResourceList;
+}
+
+/**
+ * Adds the entries of `defaults` that a list does not have.
+ * @param list - The resource list
+ * @param defaults - The default values
+ */
+function withDefaults(list: ResourceList, defaults: ResourceList): ResourceList {
+  return list.plus(defaults.without(...list.names()));
+}
+
+/**
+ * Collects the container defaults of a LimitRange, after the API server's defaulting of
+ * `Container` items (`SetDefaults_LimitRangeItem`): `default` falls back to `max`, and
+ * `defaultRequest` to `default`, then to `min`. Later items override earlier ones.
+ * @param limitRange - The LimitRange
+ */
+function containerDefaults(limitRange: LimitRange): ContainerDefaults {
+  let requests = new ResourceList();
+  let limits = new ResourceList();
+  for (const item of limitRange.spec.limits) {
+    if (item.type !== 'Container') continue;
+    const itemLimits = withDefaults(toResourceList(item.default), toResourceList(item.max));
+    const itemRequests = withDefaults(withDefaults(toResourceList(item.defaultRequest), itemLimits), toResourceList(item.min));
+    limits = limits.without(...itemLimits.names()).plus(itemLimits);
+    requests = requests.without(...itemRequests.names()).plus(itemRequests);
+  }
+  return { requests, limits };
+}
+
+/**
+ * Sets the default requests and limits of one container (`mergeContainerResources`).
+ * Requests of resources that only have a limit are set to the limit first, like the API server's defaulting.
+ * @param container - The container
+ * @param defaults - The container defaults
+ * @param kind - "container" or "init container", as written in the annotation
+ * @param notes - Receives the parts of the annotation
+ */
+function mergeContainer(container: Container, defaults: ContainerDefaults, kind: string, notes: string[]): Container {
+  const requests = containerRequests(container);
+  const limits = containerLimits(container);
+  const setRequests = requests.missingKeys(defaults.requests).sort();
+  const setLimits = limits.missingKeys(defaults.limits).sort();
+  if (setRequests.length > 0) {
+    notes.push(`${setRequests.join(', ')} request for ${kind} ${container.name ?? ''}`);
+  }
+  if (setLimits.length > 0) {
+    notes.push(`${setLimits.join(', ')} limit for ${kind} ${container.name ?? ''}`);
+  }
+
+  const merged: Container = { ...container };
+  const resources: ResourceRequirements = {};
+  const mergedRequests = withDefaults(requests, defaults.requests);
+  const mergedLimits = withDefaults(limits, defaults.limits);
+  if (mergedRequests.size > 0) resources.requests = mergedRequests.toJSON();
+  if (mergedLimits.size > 0) resources.limits = mergedLimits.toJSON();
+  if (resources.requests || resources.limits) {
+    merged.resources = resources;
+  } else {
+    delete merged.resources;
+  }
+  return merged;
+}
+
+/**
+ * Checks requests and limits against a LimitRange item (`minConstraint`, `maxConstraint`
+ * and `limitRequestRatioConstraint`).
+ * @param item - The LimitRange item
+ * @param requests - The requests of the container or pod
+ * @param limits - The limits of the container or pod
+ * @param errors - Receives the violations
+ */
+function checkConstraints(item: LimitRangeItem, requests: ResourceList, limits: ResourceList, errors: string[]): void {
+  const type = item.type;
+  const min = toResourceList(item.min);
+  for (const name of min.names()) {
+    const enforced = min.get(name)!;
+    const request = requests.get(name);
+    const limit = limits.get(name);
+    if (!request) {
+      errors.push(`minimum ${name} usage per ${type} is ${enforced}.  No request is specified`);
+    } else if (request.toBigInt() < enforced.toBigInt()) {
+      errors.push(`minimum ${name} usage per ${type} is ${enforced}, but request is ${request}`);
+    } else if (limit && limit.toBigInt() < enforced.toBigInt()) {
+      errors.push(`minimum ${name} usage per ${type} is ${enforced}, but limit is ${limit}`);
+    }
+  }
+
+  const max = toResourceList(item.max);
+  for (const name of max.names()) {
+    const enforced = max.get(name)!;
+    const request = requests.get(name);
+    const limit = limits.get(name);
+    if (!limit) {
+      errors.push(`maximum ${name} usage per ${type} is ${enforced}.  No limit is specified`);
+    } else if (limit.toBigInt() > enforced.toBigInt()) {
+      errors.push(`maximum ${name} usage per ${type} is ${enforced}, but limit is ${limit}`);
+    } else if (request && request.toBigInt() > enforced.toBigInt()) {
+      errors.push(`maximum ${name} usage per ${type} is ${enforced}, but request is ${request}`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(item.maxLimitRequestRatio ?? {})) {
+    const { milli, display } = parseRatio(String(value));
+    const request: ScalarResource | undefined = requests.get(name);
+    const limit: ScalarResource | undefined = limits.get(name);
+    if (!request || request.toBigInt() === 0n) {
+      errors.push(`${name} max limit to request ratio per ${type} is ${display}, but no request is specified or request is 0`);
+    } else if (!limit || limit.toBigInt() === 0n) {
+      errors.push(`${name} max limit to request ratio per ${type} is ${display}, but no limit is specified or limit is 0`);
+    } else {
+      // Like the API server, compare in thousandths using floating point
+      const ratio = limit.ratioTo(request);
+      if (ratio * 1000 > Number(milli)) {
+        errors.push(`${name} max limit to request ratio per ${type} is ${display}, but provided ratio is ${ratio.toFixed(6)}`);
+      }
+    }
+  }
+}
+
+/**
+ * Parses a `maxLimitRequestRatio` value, which is a plain number rather than an amount of a resource.
+ * @param value - The quantity string
+ * @returns The ratio in thousandths, rounded up like `Quantity.MilliValue`, and its canonical form
+ * @throws {ResourceParseError} If the value is not a valid quantity
+ */
+export function parseRatio(value: string): { milli: bigint; display: string } {
+  const parsed = parseQuantity(value);
+  if (!parsed.ok) {
+    const hint = "a number (e.g., '2' or '1.5')";
+    throw new ResourceParseError(`Invalid limit to request ratio. Must be ${hint}`, value, parsed.position, hint);
+  }
+  const { numerator, denominator } = quantityFraction(parsed.quantity, 3);
+  const milli = roundFraction(numerator, denominator, 'ceil');
+  return { milli, display: formatQuantity(milli, -3, parsed.quantity.format) };
+}
+
+/**
+ * Joins errors the way the API server's aggregate errors print them.
+ * @param errors - The error messages
+ */
+function aggregate(errors: string[]): string {
+  return errors.length === 1 ? errors[0] : `[${errors.join(', ')}]`;
+}
+
+/**
+ * Applies a LimitRange to a new pod the way the `LimitRanger` admission plugin does, to show the
+ * requests and limits a pod actually runs with and catch rejections before rollout.
+ *
+ * Containers and init containers that do not set a request or limit get the `defaultRequest` and
+ * `default` of the `Container` items, which fall back to `max` and `min` like the API server defaults
+ * them. The resulting requirements must pass the API server's validation (requests may not exceed
+ * limits), and then the `min`, `max` and `maxLimitRequestRatio` of `Container` items are enforced on
+ * every container, and those of `Pod` items on the pod's requests and limits.
+ *
+ * @example
+ * ```typescript
+ * const limitRange = {
+ *   spec: { limits: [{ type: 'Container', default: { cpu: '500m' }, defaultRequest: { cpu: '100m' }, max: { cpu: '1' } }] },
+ * };
+ *
+ * const result = applyLimitRange({ containers: [{ name: 'app' }] }, limitRange);
+ * result.spec.containers[0].resources;  // { requests: { cpu: '100m' }, limits: { cpu: '500m' } }
+ * result.annotation;  // 'LimitRanger plugin set: cpu request for container app; cpu limit for container app'
+ *
+ * applyLimitRange({ containers: [{ name: 'app', resources: { limits: { cpu: '2' } } }] }, limitRange).violations;
+ * // ['maximum cpu usage per Container is 1, but limit is 2']
+ * ```
+ * @param spec - The spec of the new pod
+ * @param limitRange - The LimitRange
+ * @param options - The pod name
+ * @returns The defaulted pod spec and the violations
+ * @throws {Error} If a quantity cannot be parsed
+ */
+export function applyLimitRange(spec: PodSpec, limitRange: LimitRange, options: LimitRangeOptions = {}): LimitRangeResult {
+  const defaults = containerDefaults(limitRange);
+  const notes: string[] = [];
+  const result: PodSpec = {
+    ...spec,
+    containers: spec.containers.map(container => mergeContainer(container, defaults, 'container', notes)),
+  };
+  if (spec.initContainers) {
+    result.initContainers = spec.initContainers.map(container => mergeContainer(container, defaults, 'init container', notes));
+  }
+  const annotation = notes.length > 0 ? `LimitRanger plugin set: ${notes.join('; ')}` : undefined;
+  const podName = options.podName ?? '';
+
+  const containers = [
+    ...result.containers.map((container, index) => ({ container, path: `spec.containers[${index}]` })),
+    ...(result.initContainers ?? []).map((container, index) => ({ container, path: `spec.initContainers[${index}]` })),
+  ];
+  const invalid = containers.flatMap(({ container, path }) =>
+    validateContainerResources(container).map(error => `${path}.${error}`));
+  if (invalid.length > 0) {
+    return { spec: result, annotation, violations: invalid, message: `Pod "${podName}" is invalid: ${aggregate(invalid)}` };
+  }
+
+  const violations: string[] = [];
+  for (const item of limitRange.spec.limits) {
+    if (item.type === 'Container') {
+      for (const { container } of containers) {
+        checkConstraints(item, toResourceList(container.resources?.requests), toResourceList(container.resources?.limits), violations);
+      }
+    } else if (item.type === 'Pod') {
+      // Pod overhead does not count against LimitRange constraints
+      const requests = podRequests(result, { excludeOverhead: true });
+      checkConstraints(item, requests, podLimits(result, { excludeOverhead: true }), violations);
+    }
+  }
+  return {
+    spec: result,
+    annotation,
+    violations,
+    message: violations.length > 0 ? `pods "${podName}" is forbidden: ${aggregate(violations)}` : undefined,
+  };
+}
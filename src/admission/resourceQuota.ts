@@ -0,0 +1,285 @@
+import { InvalidArgumentError } from '../errors';
+import { ExtendedResource } from '../resources/ExtendedResource';
+import { ResourceList } from '../resources/ResourceList';
+import { containerLimits, containerRequests, podLimits, podRequests, toResourceList } from '../pod/podResources';
+import { podQOSClass } from '../pod/qosClass';
+import { Container, PodSpec, ResourceMap } from '../pod/types';
+
+/**
+ * The scopes a ResourceQuota can be restricted to for pods.
+ */
+export type QuotaScope = 'Terminating' | 'NotTerminating' | 'BestEffort' | 'NotBestEffort' | 'PriorityClass';
+
+/**
+ * One requirement of a quota `scopeSelector`.
+ */
+export interface ScopedResourceSelectorRequirement {
+  scopeName: QuotaScope;
+  operator: 'In' | 'NotIn' | 'Exists' | 'DoesNotExist';
+  /** The priority class names for `In` and `NotIn`. */
+  values?: string[];
+}
+
+/**
+ * The `spec` of a ResourceQuota.
+ */
+export interface ResourceQuotaSpec {
+  hard: ResourceMap;
+  scopes?: QuotaScope[];
+  scopeSelector?: { matchExpressions?: ScopedResourceSelectorRequirement[] };
+}
+
+/**
+ * A ResourceQuota object, as read from a manifest or from the API.
+ */
+export interface ResourceQuota {
+  metadata?: { name?: string };
+  spec: ResourceQuotaSpec;
+  status?: { used?: ResourceMap };
+}
+
+/**
+ * Options for {@link evaluateQuota}.
+ */
+export interface QuotaOptions {
+  /** The current usage of the quota. Defaults to `status.used`; resources without usage count as zero. */
+  used?: ResourceMap;
+  /** The name of the pod, as used in rejection messages. */
+  podName?: string;
+}
+
+/**
+ * The result of {@link evaluateQuota}.
+ */
+export type QuotaEvaluation =
+  | {
+    allowed: true;
+    /** Whether the quota applies to the pod at all. Quotas whose scopes do not select the pod allow it unchanged. */
+    matched: boolean;
+    /** The usage the pod adds to the quota's resources. */
+    requested: ResourceList;
+    /** What remains of each resource the quota constrains for pods once the pod is admitted. */
+    headroom: ResourceList;
+  }
+  | {
+    allowed: false;
+    matched: true;
+    requested: ResourceList;
+    /** The resources whose hard limit the pod would exceed. */
+    exceeded: string[];
+    /** The resources the quota requires every container to specify, but some do not. */
+    missing: string[];
+    /** The message the API server rejects the pod with. */
+    message: string;
+  };
+
+/** The resources the quota evaluator tracks for pods, besides hugepages and extended resources. */
+const POD_RESOURCES = [
+  'count/pods', 'pods',
+  'cpu', 'memory', 'ephemeral-storage',
+  'requests.cpu', 'requests.memory', 'requests.ephemeral-storage',
+  'limits.cpu', 'limits.memory', 'limits.ephemeral-storage',
+];
+
+/** The resources every container must specify when a quota constrains them. */
+const REQUIRED_RESOURCES = ['cpu', 'memory', 'requests.cpu', 'requests.memory', 'limits.cpu', 'limits.memory'];
+
+/**
+ * Checks if the quota evaluator tracks a resource for pods (`podEvaluator.MatchingResources`).
+ * Extended resources can only be constrained through their `requests.` name.
+ * @param name - The quota resource name
+ */
+function isPodResource(name: string): boolean {
+  return POD_RESOURCES.includes(name) ||
+    name.startsWith('hugepages-') || name.startsWith('requests.hugepages-') ||
+    (name.startsWith('requests.') && ExtendedResource.isExtendedResourceName(name.slice('requests.'.length)));
+}
+
+/**
+ * Returns the entries of a list whose names are in `names`, like `quota.Mask`.
+ * @param list - The resource list
+ * @param names - The names to keep
+ */
+function mask(list: ResourceList, names: string[]): ResourceList {
+  return list.without(...list.names().filter(name => !names.includes(name)));
+}
+
+/**
+ * Computes the quota usage of requests and limits (`podComputeUsageHelper`).
+ * @param requests - The requests of a pod or container
+ * @param limits - The limits of a pod or container
+ */
+function computeUsage(requests: ResourceList, limits: ResourceList): ResourceList {
+  let usage = new ResourceList({ pods: '1' });
+  for (const name of ['cpu', 'memory', 'ephemeral-storage']) {
+    const request = requests.get(name);
+    if (request) {
+      usage = usage.with(name, request).with(`requests.${name}`, request);
+    }
+    const limit = limits.get(name);
+    if (limit) {
+      usage = usage.with(`limits.${name}`, limit);
+    }
+  }
+  for (const name of requests.names()) {
+    const request = requests.get(name)!;
+    if (name.startsWith('hugepages-')) {
+      usage = usage.with(name, request).with(`requests.${name}`, request);
+    } else if (ExtendedResource.isExtendedResourceName(name)) {
+      usage = usage.with(`requests.${name}`, request);
+    }
+  }
+  return usage;
+}
+
+/**
+ * Computes the usage a pod adds to a ResourceQuota, like the API server's pod evaluator:
+ * `pods` and `count/pods` count the pod, `cpu`, `requests.cpu` and `limits.cpu` (and likewise for
+ * memory and ephemeral storage) hold its effective requests and limits including overhead, and
+ * hugepages and extended resources are counted by their requests.
+ *
+ * @example
+ * ```typescript
+ * podQuotaUsage({ containers: [{ resources: { limits: { cpu: '1', 'nvidia.com/gpu': '1' } } }] }).toJSON();
+ * // { pods: '1', cpu: '1', 'requests.cpu': '1', 'limits.cpu': '1', 'requests.nvidia.com/gpu': '1', 'count/pods': '1' }
+ * ```
+ * @param spec - The pod spec
+ * @returns The quota usage of the pod
+ */
+export function podQuotaUsage(spec: PodSpec): ResourceList {
+  return computeUsage(podRequests(spec), podLimits(spec)).with('count/pods', '1');
+}
+
+/**
+ * Checks if a pod matches one scope requirement (`podMatchesScopeFunc`).
+ * @param spec - The pod spec
+ * @param requirement - The scope requirement
+ * @throws {InvalidArgumentError} If the scope is not supported
+ */
+function matchesScope(spec: PodSpec, requirement: ScopedResourceSelectorRequirement): boolean {
+  const terminating = spec.activeDeadlineSeconds !== undefined && spec.activeDeadlineSeconds >= 0;
+  const priorityClass = spec.priorityClassName ?? '';
+  switch (requirement.scopeName) {
+    case 'Terminating': return terminating;
+    case 'NotTerminating': return !terminating;
+    case 'BestEffort': return podQOSClass(spec).qosClass === 'BestEffort';
+    case 'NotBestEffort': return podQOSClass(spec).qosClass !== 'BestEffort';
+    case 'PriorityClass':
+      switch (requirement.operator) {
+        case 'Exists': return priorityClass !== '';
+        case 'In': return (requirement.values ?? []).includes(priorityClass);
+        case 'NotIn': return !(requirement.values ?? []).includes(priorityClass);
+        // The API server matches against a label set that always contains the priority class
+        case 'DoesNotExist': return false;
+      }
+  }
+  throw new InvalidArgumentError(`Unsupported quota scope "${requirement.scopeName}"`);
+}
+
+/**
+ * Lists the resources some containers do not specify although the quota constrains them
+ * (`podEvaluator.Constraints`), with the names of those containers.
+ * @param spec - The pod spec
+ * @param required - The constrained resources every container must specify
+ */
+function missingResources(spec: PodSpec, required: string[]): Map<string, string[]> {
+  const missing = new Map<string, string[]>();
+  const containers: Container[] = [...spec.containers, ...(spec.initContainers ?? [])];
+  for (const container of containers) {
+    const usage = computeUsage(containerRequests(container), containerLimits(container));
+    for (const name of usage.missingKeys(required)) {
+      missing.set(name, [...(missing.get(name) ?? []), container.name ?? '']);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Formats resources the way the API server prints them in quota messages: `name=value`, sorted by name.
+ * @param list - The resources
+ */
+function prettyPrint(list: ResourceList): string {
+  return list.names().sort().map(name => `${name}=${list.get(name)}`).join(',');
+}
+
+/**
+ * Decides whether a ResourceQuota admits a new pod, the way the API server's `ResourceQuota`
+ * admission plugin does, so that "exceeded quota" failures can be caught before rollout.
+ *
+ * The quota applies when all of its scopes select the pod and it constrains a resource tracked for
+ * pods. It then rejects the pod if a container does not specify a constrained CPU or memory request
+ * or limit, or if the current usage plus the pod's {@link podQuotaUsage} would exceed a hard limit.
+ * Otherwise the result holds the headroom left once the pod is admitted.
+ *
+ * @example
+ * ```typescript
+ * const quota = { metadata: { name: 'compute' }, spec: { hard: { 'limits.memory': '2Gi', pods: '10' } } };
+ * const pod = { containers: [{ name: 'app', resources: { limits: { cpu: '1', memory: '1536Mi' } } }] };
+ *
+ * evaluateQuota(pod, quota, { used: { 'limits.memory': '512Mi', pods: '3' } }).headroom.toJSON();
+ * // { 'limits.memory': '0', pods: '6' }
+ * evaluateQuota(pod, quota, { used: { 'limits.memory': '1Gi' }, podName: 'web' }).message;
+ * // 'pods "web" is forbidden: exceeded quota: compute, requested: limits.memory=1536Mi, used: limits.memory=1Gi, limited: limits.memory=2Gi'
+ * ```
+ * @param spec - The spec of the new pod
+ * @param quota - The ResourceQuota
+ * @param options - The current usage and the pod name
+ * @returns Whether the pod is admitted, with the headroom or the reasons for the rejection
+ * @throws {Error} If a quantity cannot be parsed or a scope is not supported
+ */
+export function evaluateQuota(spec: PodSpec, quota: ResourceQuota, options: QuotaOptions = {}): QuotaEvaluation {
+  const hard = toResourceList(quota.spec.hard);
+  const tracked = hard.names().filter(isPodResource);
+  const requirements: ScopedResourceSelectorRequirement[] = [
+    ...(quota.spec.scopes ?? []).map(scopeName => ({ scopeName, operator: 'Exists' as const })),
+    ...(quota.spec.scopeSelector?.matchExpressions ?? []),
+  ];
+  if (tracked.length === 0 || !requirements.every(requirement => matchesScope(spec, requirement))) {
+    return { allowed: true, matched: false, requested: new ResourceList(), headroom: new ResourceList() };
+  }
+
+  const name = quota.metadata?.name ?? '';
+  const forbidden = `pods "${options.podName ?? ''}" is forbidden`;
+  const requested = mask(podQuotaUsage(spec), tracked);
+
+  const missing = missingResources(spec, tracked.filter(resource => REQUIRED_RESOURCES.includes(resource)));
+  if (missing.size > 0) {
+    const resources = [...missing.keys()].sort();
+    const details = resources.map(resource => `${resource} for: ${missing.get(resource)!.sort().join(',')}`);
+    return {
+      allowed: false,
+      matched: true,
+      requested,
+      exceeded: [],
+      missing: resources,
+      message: `${forbidden}: failed quota: ${name}: must specify ${details.join('; ')}`,
+    };
+  }
+
+  const used = mask(toResourceList(options.used ?? quota.status?.used), tracked);
+  const newUsage = mask(used.plus(requested), requested.names());
+  const exceeded = newUsage.exceeded(hard).sort();
+  if (exceeded.length > 0) {
+    const usedExceeded = exceeded.reduce((list, resource) => list.has(resource) ? list : list.with(resource, '0'), mask(used, exceeded));
+    return {
+      allowed: false,
+      matched: true,
+      requested,
+      exceeded,
+      missing: [],
+      message: `${forbidden}: exceeded quota: ${name}, ` +
+        `requested: ${prettyPrint(mask(requested, exceeded))}, ` +
+        `used: ${prettyPrint(usedExceeded)}, ` +
+        `limited: ${prettyPrint(mask(hard, exceeded))}`,
+    };
+  }
+
+  // Usage of resources the pod does not request may already exceed a quota that was lowered
+  const total = used.plus(requested);
+  const full = total.exceeded(hard);
+  let headroom = mask(hard, tracked).minus(total.without(...full));
+  for (const resource of full) {
+    headroom = headroom.with(resource, '0');
+  }
+  return { allowed: true, matched: true, requested, headroom };
+}
@@ -0,0 +1,178 @@
+import { InvalidArgumentError } from '../errors';
+import { CPUResource } from '../resources/CPUResource';
+import { parseCgroupInteger } from './values';
+
+/** The smallest `cpu.shares` value the kernel accepts. */
+export const MIN_SHARES = 2;
+
+/** The largest `cpu.shares` value the kernel accepts. */
+export const MAX_SHARES = 262144;
+
+/** The `cpu.shares` of one core. */
+const SHARES_PER_CPU = 1024n;
+
+/** The CFS period the kubelet uses by default, in microseconds. */
+export const CFS_PERIOD_US = 100000;
+
+/** The smallest CFS quota the kubelet sets, in microseconds. */
+const MIN_QUOTA_PERIOD = 1000n;
+
+/**
+ * Validates a CFS period.
+ * @param period - The period in microseconds
+ * @throws {InvalidArgumentError} If the period is not between 1ms and 1s
+ */
+function checkPeriod(period: number): bigint {
+  if (!Number.isInteger(period) || period < 1000 || period > 1000000) {
+    throw new InvalidArgumentError(`CFS period must be a whole number of microseconds from 1000 to 1000000, got ${period}`);
+  }
+  return BigInt(period);
+}
+
+/**
+ * Converts a CPU request to the cgroup v1 `cpu.shares` value the kubelet sets (`MilliCPUToShares`):
+ * 1024 shares per core, clamped to the kernel's range of 2 to 262144.
+ * @param request - The CPU request
+ * @returns The `cpu.shares` value
+ */
+export function toCPUShares(request: CPUResource): number {
+  const shares = request.toBigInt() * SHARES_PER_CPU / 1000n;
+  if (shares < BigInt(MIN_SHARES)) return MIN_SHARES;
+  if (shares > BigInt(MAX_SHARES)) return MAX_SHARES;
+  return Number(shares);
+}
+
+/**
+ * Converts a cgroup v1 `cpu.shares` value to the CPU request it stands for (`SharesToMilliCPU`),
+ * rounding up to whole millicores. Values below the minimum of 2 shares stand for no request.
+ * @param shares - The `cpu.shares` value or file contents
+ * @returns The CPU request
+ * @throws {InvalidArgumentError} If the value is not a whole number
+ */
+export function fromCPUShares(shares: number | string): CPUResource {
+  const value = parseCgroupInteger(shares, 'cpu.shares');
+  if (value < BigInt(MIN_SHARES)) {
+    return CPUResource.zero();
+  }
+  return CPUResource.fromMillicores((value * 1000n + SHARES_PER_CPU - 1n) / SHARES_PER_CPU);
+}
+
+/**
+ * Converts a cgroup v1 `cpu.shares` value to the cgroup v2 `cpu.weight` value
+ * (`CpuSharesToCpuWeight`): `1 + ((shares - 2) * 9999) / 262142`.
+ * @param shares - The `cpu.shares` value, from 2 to 262144
+ * @returns The `cpu.weight` value, from 1 to 10000
+ * @throws {InvalidArgumentError} If the shares are out of range
+ */
+export function sharesToWeight(shares: number): number {
+  if (!Number.isInteger(shares) || shares < MIN_SHARES || shares > MAX_SHARES) {
+    throw new InvalidArgumentError(`cpu.shares must be a whole number from ${MIN_SHARES} to ${MAX_SHARES}, got ${shares}`);
+  }
+  return 1 + Math.trunc((shares - 2) * 9999 / 262142);
+}
+
+/**
+ * Converts a cgroup v2 `cpu.weight` value to the cgroup v1 `cpu.shares` value
+ * (`CpuWeightToCpuShares`): `2 + ((weight - 1) * 262142) / 9999`.
+ * @param weight - The `cpu.weight` value, from 1 to 10000
+ * @returns The `cpu.shares` value
+ * @throws {InvalidArgumentError} If the weight is out of range
+ */
+export function weightToShares(weight: number): number {
+  if (!Number.isInteger(weight) || weight < 1 || weight > 10000) {
+    throw new InvalidArgumentError(`cpu.weight must be a whole number from 1 to 10000, got ${weight}`);
+  }
+  return 2 + Math.trunc((weight - 1) * 262142 / 9999);
+}
+
+/**
+ * Converts a CPU request to the cgroup v2 `cpu.weight` value the kubelet sets, by way of `cpu.shares`.
+ *
+ * @example
+ * ```typescript
+ * toCPUWeight(new CPUResource('1'));     // 39, from 1024 shares
+ * toCPUWeight(new CPUResource('100m'));  // 4, from 102 shares
+ * ```
+ * @param request - The CPU request
+ * @returns The `cpu.weight` value
+ */
+export function toCPUWeight(request: CPUResource): number {
+  return sharesToWeight(toCPUShares(request));
+}
+
+/**
+ * Converts a cgroup v2 `cpu.weight` value to the CPU request it stands for, by way of `cpu.shares`.
+ * The mapping loses precision, so the result is only close to the original request.
+ * @param weight - The `cpu.weight` value or file contents
+ * @returns The CPU request
+ * @throws {InvalidArgumentError} If the weight is not a whole number from 1 to 10000
+ */
+export function fromCPUWeight(weight: number | string): CPUResource {
+  return fromCPUShares(weightToShares(Number(parseCgroupInteger(weight, 'cpu.weight'))));
+}
+
+/**
+ * Converts a CPU limit to the cgroup v1 `cpu.cfs_quota_us` value the kubelet sets (`MilliCPUToQuota`):
+ * the limit's share of the period, but at least 1ms. A limit of zero leaves the quota unset (-1).
+ * @param limit - The CPU limit
+ * @param period - The `cpu.cfs_period_us` value; defaults to 100ms
+ * @returns The `cpu.cfs_quota_us` value
+ * @throws {InvalidArgumentError} If the period is invalid
+ */
+export function toCFSQuota(limit: CPUResource, period = CFS_PERIOD_US): number {
+  const periodUs = checkPeriod(period);
+  if (limit.toBigInt() === 0n) {
+    return -1;
+  }
+  const quota = limit.toBigInt() * periodUs / 1000n;
+  return Number(quota < MIN_QUOTA_PERIOD ? MIN_QUOTA_PERIOD : quota);
+}
+
+/**
+ * Converts cgroup v1 `cpu.cfs_quota_us` and `cpu.cfs_period_us` values to the CPU limit they enforce
+ * (`QuotaToMilliCPU`), rounding down to whole millicores.
+ * @param quota - The `cpu.cfs_quota_us` value or file contents
+ * @param period - The `cpu.cfs_period_us` value or file contents; defaults to 100ms
+ * @returns The CPU limit, or undefined if the quota is unset (-1)
+ * @throws {InvalidArgumentError} If a value is invalid
+ */
+export function fromCFSQuota(quota: number | string, period: number | string = CFS_PERIOD_US): CPUResource | undefined {
+  const quotaUs = parseCgroupInteger(quota, 'cpu.cfs_quota_us');
+  const periodUs = checkPeriod(Number(parseCgroupInteger(period, 'cpu.cfs_period_us')));
+  if (quotaUs < 0n) {
+    return undefined;
+  }
+  return CPUResource.fromMillicores(quotaUs * 1000n / periodUs);
+}
+
+/**
+ * Converts a CPU limit to the cgroup v2 `cpu.max` value: the CFS quota and period, or `max` and
+ * the period if the limit is zero.
+ *
+ * @example
+ * ```typescript
+ * toCPUMax(new CPUResource('250m'));  // "25000 100000"
+ * ```
+ * @param limit - The CPU limit
+ * @param period - The period in microseconds; defaults to 100ms
+ * @returns The `cpu.max` value
+ * @throws {InvalidArgumentError} If the period is invalid
+ */
+export function toCPUMax(limit: CPUResource, period = CFS_PERIOD_US): string {
+  const quota = toCFSQuota(limit, period);
+  return `${quota === -1 ? 'max' : quota} ${period}`;
+}
+
+/**
+ * Converts a cgroup v2 `cpu.max` value to the CPU limit it enforces.
+ * @param value - The `cpu.max` file contents, e.g. "25000 100000" or "max 100000"
+ * @returns The CPU limit, or undefined if the quota is `max`
+ * @throws {InvalidArgumentError} If the value is invalid
+ */
+export function fromCPUMax(value: string): CPUResource | undefined {
+  const [quota, period = String(CFS_PERIOD_US), ...rest] = value.trim().split(/\s+/);
+  if (!quota || rest.length > 0) {
+    throw new InvalidArgumentError(`Invalid cpu.max value "${value.trim()}". Must be "<quota> <period>" or "max <period>"`);
+  }
+  return fromCFSQuota(quota === 'max' ? -1 : quota, period);
+}
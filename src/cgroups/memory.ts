@@ -0,0 +1,134 @@
+import { InvalidArgumentError } from '../errors';
+import { MemoryResource } from '../resources/MemoryResource';
+import { parseCgroupInteger } from './values';
+
+/**
+ * The value cgroup v1 `memory.limit_in_bytes` reads as when no limit is set: the largest page
+ * counter on 64-bit systems with 4KiB pages.
+ */
+export const UNLIMITED_MEMORY_V1 = 9223372036854771712n;
+
+/** The memory throttling factor the kubelet uses by default. */
+export const DEFAULT_MEMORY_THROTTLING_FACTOR = 0.9;
+
+/** The page size the kubelet rounds `memory.high` down to (`os.Getpagesize()` on most nodes). */
+const DEFAULT_PAGE_SIZE = 4096;
+
+/**
+ * Options for {@link toMemoryHigh}.
+ */
+export interface MemoryQoSOptions {
+  /** The kubelet's `memoryThrottlingFactor`, greater than 0 and at most 1. Defaults to 0.9. */
+  throttlingFactor?: number;
+  /** The node's allocatable memory, which takes the place of the limit for containers without one. */
+  nodeAllocatable?: MemoryResource;
+  /** The page size in bytes. Defaults to 4096. */
+  pageSize?: number;
+}
+
+/**
+ * Converts a memory limit to the cgroup v1 `memory.limit_in_bytes` value. A limit of zero leaves
+ * the cgroup unlimited.
+ * @param limit - The memory limit
+ * @returns The `memory.limit_in_bytes` value
+ */
+export function toMemoryLimitInBytes(limit: MemoryResource): bigint {
+  const bytes = limit.toBigInt();
+  return bytes === 0n ? UNLIMITED_MEMORY_V1 : bytes;
+}
+
+/**
+ * Converts a cgroup v1 `memory.limit_in_bytes` value to the memory limit it enforces.
+ * @param value - The `memory.limit_in_bytes` value or file contents
+ * @returns The memory limit, or undefined if the cgroup is unlimited (-1 or the largest page counter)
+ * @throws {InvalidArgumentError} If the value is not a whole number
+ */
+export function fromMemoryLimitInBytes(value: number | bigint | string): MemoryResource | undefined {
+  const bytes = parseCgroupInteger(value, 'memory.limit_in_bytes');
+  if (bytes < 0n || bytes >= UNLIMITED_MEMORY_V1) {
+    return undefined;
+  }
+  return MemoryResource.fromBytes(bytes);
+}
+
+/**
+ * Converts a memory limit to the cgroup v2 `memory.max` value: the limit in bytes, or `max` if the
+ * limit is zero.
+ * @param limit - The memory limit
+ * @returns The `memory.max` value
+ */
+export function toMemoryMax(limit: MemoryResource): string {
+  const bytes = limit.toBigInt();
+  return bytes === 0n ? 'max' : bytes.toString();
+}
+
+/**
+ * Converts a cgroup v2 memory value to the amount of memory it stands for. Reads `memory.max`,
+ * `memory.high` and `memory.min` alike.
+ * @param value - The file contents, e.g. "536870912" or "max"
+ * @returns The memory, or undefined for `max`
+ * @throws {InvalidArgumentError} If the value is neither `max` nor a whole number of bytes
+ */
+export function fromMemoryMax(value: string): MemoryResource | undefined {
+  if (value.trim() === 'max') {
+    return undefined;
+  }
+  const bytes = parseCgroupInteger(value, 'memory.max');
+  if (bytes < 0n) {
+    throw new InvalidArgumentError(`Invalid memory.max value "${value.trim()}". Must be "max" or a number of bytes`);
+  }
+  return MemoryResource.fromBytes(bytes);
+}
+
+/**
+ * Converts a memory request to the cgroup v2 `memory.min` value the kubelet sets with the MemoryQoS
+ * feature: the request in bytes.
+ * @param request - The memory request
+ * @returns The `memory.min` value
+ */
+export function toMemoryMin(request: MemoryResource): string {
+  return request.toBigInt().toString();
+}
+
+/**
+ * Computes the cgroup v2 `memory.high` value the kubelet sets on a container with the MemoryQoS
+ * feature, where the kernel starts throttling allocations:
+ *
+ * `floor((request + throttlingFactor * (limit - request)) / pageSize) * pageSize`
+ *
+ * Containers without a limit use the node's allocatable memory in its place. The kubelet leaves
+ * `memory.high` at `max` when the request equals the limit (as for Guaranteed pods), when there
+ * is neither a limit nor a node allocatable amount, and when the result is not above the request.
+ *
+ * @example
+ * ```typescript
+ * toMemoryHigh(new MemoryResource('128Mi'), new MemoryResource('256Mi'));  // "255012864", about 243.2Mi
+ * ```
+ * @param request - The memory request
+ * @param limit - The memory limit; zero if the container has none
+ * @param options - The throttling factor, node allocatable memory and page size
+ * @returns The `memory.high` value, in bytes or `max`
+ * @throws {InvalidArgumentError} If the throttling factor or page size is invalid
+ */
+export function toMemoryHigh(request: MemoryResource, limit: MemoryResource, options: MemoryQoSOptions = {}): string {
+  const factor = options.throttlingFactor ?? DEFAULT_MEMORY_THROTTLING_FACTOR;
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  if (!(factor > 0 && factor <= 1)) {
+    throw new InvalidArgumentError(`Memory throttling factor must be greater than 0 and at most 1, got ${factor}`);
+  }
+  if (!Number.isInteger(pageSize) || pageSize <= 0) {
+    throw new InvalidArgumentError(`Page size must be a positive whole number of bytes, got ${pageSize}`);
+  }
+
+  const requestBytes = request.toBigInt();
+  if (requestBytes === limit.toBigInt()) {
+    return 'max';
+  }
+  const ceiling = limit.toBigInt() !== 0n ? limit.toBigInt() : options.nodeAllocatable?.toBigInt() ?? 0n;
+  if (ceiling <= 0n) {
+    return 'max';
+  }
+  // The kubelet computes in float64 and truncates the page count
+  const high = BigInt(Math.trunc(Math.floor(Number(requestBytes) + (Number(ceiling) - Number(requestBytes)) * factor) / pageSize)) * BigInt(pageSize);
+  return high !== 0n && high > requestBytes ? high.toString() : 'max';
+}
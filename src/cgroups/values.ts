@@ -0,0 +1,16 @@
+import { InvalidArgumentError } from '../errors';
+
+/**
+ * Parses a whole number read from a cgroup file.
+ * @param value - The value, as a number or as the contents of the file
+ * @param file - The name of the file, for error messages
+ * @returns The value
+ * @throws {InvalidArgumentError} If the value is not a whole number
+ */
+export function parseCgroupInteger(value: number | bigint | string, file: string): bigint {
+  const text = String(value).trim();
+  if (!/^-?\d+$/.test(text)) {
+    throw new InvalidArgumentError(`Invalid ${file} value "${text}". Must be a whole number`);
+  }
+  return BigInt(text);
+}
@@ -0,0 +1,324 @@
+import { parseArgs } from 'util';
+import { ResourceParseError, UnitMismatchError } from '../errors';
+import { ExpressionResult, evaluateExpression } from '../expression/evaluate';
+import { loadLintConfig } from '../lint/config';
+import { Finding, lintManifests } from '../lint/lintManifests';
+import { toSarif } from '../lint/sarif';
+import { ManifestDiff, diffManifests, formatDiffMarkdown } from '../manifests/diffManifests';
+import { loadManifests } from '../manifests/loadManifests';
+import { ScanResult, scanManifests } from '../manifests/scanManifests';
+import { formatFraction } from '../resources/arithmetic';
+import { parseQuantity, suffixScale } from '../resources/quantity';
+import { ResourceList } from '../resources/ResourceList';
+import { formatCSV, formatTable } from './output';
+
+/**
+ * A stream the command line tool writes to.
+ */
+export interface OutputStream {
+  write(text: string): unknown;
+}
+
+/**
+ * The streams the command line tool writes to.
+ */
+export interface CLIStreams {
+  stdout: OutputStream;
+  stderr: OutputStream;
+}
+
+type OutputFormat = 'table' | 'json' | 'csv' | 'markdown' | 'sarif';
+
+/** The output formats only one command supports, with their display names. */
+const COMMAND_FORMATS: Partial<Record<OutputFormat, { command: string; display: string }>> = {
+  markdown: { command: 'diff', display: 'Markdown' },
+  sarif: { command: 'lint', display: 'SARIF' },
+};
+
+/**
+ * An error in the command line arguments, reported with exit code 2.
+ */
+class UsageError extends Error {}
+
+const USAGE = `Usage: k8s-resources <command> [options]
+
+Commands:
+  calc <expression>         Evaluate an expression, e.g. "3 * 250m + 1.5" or "4Gi / 512Mi"
+  convert <quantity>        Convert a quantity to another unit, e.g. "1536Mi --to Gi"
+  sum <path>...             Total the requests and limits of the workloads in manifest files or directories
+  diff <before> <after>     Show the change of workload requests, limits and replicas between two manifest files or directories
+  lint <path>...            Check the workloads in manifest files or directories against resource policy rules
+
+Options:
+  -o, --output <format>     Output format: table, json or csv, markdown for diff or sarif for lint (default: table)
+      --to <unit>           The unit to convert to: n, u, m or cores for CPU, B, Ki to Ei or k to E for memory
+  -n, --namespace <name>    The namespace of objects that do not set one (default: default)
+      --daemonset-nodes <n> The number of nodes DaemonSet pods run on (default: 1)
+  -c, --config <file>       The lint rules to check (default: requests, memory limits and no BestEffort pods)
+  -h, --help                Show this help
+`;
+
+/** Units `convert` treats as CPU units; all other units are memory units. */
+const CPU_UNITS = ['n', 'u', 'm', 'cores'];
+
+/**
+ * Renders the result of `calc`.
+ * @param result - The expression result
+ * @param output - The output format
+ */
+function renderCalc(result: ExpressionResult, output: OutputFormat): string {
+  const value = String(result.value);
+  if (output === 'json') return JSON.stringify({ type: result.type, value }, null, 2);
+  if (output === 'csv') return formatCSV(['type', 'value'], [[result.type, value]]);
+  return value;
+}
+
+/**
+ * Converts a quantity to a unit, exactly.
+ * @param input - The quantity string
+ * @param unit - The unit to convert to
+ * @returns The converted value followed by the unit, or a plain number for cores
+ * @throws {Error} If the quantity cannot be parsed or the unit does not match its kind
+ */
+function convert(input: string, unit: string): { type: 'cpu' | 'memory'; value: string } {
+  const scale = suffixScale(unit === 'cores' || unit === 'B' ? '' : unit);
+  if (!scale) {
+    throw new UsageError(`Unknown unit "${unit}". Must be one of: ${CPU_UNITS.join(', ')}, B, Ki, Mi, Gi, Ti, Pi, Ei, k, M, G, T, P, E`);
+  }
+  const parsed = parseQuantity(input);
+  if (!parsed.ok) {
+    throw new ResourceParseError(`Invalid quantity "${input}"`, input, parsed.position, 'a Kubernetes quantity');
+  }
+  const { negative, digits, exponent, binaryExponent, suffix } = parsed.quantity;
+  const type = CPU_UNITS.includes(unit) ? 'cpu' : 'memory';
+  if (['n', 'u', 'm'].includes(suffix) && type !== 'cpu') {
+    throw new UnitMismatchError(`Cannot convert CPU quantity "${input}" to memory unit ${unit}`);
+  }
+  if (/i$/.test(suffix) && type !== 'memory') {
+    throw new UnitMismatchError(`Cannot convert memory quantity "${input}" to CPU unit ${unit}`);
+  }
+
+  let numerator = digits * 2n ** BigInt(binaryExponent);
+  let denominator = 2n ** BigInt(scale.binaryExponent);
+  const shift = exponent - scale.exponent;
+  if (shift >= 0) numerator *= 10n ** BigInt(shift);
+  else denominator *= 10n ** BigInt(-shift);
+  const value = `${negative && digits !== 0n ? '-' : ''}${formatFraction(numerator, denominator)}`;
+  return { type, value: unit === 'cores' ? value : `${value}${unit}` };
+}
+
+/**
+ * Reads the `--daemonset-nodes` option.
+ * @param value - The option value, if given
+ * @throws {UsageError} If the value is not a whole number
+ */
+function daemonSetNodes(value: string | undefined): number | undefined {
+  if (value !== undefined && !/^\d+$/.test(value)) {
+    throw new UsageError("--daemonset-nodes must be a whole number");
+  }
+  return value === undefined ? undefined : Number(value);
+}
+
+/**
+ * Renders the result of `sum`.
+ * @param result - The scan result
+ * @param output - The output format
+ */
+function renderSum(result: ScanResult, output: OutputFormat): string {
+  if (output === 'json') return JSON.stringify(result, null, 2);
+
+  // Unset values are shown as "-" in tables and left empty in CSV
+  const missing = output === 'csv' ? '' : '-';
+  const columns = (requests: ResourceList, limits: ResourceList) =>
+    [requests.get('cpu'), limits.get('cpu'), requests.get('memory'), limits.get('memory')]
+      .map(value => value?.toString() ?? missing);
+  const workloads = result.workloads.map(workload => [
+    workload.kind, workload.namespace, workload.name, String(workload.replicas),
+    ...columns(workload.requests, workload.limits),
+  ]);
+  const namespaces = Object.entries(result.namespaces)
+    .map(([namespace, totals]) => [namespace, ...columns(totals.requests, totals.limits)]);
+  const total = columns(result.total.requests, result.total.limits);
+
+  if (output === 'csv') {
+    return formatCSV(
+      ['scope', 'kind', 'namespace', 'name', 'replicas', 'cpu_requests', 'cpu_limits', 'memory_requests', 'memory_limits'],
+      [
+        ...workloads.map(row => ['workload', ...row]),
+        ...namespaces.map(([namespace, ...values]) => ['namespace', '', namespace, '', '', ...values]),
+        ['total', '', '', '', '', ...total],
+      ],
+    );
+  }
+  const resourceHeaders = ['CPU REQUESTS', 'CPU LIMITS', 'MEMORY REQUESTS', 'MEMORY LIMITS'];
+  return [
+    formatTable(['KIND', 'NAMESPACE', 'NAME', 'REPLICAS', ...resourceHeaders], workloads),
+    formatTable(['NAMESPACE', ...resourceHeaders], [...namespaces, ['TOTAL', ...total]]),
+  ].join('\n\n');
+}
+
+/**
+ * Renders the result of `diff`.
+ * @param diff - The diff
+ * @param output - The output format
+ */
+function renderDiff(diff: ManifestDiff, output: OutputFormat): string {
+  if (output === 'json') return JSON.stringify(diff, null, 2);
+  if (output === 'markdown') return formatDiffMarkdown(diff);
+
+  const columns = ({ requests, limits }: ManifestDiff['total']) =>
+    [requests.cpu, limits.cpu, requests.memory, limits.memory].map(delta => delta?.toString() ?? '0');
+  const workloads = diff.workloads.map(workload => [
+    workload.kind, workload.namespace, workload.name, workload.change,
+    String(workload.replicas.before), String(workload.replicas.after), ...columns(workload),
+  ]);
+  const total = columns(diff.total);
+
+  if (output === 'csv') {
+    return formatCSV(
+      ['scope', 'kind', 'namespace', 'name', 'change', 'replicas_before', 'replicas_after', 'cpu_requests', 'cpu_limits', 'memory_requests', 'memory_limits'],
+      [
+        ...workloads.map(row => ['workload', ...row]),
+        ...Object.entries(diff.namespaces).map(([namespace, totals]) => ['namespace', '', namespace, '', '', '', '', ...columns(totals)]),
+        ['total', '', '', '', '', '', '', ...total],
+      ],
+    );
+  }
+  const resourceHeaders = ['CPU REQUESTS', 'CPU LIMITS', 'MEMORY REQUESTS', 'MEMORY LIMITS'];
+  return [
+    formatTable(['KIND', 'NAMESPACE', 'NAME', 'CHANGE', 'REPLICAS BEFORE', 'REPLICAS AFTER', ...resourceHeaders], workloads),
+    formatTable(['NAMESPACE', ...resourceHeaders], [
+      ...Object.entries(diff.namespaces).map(([namespace, totals]) => [namespace, ...columns(totals)]),
+      ['TOTAL', ...total],
+    ]),
+  ].join('\n\n');
+}
+
+/**
+ * Renders the findings of `lint`.
+ * @param findings - The findings
+ * @param output - The output format
+ */
+function renderLint(findings: Finding[], output: OutputFormat): string {
+  if (output === 'json') return JSON.stringify(findings, null, 2);
+  if (output === 'sarif') return JSON.stringify(toSarif(findings), null, 2);
+
+  if (output === 'csv') {
+    return formatCSV(
+      ['severity', 'source', 'line', 'rule', 'kind', 'namespace', 'name', 'container', 'message'],
+      findings.map(finding => [
+        finding.severity, finding.source ?? '', String(finding.line), finding.ruleId,
+        finding.kind, finding.namespace, finding.name, finding.container ?? '', finding.message,
+      ]),
+    );
+  }
+  return formatTable(['SEVERITY', 'LOCATION', 'RULE', 'WORKLOAD', 'MESSAGE'], findings.map(finding => [
+    finding.severity,
+    finding.source ? `${finding.source}:${finding.line}` : `line ${finding.line}`,
+    finding.ruleId,
+    `${finding.kind}/${finding.namespace}/${finding.name}`,
+    finding.message,
+  ]));
+}
+
+/**
+ * Runs the `k8s-resources` command line tool.
+ *
+ * Exits with 0 on success, 1 if a quantity, expression or manifest cannot be parsed or `lint` finds
+ * an error, and 2 for invalid command line arguments. Errors are written to `stderr`.
+ *
+ * @example
+ * ```typescript
+ * main(['calc', '3 * 250m + 1.5']);          // prints 2250m
+ * main(['convert', '1536Mi', '--to', 'Gi']);  // prints 1.5Gi
+ * main(['sum', './manifests', '-o', 'json']);
+ * main(['diff', './base', './head', '-o', 'markdown']);
+ * main(['lint', './manifests', '--config', './lint.yaml', '-o', 'sarif']);
+ * ```
+ * @param argv - The command line arguments, without the node executable and script path
+ * @param streams - The streams to write output and errors to
+ * @returns The exit code
+ */
+export function main(argv: string[], streams: CLIStreams = process): number {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        output: { type: 'string', short: 'o', default: 'table' },
+        to: { type: 'string' },
+        namespace: { type: 'string', short: 'n' },
+        'daemonset-nodes': { type: 'string' },
+        config: { type: 'string', short: 'c' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+    const [command, ...args] = positionals;
+    if (values.help || command === undefined) {
+      (values.help ? streams.stdout : streams.stderr).write(USAGE);
+      return values.help ? 0 : 2;
+    }
+    const output = values.output as OutputFormat;
+    if (!['table', 'json', 'csv', 'markdown', 'sarif'].includes(output)) {
+      throw new UsageError(`Unknown output format "${output}". Must be one of: table, json, csv, markdown, sarif`);
+    }
+    const only = COMMAND_FORMATS[output];
+    if (only && command !== only.command) {
+      throw new UsageError(`${only.display} output is only supported by ${only.command}`);
+    }
+
+    let text: string;
+    let exitCode = 0;
+    switch (command) {
+      case 'calc':
+        if (args.length === 0) throw new UsageError("calc requires an expression");
+        text = renderCalc(evaluateExpression(args.join(' ')), output);
+        break;
+      case 'convert': {
+        if (args.length !== 1) throw new UsageError("convert requires exactly one quantity");
+        if (values.to === undefined) throw new UsageError("convert requires --to <unit>");
+        const result = convert(args[0], values.to);
+        text = output === 'json'
+          ? JSON.stringify({ type: result.type, input: args[0], value: result.value }, null, 2)
+          : output === 'csv'
+            ? formatCSV(['type', 'input', 'value'], [[result.type, args[0], result.value]])
+            : result.value;
+        break;
+      }
+      case 'sum': {
+        if (args.length === 0) throw new UsageError("sum requires at least one file or directory");
+        text = renderSum(scanManifests(loadManifests(args), {
+          defaultNamespace: values.namespace,
+          daemonSetNodes: daemonSetNodes(values['daemonset-nodes']),
+        }), output);
+        break;
+      }
+      case 'diff': {
+        if (args.length !== 2) throw new UsageError("diff requires a file or directory before and after the change");
+        const options = { defaultNamespace: values.namespace, daemonSetNodes: daemonSetNodes(values['daemonset-nodes']) };
+        text = renderDiff(diffManifests(loadManifests([args[0]]), loadManifests([args[1]]), options), output);
+        break;
+      }
+      case 'lint': {
+        if (args.length === 0) throw new UsageError("lint requires at least one file or directory");
+        const config = values.config === undefined ? undefined : loadLintConfig(values.config);
+        const findings = lintManifests(loadManifests(args), config, {
+          defaultNamespace: values.namespace,
+          daemonSetNodes: daemonSetNodes(values['daemonset-nodes']),
+        });
+        text = renderLint(findings, output);
+        exitCode = findings.some(finding => finding.severity === 'error') ? 1 : 0;
+        break;
+      }
+      default:
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+    streams.stdout.write(`${text}\n`);
+    return exitCode;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    streams.stderr.write(`k8s-resources: ${message}\n`);
+    const usage = error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS');
+    return usage ? 2 : 1;
+  }
+}
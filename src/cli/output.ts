@@ -0,0 +1,29 @@
+/**
+ * Formats rows as a table with left-aligned columns, like `kubectl get`.
+ * @param headers - The column headers
+ * @param rows - The table rows
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map(row => (row[column] ?? '').length)));
+  return [headers, ...rows]
+    .map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('   ').trimEnd())
+    .join('\n');
+}
+
+/**
+ * Quotes a CSV field if it contains a separator, quote or line break.
+ * @param field - The field value
+ */
+function csvField(field: string): string {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Formats rows as comma-separated values with a header line.
+ * @param headers - The column headers
+ * @param rows - The rows
+ */
+export function formatCSV(headers: string[], rows: string[][]): string {
+  return [headers, ...rows].map(row => row.map(csvField).join(',')).join('\n');
+}
@@ -0,0 +1,190 @@
+import { CPUResource } from '../resources/CPUResource';
+import { MemoryResource } from '../resources/MemoryResource';
+import { ResourceList } from '../resources/ResourceList';
+import { PriceContext, Pricing, pricesFor } from './pricing';
+
+/**
+ * An amount of CPU and memory, such as requests or usage.
+ */
+export interface ComputeResources {
+  cpu: CPUResource;
+  memory: MemoryResource;
+}
+
+/**
+ * What CPU and memory cost.
+ */
+export interface Cost {
+  /** The hourly cost of the CPU. */
+  cpu: number;
+  /** The hourly cost of the memory. */
+  memory: number;
+  hourly: number;
+  monthly: number;
+}
+
+/**
+ * A workload to cost. The workloads of {@link scanManifests} can be passed as they are.
+ */
+export interface CostedWorkload {
+  name: string;
+  namespace: string;
+  /** The requests of all pods of the workload. */
+  requests: ResourceList;
+}
+
+/**
+ * The cost of the requests of a workload or namespace.
+ */
+export interface WorkloadCost extends Cost {
+  /** The cost of the requests that go unused, if the usage is known. */
+  idle?: Cost;
+}
+
+/**
+ * Options for {@link workloadCost}.
+ */
+export interface WorkloadCostOptions {
+  /** Where the workload runs. */
+  context?: PriceContext;
+  /** The usage of all pods of the workload, to cost the idle requests. */
+  usage?: ComputeResources;
+}
+
+/**
+ * Options for {@link namespaceCosts}.
+ */
+export interface NamespaceCostOptions {
+  /** Returns where a workload runs. */
+  contextOf?: (workload: CostedWorkload) => PriceContext | undefined;
+  /** Returns the usage of all pods of a workload, if known, to cost the idle requests. */
+  usageOf?: (workload: CostedWorkload) => ComputeResources | undefined;
+}
+
+/** The hours in a month, on average (8760 / 12). */
+const HOURS_PER_MONTH = 730;
+
+/** The bytes in a GiB. */
+const GIB = 1024 ** 3;
+
+/**
+ * Builds a cost from the hourly cost of CPU and memory.
+ * @param cpu - The hourly cost of the CPU
+ * @param memory - The hourly cost of the memory
+ * @param pricing - The pricing model, for the hours in a month
+ */
+function toCost(cpu: number, memory: number, pricing: Pricing): Cost {
+  const hourly = cpu + memory;
+  return { cpu, memory, hourly, monthly: hourly * (pricing.hoursPerMonth ?? HOURS_PER_MONTH) };
+}
+
+/**
+ * Adds up costs.
+ * @param costs - The costs
+ * @param pricing - The pricing model, for the hours in a month
+ */
+function sumCosts(costs: Cost[], pricing: Pricing): Cost {
+  return toCost(
+    costs.reduce((sum, cost) => sum + cost.cpu, 0),
+    costs.reduce((sum, cost) => sum + cost.memory, 0),
+    pricing,
+  );
+}
+
+/**
+ * Computes the hourly and monthly cost of an amount of CPU and memory.
+ *
+ * @example
+ * ```typescript
+ * const pricing = { default: { cpuPerHour: 0.04, memoryGiBPerHour: 0.005 } };
+ * resourceCost({ cpu: new CPUResource('500m'), memory: new MemoryResource('2Gi') }, pricing);
+ * // { cpu: 0.02, memory: 0.01, hourly: 0.03, monthly: 21.9 }
+ * ```
+ * @param resources - The CPU and memory
+ * @param pricing - The pricing model
+ * @param context - Where the resources run, to pick the prices
+ * @returns The cost
+ * @throws {InvalidArgumentError} If there is no price for the context
+ */
+export function resourceCost(resources: ComputeResources, pricing: Pricing, context: PriceContext = {}): Cost {
+  const prices = pricesFor(pricing, context);
+  return toCost(
+    resources.cpu.valueOf() / 1000 * prices.cpuPerHour,
+    resources.memory.valueOf() / GIB * prices.memoryGiBPerHour,
+    pricing,
+  );
+}
+
+/**
+ * Computes the cost of requested resources that go unused: the requests above the usage. Usage
+ * above the requests does not offset idle requests of the other resource.
+ * @param requested - The requests
+ * @param used - The usage
+ * @param pricing - The pricing model
+ * @param context - Where the resources run, to pick the prices
+ * @returns The cost of the idle requests
+ * @throws {InvalidArgumentError} If there is no price for the context
+ */
+export function idleCost(requested: ComputeResources, used: ComputeResources, pricing: Pricing, context: PriceContext = {}): Cost {
+  const idle = {
+    cpu: used.cpu.isLessThan(requested.cpu) ? requested.cpu.minus(used.cpu) : CPUResource.zero(),
+    memory: used.memory.isLessThan(requested.memory) ? requested.memory.minus(used.memory) : MemoryResource.zero(),
+  };
+  return resourceCost(idle, pricing, context);
+}
+
+/**
+ * Computes the cost of the CPU and memory requests of a workload, and of the part that goes unused
+ * if the usage is given. Other resources are not costed.
+ * @param workload - The workload and the requests of all its pods
+ * @param pricing - The pricing model
+ * @param options - Where the workload runs and its usage
+ * @returns The cost
+ * @throws {InvalidArgumentError} If there is no price for the context
+ */
+export function workloadCost(workload: Pick<CostedWorkload, 'requests'>, pricing: Pricing, options: WorkloadCostOptions = {}): WorkloadCost {
+  const requested = { cpu: workload.requests.cpu(), memory: workload.requests.memory() };
+  const cost: WorkloadCost = resourceCost(requested, pricing, options.context);
+  if (options.usage) {
+    cost.idle = idleCost(requested, options.usage, pricing, options.context);
+  }
+  return cost;
+}
+
+/**
+ * Computes the cost of the requests of each namespace, for chargeback. Each workload is priced for
+ * where it runs, so a namespace can span node pools, capacity types and regions.
+ *
+ * @example
+ * ```typescript
+ * const { workloads } = scanManifests(loadManifests(['./manifests']));
+ * const costs = namespaceCosts(workloads, loadPricing('./pricing.yaml'), {
+ *   contextOf: workload => ({ capacityType: workload.kind === 'Job' ? 'spot' : 'on-demand' }),
+ * });
+ * costs['payments'].monthly;  // e.g. 412.37
+ * ```
+ * @param workloads - The workloads
+ * @param pricing - The pricing model
+ * @param options - Where each workload runs and its usage
+ * @returns The cost per namespace, sorted by namespace name. The idle cost covers the workloads
+ * whose usage is known and is left out if none is.
+ * @throws {InvalidArgumentError} If there is no price for a workload
+ */
+export function namespaceCosts(workloads: CostedWorkload[], pricing: Pricing, options: NamespaceCostOptions = {}): Record<string, WorkloadCost> {
+  const costs = workloads.map(workload => ({
+    namespace: workload.namespace,
+    cost: workloadCost(workload, pricing, { context: options.contextOf?.(workload), usage: options.usageOf?.(workload) }),
+  }));
+
+  const result: Record<string, WorkloadCost> = {};
+  for (const namespace of [...new Set(costs.map(cost => cost.namespace))].sort()) {
+    const inNamespace = costs.filter(cost => cost.namespace === namespace).map(({ cost }) => cost);
+    const total: WorkloadCost = sumCosts(inNamespace, pricing);
+    const idle = inNamespace.flatMap(cost => cost.idle ? [cost.idle] : []);
+    if (idle.length > 0) {
+      total.idle = sumCosts(idle, pricing);
+    }
+    result[namespace] = total;
+  }
+  return result;
+}
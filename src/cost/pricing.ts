@@ -0,0 +1,201 @@
+import { readFileSync } from 'fs';
+import { parse } from 'yaml';
+import { ConfigError, InvalidArgumentError } from '../errors';
+
+/**
+ * Whether nodes are bought on demand or as spot capacity.
+ */
+export type CapacityType = 'on-demand' | 'spot';
+
+/**
+ * Where a workload runs, for picking its prices.
+ */
+export interface PriceContext {
+  nodePool?: string;
+  capacityType?: CapacityType;
+  region?: string;
+}
+
+/**
+ * The price of CPU and memory.
+ */
+export interface Prices {
+  /** The price of one vCPU for one hour. */
+  cpuPerHour: number;
+  /** The price of one GiB of memory for one hour. */
+  memoryGiBPerHour: number;
+}
+
+/**
+ * Prices that apply to the node pools, capacity types and regions they name. Fields left out
+ * match any value.
+ */
+export interface PriceRate extends Prices, PriceContext {}
+
+/**
+ * A pricing model, as read by {@link parsePricing}.
+ */
+export interface Pricing {
+  /** The currency of the prices, for display only. */
+  currency?: string;
+  /** The hours in a month. Defaults to 730. */
+  hoursPerMonth?: number;
+  /** The prices of workloads that no rate matches. */
+  default?: Prices;
+  rates?: PriceRate[];
+}
+
+/** The fields of a price context, in the order they are printed. */
+const CONTEXT_FIELDS = ['nodePool', 'capacityType', 'region'] as const;
+
+/**
+ * Checks that a value read from a pricing file is a price.
+ * @param value - The value
+ * @param path - The path of the value in the file, for error messages
+ * @throws {ConfigError} If the value is not a non-negative number
+ */
+function checkPrice(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new ConfigError(`${path} must be a non-negative number, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Reads the prices of a default or rate entry.
+ * @param entry - The entry
+ * @param path - The path of the entry in the file, for error messages
+ * @throws {ConfigError} If the entry is not an object with both prices
+ */
+function readPrices(entry: unknown, path: string): Prices {
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    throw new ConfigError(`${path} must be an object`);
+  }
+  const { cpuPerHour, memoryGiBPerHour } = entry as Record<string, unknown>;
+  return {
+    cpuPerHour: checkPrice(cpuPerHour, `${path}.cpuPerHour`),
+    memoryGiBPerHour: checkPrice(memoryGiBPerHour, `${path}.memoryGiBPerHour`),
+  };
+}
+
+/**
+ * Parses a pricing model from YAML or JSON:
+ *
+ * ```yaml
+ * currency: USD
+ * default:
+ *   cpuPerHour: 0.0316
+ *   memoryGiBPerHour: 0.0042
+ * rates:
+ *   - nodePool: batch
+ *     capacityType: spot
+ *     cpuPerHour: 0.0095
+ *     memoryGiBPerHour: 0.0013
+ *   - region: eu-west-1
+ *     cpuPerHour: 0.0352
+ *     memoryGiBPerHour: 0.0047
+ * ```
+ * @param text - The YAML or JSON text
+ * @param source - The file name or other source of the text, used in error messages
+ * @returns The pricing model
+ * @throws {ConfigError} If the text is not valid YAML or not a valid pricing model
+ */
+export function parsePricing(text: string, source?: string): Pricing {
+  const prefix = source ? `${source}: ` : '';
+  try {
+    const document: unknown = parse(text);
+    if (typeof document !== 'object' || document === null || Array.isArray(document)) {
+      throw new ConfigError("expected an object");
+    }
+    const { currency, hoursPerMonth, default: defaults, rates } = document as Record<string, unknown>;
+    const pricing: Pricing = {};
+    if (currency !== undefined) {
+      if (typeof currency !== 'string') {
+        throw new ConfigError(`currency must be a string, got ${JSON.stringify(currency)}`);
+      }
+      pricing.currency = currency;
+    }
+    if (hoursPerMonth !== undefined) {
+      if (typeof hoursPerMonth !== 'number' || !(hoursPerMonth >= 1 && hoursPerMonth <= 744)) {
+        throw new ConfigError(`hoursPerMonth must be a number from 1 to 744, got ${JSON.stringify(hoursPerMonth)}`);
+      }
+      pricing.hoursPerMonth = hoursPerMonth;
+    }
+    if (defaults !== undefined) {
+      pricing.default = readPrices(defaults, 'default');
+    }
+    if (rates !== undefined) {
+      if (!Array.isArray(rates)) {
+        throw new ConfigError("rates must be a list");
+      }
+      pricing.rates = rates.map((rate, index) => {
+        const prices = readPrices(rate, `rates[${index}]`);
+        const context: PriceContext = {};
+        for (const field of CONTEXT_FIELDS) {
+          const value = (rate as Record<string, unknown>)[field];
+          if (value === undefined) continue;
+          if (typeof value !== 'string') {
+            throw new ConfigError(`rates[${index}].${field} must be a string, got ${JSON.stringify(value)}`);
+          }
+          if (field !== 'capacityType') {
+            context[field] = value;
+          } else if (value === 'on-demand' || value === 'spot') {
+            context.capacityType = value;
+          } else {
+            throw new ConfigError(`rates[${index}].capacityType must be "on-demand" or "spot", got "${value}"`);
+          }
+        }
+        return { ...prices, ...context };
+      });
+    }
+    return pricing;
+  } catch (error) {
+    throw new ConfigError(`${prefix}Invalid pricing: ${(error as Error).message}`, error);
+  }
+}
+
+/**
+ * Reads a pricing model from a YAML or JSON file.
+ * @param path - The file
+ * @returns The pricing model
+ * @throws {ConfigError} If the file is not a valid pricing model
+ * @throws {Error} If the file cannot be read
+ */
+export function loadPricing(path: string): Pricing {
+  return parsePricing(readFileSync(path, 'utf8'), path);
+}
+
+/**
+ * Looks up the prices for a context: the matching rate that names the most fields, the first
+ * listed on a tie, or the default prices if no rate matches.
+ *
+ * @example
+ * ```typescript
+ * pricesFor(loadPricing('./pricing.yaml'), { nodePool: 'batch', capacityType: 'spot' });
+ * // { cpuPerHour: 0.0095, memoryGiBPerHour: 0.0013 }
+ * ```
+ * @param pricing - The pricing model
+ * @param context - The node pool, capacity type and region
+ * @returns The prices
+ * @throws {InvalidArgumentError} If no rate matches and there are no default prices
+ */
+export function pricesFor(pricing: Pricing, context: PriceContext = {}): Prices {
+  let best: PriceRate | undefined;
+  let bestFields = -1;
+  for (const rate of pricing.rates ?? []) {
+    const named = CONTEXT_FIELDS.filter(field => rate[field] !== undefined);
+    if (named.every(field => rate[field] === context[field]) && named.length > bestFields) {
+      best = rate;
+      bestFields = named.length;
+    }
+  }
+  const prices = best ?? pricing.default;
+  if (!prices) {
+    const description = CONTEXT_FIELDS
+      .filter(field => context[field] !== undefined)
+      .map(field => `${field} "${context[field]}"`)
+      .join(', ');
+    throw new InvalidArgumentError(`No price for ${description || 'the default context'}`);
+  }
+  return { cpuPerHour: prices.cpuPerHour, memoryGiBPerHour: prices.memoryGiBPerHour };
+}
@@ -0,0 +1,107 @@
+/**
+ * Stable codes identifying each kind of {@link ResourceError}, for callers that need
+ * machine-readable failures instead of message text.
+ */
+export type ResourceErrorCode =
+  | 'ERR_RESOURCE_PARSE'
+  | 'ERR_RESOURCE_NEGATIVE'
+  | 'ERR_RESOURCE_OVERFLOW'
+  | 'ERR_RESOURCE_PRECISION'
+  | 'ERR_UNIT_MISMATCH'
+  | 'ERR_INVALID_ARGUMENT'
+  | 'ERR_INVALID_CONFIG'
+  | 'ERR_EXPRESSION';
+
+/**
+ * The base class of all errors thrown by the library for invalid resources and operations.
+ */
+export abstract class ResourceError extends Error {
+    /** The stable code of the error. */
+    abstract readonly code: ResourceErrorCode;
+
+    /**
+     * Creates a new resource error.
+     * @param message - The description of the problem
+     */
+    constructor(message: string) {
+      super(message);
+      this.name = new.target.name;
+    }
+}
+
+/**
+ * Thrown when a string is not a valid Kubernetes quantity.
+ */
+export class ResourceParseError extends ResourceError {
+    readonly code = 'ERR_RESOURCE_PARSE';
+
+    /**
+     * Creates a new parse error.
+     * @param message - The description of the problem
+     * @param input - The string that could not be parsed
+     * @param position - The zero-based position of the first character that could not be parsed
+     * @param hint - A description of the expected format
+     */
+    constructor(message: string, readonly input: string, readonly position: number, readonly hint: string) {
+      super(message);
+    }
+}
+
+/**
+ * Thrown when a resource value or the result of an operation would be negative.
+ */
+export class NegativeResourceError extends ResourceError {
+    readonly code = 'ERR_RESOURCE_NEGATIVE';
+}
+
+/**
+ * Thrown when a resource value would exceed 2^63-1 millicores or bytes.
+ */
+export class OverflowError extends ResourceError {
+    readonly code = 'ERR_RESOURCE_OVERFLOW';
+}
+
+/**
+ * Thrown when a value is finer than the resource can represent, such as fractions of a millicore.
+ */
+export class PrecisionError extends ResourceError {
+    readonly code = 'ERR_RESOURCE_PRECISION';
+}
+
+/**
+ * Thrown when resources of different kinds, such as CPU and memory, are combined.
+ */
+export class UnitMismatchError extends ResourceError {
+    readonly code = 'ERR_UNIT_MISMATCH';
+}
+
+/**
+ * Thrown when an argument such as a factor, divisor or granularity is invalid.
+ */
+export class InvalidArgumentError extends ResourceError {
+    readonly code = 'ERR_INVALID_ARGUMENT';
+}
+
+/**
+ * Thrown when a config such as a pricing model, or a manifest, is invalid.
+ */
+export class ConfigError extends ResourceError {
+    readonly code = 'ERR_INVALID_CONFIG';
+
+    /**
+     * Creates a new config error.
+     * @param message - The description of the problem
+     * @param cause - The error that made the config invalid, such as a YAML syntax error
+     */
+    constructor(message: string, readonly cause?: unknown) {
+      super(message);
+    }
+}
+
+/**
+ * The result of a non-throwing parse such as {@link CPUResource.tryParse}.
+ * @typeParam T - The parsed resource type
+ */
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: ResourceError };
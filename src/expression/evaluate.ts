@@ -0,0 +1,289 @@
+import { Fraction, floorDiv, formatFraction, toFraction } from '../resources/arithmetic';
+import { CPUResource } from '../resources/CPUResource';
+import { MemoryResource } from '../resources/MemoryResource';
+import { QuantityFormat, formatQuantity, parseQuantity } from '../resources/quantity';
+import { Expression, ExpressionError, parseExpression } from './parseExpression';
+
+/**
+ * Values that can be bound to the variable names of an expression. Numbers are ratios.
+ */
+export type ExpressionVariables = Record<string, number | CPUResource | MemoryResource>;
+
+/**
+ * The typed result of {@link evaluateExpression}.
+ */
+export type ExpressionResult =
+  | { type: 'cpu'; value: CPUResource }
+  | { type: 'memory'; value: MemoryResource }
+  | { type: 'ratio'; value: number };
+
+type ValueType = ExpressionResult['type'];
+
+/**
+ * An intermediate value: an exact amount of millicores, bytes or a plain ratio.
+ */
+interface Value {
+  type: ValueType;
+  amount: Fraction;
+  format: QuantityFormat;
+}
+
+/** Suffixes that make a literal a CPU quantity; binary suffixes make it a memory quantity. */
+const CPU_SUFFIXES = ['n', 'u', 'm'];
+
+const FUNCTIONS = ['max', 'min'];
+
+/**
+ * Reduces a fraction to lowest terms.
+ * @param numerator - The numerator
+ * @param denominator - The denominator, which may be negative
+ */
+function reduce(numerator: bigint, denominator: bigint): Fraction {
+  if (denominator < 0n) {
+    [numerator, denominator] = [-numerator, -denominator];
+  }
+  let [a, b] = [numerator < 0n ? -numerator : numerator, denominator];
+  while (b !== 0n) [a, b] = [b, a % b];
+  return a > 1n ? { numerator: numerator / a, denominator: denominator / a } : { numerator, denominator };
+}
+
+/**
+ * Compares two fractions.
+ * @returns A negative number, zero or a positive number as `a` is less than, equal to or greater than `b`
+ */
+function compare(a: Fraction, b: Fraction): number {
+  const difference = a.numerator * b.denominator - b.numerator * a.denominator;
+  return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+}
+
+/**
+ * Converts an exact fraction to the nearest JavaScript number.
+ * @param value - The fraction
+ */
+function toNumber({ numerator, denominator }: Fraction): number {
+  const magnitude = Number(formatFraction(numerator < 0n ? -numerator : numerator, denominator, 20));
+  return numerator < 0n ? -magnitude : magnitude;
+}
+
+/**
+ * Returns the name used for a value type in error messages.
+ * @param type - The value type
+ */
+function typeName(type: ValueType): string {
+  return type === 'cpu' ? 'CPU' : type;
+}
+
+/**
+ * Reads a ratio as cores or bytes so it can be combined with a resource.
+ * @param value - The value to convert
+ * @param type - The resource type
+ */
+function coerce(value: Value, type: ValueType): Value {
+  if (value.type !== 'ratio' || type === 'ratio') return value;
+  const scale = type === 'cpu' ? 1000n : 1n;
+  return { type, amount: reduce(value.amount.numerator * scale, value.amount.denominator), format: 'DecimalSI' };
+}
+
+/**
+ * Checks that an intermediate resource value is not negative, like the resource classes do.
+ * @param value - The value to check
+ * @param position - The position to report
+ */
+function checkNegative(value: Value, position: number): Value {
+  if (value.type !== 'ratio' && value.amount.numerator < 0n) {
+    throw new ExpressionError(`${value.type === 'cpu' ? 'CPU' : 'Memory'} resources cannot be negative`, position);
+  }
+  return value;
+}
+
+/**
+ * Evaluates a quantity literal.
+ * @param text - The literal text
+ * @param position - The position of the literal
+ */
+function literal(text: string, position: number): Value {
+  const parsed = parseQuantity(text);
+  if (!parsed.ok) {
+    throw new ExpressionError(`Invalid quantity "${text}"`, position);
+  }
+  const { digits, exponent, suffix, format } = parsed.quantity;
+  if (CPU_SUFFIXES.includes(suffix) || format === 'BinarySI') {
+    return resource(format === 'BinarySI' ? 'memory' : 'cpu', text, position);
+  }
+  // Other decimal suffixes and exponents scale a number, which takes its type from the context
+  return {
+    type: 'ratio',
+    amount: exponent >= 0
+      ? { numerator: digits * 10n ** BigInt(exponent), denominator: 1n }
+      : reduce(digits, 10n ** BigInt(-exponent)),
+    format,
+  };
+}
+
+/**
+ * Parses a resource literal with the resource classes, so it is validated exactly like they validate it.
+ * @param type - The resource type
+ * @param text - The literal text
+ * @param position - The position of the literal
+ */
+function resource(type: 'cpu' | 'memory', text: string, position: number): Value {
+  try {
+    return fromResource(type === 'cpu' ? new CPUResource(text) : new MemoryResource(text));
+  } catch (error) {
+    throw new ExpressionError((error as Error).message, position);
+  }
+}
+
+/**
+ * Converts a resource or number to an intermediate value.
+ * @param value - The resource or ratio
+ */
+function fromResource(value: number | CPUResource | MemoryResource): Value {
+  if (typeof value === 'number') {
+    const { numerator, denominator } = toFraction(value);
+    return { type: 'ratio', amount: reduce(numerator, denominator), format: 'DecimalSI' };
+  }
+  return {
+    type: value instanceof CPUResource ? 'cpu' : 'memory',
+    amount: { numerator: value.toBigInt(), denominator: 1n },
+    format: value.format,
+  };
+}
+
+/**
+ * Applies a binary operator.
+ * @param operator - The operator
+ * @param left - The left operand
+ * @param right - The right operand
+ * @param position - The position of the operator
+ */
+function binary(operator: '+' | '-' | '*' | '/', left: Value, right: Value, position: number): Value {
+  const { numerator: a, denominator: b } = left.amount;
+  const { numerator: c, denominator: d } = right.amount;
+
+  if (operator === '+' || operator === '-') {
+    const type = left.type === 'ratio' ? right.type : left.type;
+    if (right.type !== 'ratio' && right.type !== type) {
+      throw new ExpressionError(`Cannot ${operator === '+' ? 'add' : 'subtract'} ${typeName(right.type)} ${operator === '+' ? 'to' : 'from'} ${typeName(left.type)}`, position);
+    }
+    const x = coerce(left, type).amount;
+    const y = coerce(right, type).amount;
+    const cross = y.numerator * x.denominator;
+    const format = left.type === 'ratio' || x.numerator === 0n ? right.format : left.format;
+    return checkNegative({
+      type,
+      amount: reduce(x.numerator * y.denominator + (operator === '+' ? cross : -cross), x.denominator * y.denominator),
+      format,
+    }, position);
+  }
+
+  if (operator === '*') {
+    if (left.type !== 'ratio' && right.type !== 'ratio') {
+      throw new ExpressionError(`Cannot multiply ${typeName(left.type)} by ${typeName(right.type)}`, position);
+    }
+    const type = left.type === 'ratio' ? right.type : left.type;
+    return checkNegative({
+      type,
+      amount: reduce(a * c, b * d),
+      format: left.type === 'ratio' ? right.format : left.format,
+    }, position);
+  }
+
+  if (right.type !== 'ratio' && right.type !== left.type) {
+    throw new ExpressionError(`Cannot divide ${typeName(left.type)} by ${typeName(right.type)}`, position);
+  }
+  if (c === 0n) {
+    throw new ExpressionError("Division by zero", position);
+  }
+  // Dividing two resources of the same type gives a ratio
+  const type = right.type === 'ratio' ? left.type : 'ratio';
+  return checkNegative({ type, amount: reduce(a * d, b * c), format: left.format }, position);
+}
+
+/**
+ * Evaluates a node of a syntax tree.
+ * @param node - The node
+ * @param variables - The variable values
+ */
+function evaluateNode(node: Expression, variables: ExpressionVariables): Value {
+  switch (node.kind) {
+    case 'literal':
+      return literal(node.text, node.position);
+    case 'variable':
+      if (!Object.prototype.hasOwnProperty.call(variables, node.name)) {
+        throw new ExpressionError(`Unknown variable "${node.name}"`, node.position);
+      }
+      if (typeof variables[node.name] === 'number' && !Number.isFinite(variables[node.name])) {
+        throw new ExpressionError(`Variable "${node.name}" must be a finite number`, node.position);
+      }
+      return fromResource(variables[node.name]);
+    case 'negate': {
+      const operand = evaluateNode(node.operand, variables);
+      if (operand.type !== 'ratio') {
+        throw new ExpressionError(`${operand.type === 'cpu' ? 'CPU' : 'Memory'} resources cannot be negative`, node.position);
+      }
+      return { ...operand, amount: { numerator: -operand.amount.numerator, denominator: operand.amount.denominator } };
+    }
+    case 'binary':
+      return binary(node.operator, evaluateNode(node.left, variables), evaluateNode(node.right, variables), node.position);
+    case 'call': {
+      if (!FUNCTIONS.includes(node.name)) {
+        throw new ExpressionError(`Unknown function "${node.name}"`, node.position);
+      }
+      if (node.args.length === 0) {
+        throw new ExpressionError(`${node.name}() requires at least one argument`, node.position);
+      }
+      const args = node.args.map(arg => evaluateNode(arg, variables));
+      const type = args.find(arg => arg.type !== 'ratio')?.type ?? 'ratio';
+      const mismatch = args.findIndex(arg => arg.type !== 'ratio' && arg.type !== type);
+      if (mismatch >= 0) {
+        throw new ExpressionError(`Cannot compare ${typeName(args[mismatch].type)} with ${typeName(type)}`, node.args[mismatch].position);
+      }
+      const sign = node.name === 'max' ? 1 : -1;
+      return args
+        .map(arg => coerce(arg, type))
+        .reduce((best, arg) => compare(arg.amount, best.amount) * sign > 0 ? arg : best);
+    }
+  }
+}
+
+/**
+ * Evaluates an arithmetic expression over resource quantities, such as `"(2Gi - 256Mi) * 3"`,
+ * `"max(500m, 0.3) + 100m"` or `"4Gi / 512Mi"`.
+ *
+ * The expression is typed: literals with the suffixes n, u or m are CPU, literals with binary suffixes
+ * such as Ki or Gi are memory, and other numbers, including `2k` or `1e9`, are ratios. Ratios combined with a resource by `+`, `-`, `max` or `min`
+ * are read as cores or bytes, resources can be multiplied and divided by ratios, and dividing two
+ * resources of the same type gives a ratio. CPU and memory cannot be mixed, just as
+ * {@link CPUResource} and {@link MemoryResource} cannot be combined.
+ *
+ * Intermediate results are exact. Resource results are rounded down to whole millicores or bytes,
+ * and serialized in the format of the leftmost resource they were computed from.
+ *
+ * @example
+ * ```typescript
+ * evaluateExpression('512Mi + 64Mi * partitions', { partitions: 4 });  // { type: 'memory', value: 768Mi }
+ * evaluateExpression('max(500m, 0.3) + 100m');                        // { type: 'cpu', value: 600m }
+ * evaluateExpression('4Gi / 512Mi');                                  // { type: 'ratio', value: 8 }
+ * ```
+ * @param expression - The expression text, or an expression parsed with {@link parseExpression}
+ * @param variables - The values of the variable names used in the expression
+ * @returns The typed result
+ * @throws {ExpressionError} If the expression is malformed, mixes CPU and memory, or a resource would be
+ * negative, with the character position of the problem
+ */
+export function evaluateExpression(expression: string | Expression, variables: ExpressionVariables = {}): ExpressionResult {
+  const tree = typeof expression === 'string' ? parseExpression(expression) : expression;
+  const { type, amount, format } = evaluateNode(tree, variables);
+  if (type === 'ratio') {
+    return { type, value: toNumber(amount) };
+  }
+  const whole = floorDiv(amount.numerator, amount.denominator);
+  try {
+    return type === 'cpu'
+      ? { type, value: new CPUResource(formatQuantity(whole, -3, format)) }
+      : { type, value: new MemoryResource(formatQuantity(whole, 0, format)) };
+  } catch (error) {
+    throw new ExpressionError((error as Error).message, tree.position);
+  }
+}
@@ -0,0 +1,221 @@
+import { ResourceError } from '../errors';
+
+/**
+ * An error in a resource expression, with the position of the offending character.
+ */
+export class ExpressionError extends ResourceError {
+    readonly code = 'ERR_EXPRESSION';
+
+    /**
+     * Creates a new expression error.
+     * @param message - The description of the problem, without the position
+     * @param position - The zero-based character position in the expression
+     */
+    constructor(message: string, readonly position: number) {
+      super(`${message} at position ${position}`);
+    }
+}
+
+/**
+ * A node of a parsed resource expression. Every node records the character position it was
+ * parsed at, which is the position reported by evaluation errors.
+ */
+export type Expression =
+  | { kind: 'literal'; text: string; position: number }
+  | { kind: 'variable'; name: string; position: number }
+  | { kind: 'negate'; operand: Expression; position: number }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/'; left: Expression; right: Expression; position: number }
+  | { kind: 'call'; name: string; args: Expression[]; position: number };
+
+interface Token {
+  kind: 'literal' | 'name' | 'operator';
+  text: string;
+  position: number;
+}
+
+const TOKEN_PATTERNS: [Token['kind'], RegExp][] = [
+  ['literal', /(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?[a-zA-Z]*/y],
+  ['name', /[a-zA-Z_][a-zA-Z0-9_]*/y],
+  ['operator', /[-+*/(),]/y],
+];
+
+/**
+ * Splits an expression into literals, names and operators.
+ * @param text - The expression text
+ * @throws {ExpressionError} If the expression contains an unexpected character
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < text.length) {
+    if (/\s/.test(text[position])) {
+      position++;
+      continue;
+    }
+    const match = TOKEN_PATTERNS
+      .map(([kind, pattern]) => {
+        pattern.lastIndex = position;
+        return [kind, pattern.exec(text)?.[0]] as const;
+      })
+      .find(([, matched]) => matched !== undefined);
+    if (!match) {
+      throw new ExpressionError(`Unexpected "${text[position]}"`, position);
+    }
+    const [kind, matched] = match;
+    tokens.push({ kind, text: matched as string, position });
+    position += (matched as string).length;
+  }
+  return tokens;
+}
+
+/**
+ * A recursive descent parser for resource expressions.
+ */
+class Parser {
+    /** The index of the next token. */
+    private index = 0;
+
+    /**
+     * Creates a parser for the tokens of an expression.
+     * @param tokens - The tokens
+     * @param length - The length of the expression, the position of an unexpected end
+     */
+    constructor(private tokens: Token[], private length: number) {}
+
+    /**
+     * Parses the tokens as one expression.
+     * @returns The syntax tree
+     * @throws {ExpressionError} If the tokens are not a complete expression
+     */
+    parse(): Expression {
+      const expression = this.sum();
+      if (this.index < this.tokens.length) {
+        this.fail();
+      }
+      return expression;
+    }
+
+    /**
+     * Parses a sum or difference of products.
+     * @returns The syntax tree of the sum
+     */
+    private sum(): Expression {
+      let left = this.product();
+      while (this.peek('+') || this.peek('-')) {
+        const { text, position } = this.tokens[this.index++];
+        left = { kind: 'binary', operator: text as '+' | '-', left, right: this.product(), position };
+      }
+      return left;
+    }
+
+    /**
+     * Parses a product or quotient of unary expressions.
+     * @returns The syntax tree of the product
+     */
+    private product(): Expression {
+      let left = this.unary();
+      while (this.peek('*') || this.peek('/')) {
+        const { text, position } = this.tokens[this.index++];
+        left = { kind: 'binary', operator: text as '*' | '/', left, right: this.unary(), position };
+      }
+      return left;
+    }
+
+    /**
+     * Parses an operand with optional signs.
+     * @returns The syntax tree of the operand
+     */
+    private unary(): Expression {
+      if (this.peek('-') || this.peek('+')) {
+        const { text, position } = this.tokens[this.index++];
+        const operand = this.unary();
+        return text === '-' ? { kind: 'negate', operand, position } : operand;
+      }
+      return this.operand();
+    }
+
+    /**
+     * Parses a literal, variable, function call or parenthesized expression.
+     * @returns The syntax tree of the operand
+     */
+    private operand(): Expression {
+      const token = this.tokens[this.index];
+      if (token?.kind === 'literal') {
+        this.index++;
+        return { kind: 'literal', text: token.text, position: token.position };
+      }
+      if (token?.kind === 'name') {
+        this.index++;
+        if (!this.peek('(')) {
+          return { kind: 'variable', name: token.text, position: token.position };
+        }
+        this.index++;
+        const args: Expression[] = [];
+        if (!this.peek(')')) {
+          args.push(this.sum());
+          while (this.peek(',')) {
+            this.index++;
+            args.push(this.sum());
+          }
+        }
+        this.expect(')');
+        return { kind: 'call', name: token.text, args, position: token.position };
+      }
+      if (this.peek('(')) {
+        this.index++;
+        const expression = this.sum();
+        this.expect(')');
+        return expression;
+      }
+      return this.fail();
+    }
+
+    /**
+     * Checks if the next token is an operator.
+     * @param text - The operator
+     * @returns true if the next token is the operator
+     */
+    private peek(text: string): boolean {
+      const token = this.tokens[this.index];
+      return token?.kind === 'operator' && token.text === text;
+    }
+
+    /**
+     * Consumes an operator, which must be next.
+     * @param text - The operator
+     * @throws {ExpressionError} If the next token is not the operator
+     */
+    private expect(text: string): void {
+      if (!this.peek(text)) {
+        this.fail();
+      }
+      this.index++;
+    }
+
+    /**
+     * Reports the next token, or the end of the expression, as unexpected.
+     * @throws {ExpressionError} Always
+     */
+    private fail(): never {
+      const token = this.tokens[this.index];
+      if (!token) {
+        throw new ExpressionError("Unexpected end of expression", this.length);
+      }
+      throw new ExpressionError(`Unexpected "${token.text}"`, token.position);
+    }
+}
+
+/**
+ * Parses a resource expression without evaluating it, e.g. to check a formula once and evaluate it
+ * with different variables later.
+ *
+ * Expressions consist of quantity literals (`250m`, `2Gi`, `1.5`), variable names, the operators
+ * `+`, `-`, `*` and `/`, parentheses and the functions `max(...)` and `min(...)`.
+ *
+ * @param text - The expression, e.g. `"512Mi + 64Mi * partitions"`
+ * @returns The syntax tree
+ * @throws {ExpressionError} If the expression is malformed
+ */
+export function parseExpression(text: string): Expression {
+  return new Parser(tokenize(text), text.length).parse();
+}
@@ -1,2 +1,81 @@
 export { CPUResource } from './resources/CPUResource';
-export { MemoryResource } from './resources/MemoryResource'; 
\ No newline at end of file
+export { MemoryResource } from './resources/MemoryResource';
+export { CPUUsage } from './resources/CPUUsage';
+export { ScalarResource } from './resources/ScalarResource';
+export { defineResourceKind, getResourceKind } from './resources/units';
+export type { ResourceKind, ResourceKindDefinition } from './resources/units';
+export { EphemeralStorageResource } from './resources/EphemeralStorageResource';
+export { HugePagesResource } from './resources/HugePagesResource';
+export { ExtendedResource } from './resources/ExtendedResource';
+export { CountResource } from './resources/CountResource';
+export { ResourceList } from './resources/ResourceList';
+export { ResourceDelta } from './resources/ResourceDelta';
+export {
+  ResourceError, ResourceParseError, NegativeResourceError, OverflowError, PrecisionError, UnitMismatchError,
+  InvalidArgumentError, ConfigError,
+} from './errors';
+export type { ResourceErrorCode, ParseResult } from './errors';
+export type { ResourceQuantity } from './resources/ResourceList';
+export type { QuantityFormat } from './resources/quantity';
+export type { RoundingMode, RoundingOptions } from './resources/arithmetic';
+export { podRequests, podLimits, containerRequests, containerLimits, isSidecar } from './pod/podResources';
+export type { PodResourcesOptions } from './pod/podResources';
+export { validateContainerResources, isOvercommitAllowed } from './pod/validateResources';
+export type { PodSpec, Container, ResourceRequirements, ResourceMap } from './pod/types';
+export { podQOSClass } from './pod/qosClass';
+export type { QOSClass, QOSReason, QOSResult } from './pod/qosClass';
+export { evaluateQuota, podQuotaUsage } from './admission/resourceQuota';
+export type {
+  QuotaEvaluation, QuotaOptions, QuotaScope, ResourceQuota, ResourceQuotaSpec, ScopedResourceSelectorRequirement,
+} from './admission/resourceQuota';
+export { applyLimitRange } from './admission/limitRange';
+export type { LimitRange, LimitRangeItem, LimitRangeOptions, LimitRangeResult } from './admission/limitRange';
+export { nodeAllocatable, fits } from './scheduling/node';
+export type { FitResult, InsufficientResource, NodeResources } from './scheduling/node';
+export { planCapacity } from './scheduling/capacityPlan';
+export {
+  leastAllocatedScore, mostAllocatedScore, requestedToCapacityRatioScore, balancedAllocationScore,
+} from './scheduling/scoring';
+export type { ScoredResource, UtilizationShapePoint } from './scheduling/scoring';
+export type {
+  CapacityPlanOptions, NodeFill, NodePlan, NodeType, PackingStrategy, PlannedWorkload,
+} from './scheduling/capacityPlan';
+export {
+  toCPUShares, fromCPUShares, sharesToWeight, weightToShares, toCPUWeight, fromCPUWeight,
+  toCFSQuota, fromCFSQuota, toCPUMax, fromCPUMax, MIN_SHARES, MAX_SHARES, CFS_PERIOD_US,
+} from './cgroups/cpu';
+export {
+  toMemoryLimitInBytes, fromMemoryLimitInBytes, toMemoryMax, fromMemoryMax, toMemoryMin, toMemoryHigh,
+  UNLIMITED_MEMORY_V1, DEFAULT_MEMORY_THROTTLING_FACTOR,
+} from './cgroups/memory';
+export type { MemoryQoSOptions } from './cgroups/memory';
+export { recommendRequests } from './recommendation/recommender';
+export type {
+  OOMEvent, Recommendation, RecommenderOptions, ResourceEstimate, UsageHistory, UsageSample,
+} from './recommendation/recommender';
+export { loadPricing, parsePricing, pricesFor } from './cost/pricing';
+export type { CapacityType, PriceContext, PriceRate, Prices, Pricing } from './cost/pricing';
+export { idleCost, namespaceCosts, resourceCost, workloadCost } from './cost/cost';
+export type {
+  ComputeResources, Cost, CostedWorkload, NamespaceCostOptions, WorkloadCost, WorkloadCostOptions,
+} from './cost/cost';
+export { parseManifests } from './manifests/parseManifests';
+export type { KubernetesObject, Manifest } from './manifests/parseManifests';
+export { loadManifests } from './manifests/loadManifests';
+export { readWorkload } from './manifests/workloads';
+export type { Workload, WorkloadKind, WorkloadOptions } from './manifests/workloads';
+export { scanManifests } from './manifests/scanManifests';
+export type { ResourceTotals, ScanResult, WorkloadResources } from './manifests/scanManifests';
+export { describeDeltas, diffManifests, formatDiffMarkdown } from './manifests/diffManifests';
+export type { DeltaTotals, ManifestDiff, WorkloadChange, WorkloadDiff } from './manifests/diffManifests';
+export { lintManifests } from './lint/lintManifests';
+export type { Finding } from './lint/lintManifests';
+export { DEFAULT_LINT_CONFIG, loadLintConfig, parseLintConfig } from './lint/config';
+export type { LintConfig, RuleOptions, RuleSetting, Severity } from './lint/config';
+export type { RuleId } from './lint/rules';
+export { toSarif } from './lint/sarif';
+export type { SarifLog, SarifResult } from './lint/sarif';
+export { parseExpression, ExpressionError } from './expression/parseExpression';
+export type { Expression } from './expression/parseExpression';
+export { evaluateExpression } from './expression/evaluate';
+export type { ExpressionResult, ExpressionVariables } from './expression/evaluate';
@@ -0,0 +1,216 @@
+import { readFileSync } from 'fs';
+import { parse } from 'yaml';
+import { parseRatio } from '../admission/limitRange';
+import { ConfigError } from '../errors';
+import { ResourceMap } from '../pod/types';
+import { ResourceList } from '../resources/ResourceList';
+import { RULES, RuleId, RuleSettings } from './rules';
+
+/**
+ * How serious a finding is. These are the SARIF result levels.
+ */
+export type Severity = 'error' | 'warning' | 'note';
+
+/**
+ * The options of a rule in a lint config.
+ */
+export interface RuleOptions {
+  /** The severity of the rule's findings. Defaults to `warning`. */
+  severity?: Severity;
+  /** Only check workloads in these namespaces. `*` matches any characters, e.g. `prod-*`. */
+  namespaces?: string[];
+  /** The resources to check, for `require-requests`, `require-limits` and `request-equals-limit`. */
+  resources?: string[];
+  /**
+   * The maximum of each resource as a quantity, for `max-requests` and `max-limits`, or the
+   * maximum limit to request ratio of each resource, for `max-limit-request-ratio`.
+   */
+  max?: ResourceMap;
+}
+
+/**
+ * How a rule is configured: turned off, turned on with a severity, or with options.
+ */
+export type RuleSetting = 'off' | Severity | RuleOptions;
+
+/**
+ * A lint config, as read by {@link parseLintConfig}. Rules that are not listed are off.
+ */
+export interface LintConfig {
+  rules: Partial<Record<RuleId, RuleSetting>>;
+}
+
+/**
+ * A rule that is turned on, with its options read from the config.
+ */
+export interface ConfiguredRule extends RuleSettings {
+  id: RuleId;
+  severity: Severity;
+  /** Matches the namespaces the rule applies to, if it is limited to some. */
+  namespaces?: RegExp;
+}
+
+/**
+ * The config used when none is given: every container requests CPU and memory and has a memory
+ * limit, and no pod is BestEffort.
+ */
+export const DEFAULT_LINT_CONFIG: LintConfig = {
+  rules: {
+    'require-requests': 'warning',
+    'require-limits': 'warning',
+    'no-best-effort': 'warning',
+  },
+};
+
+const SEVERITIES: Severity[] = ['error', 'warning', 'note'];
+
+/**
+ * Checks that a value of a lint config is a list of strings.
+ * @param value - The value
+ * @param path - The path of the value in the config, for error messages
+ * @throws {ConfigError} If the value is not a list of strings
+ */
+function checkStrings(value: unknown, path: string): string[] {
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    throw new ConfigError(`${path} must be a list of strings`);
+  }
+  return value;
+}
+
+/**
+ * Converts namespace patterns to one regular expression.
+ * @param patterns - The patterns, where `*` matches any characters
+ */
+function namespacePattern(patterns: string[]): RegExp {
+  const alternatives = patterns.map(pattern =>
+    pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*'));
+  return new RegExp(`^(?:${alternatives.join('|')})$`);
+}
+
+/**
+ * Reads the setting of one rule.
+ * @param id - The rule ID
+ * @param setting - The setting
+ * @returns The configured rule, or undefined if it is off
+ * @throws {ConfigError} If the setting is not valid for the rule
+ */
+function configureRule(id: RuleId, setting: unknown): ConfiguredRule | undefined {
+  if (setting === 'off') return undefined;
+  const path = `rules.${id}`;
+  const options = (SEVERITIES.includes(setting as Severity) ? { severity: setting } : setting) as Record<string, unknown>;
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    throw new ConfigError(`${path} must be "off", a severity or an object`);
+  }
+
+  const rule = RULES[id];
+  const unknown = Object.keys(options).find(key => !['severity', 'namespaces', ...rule.options].includes(key));
+  if (unknown) {
+    throw new ConfigError(`${path} has an unknown option "${unknown}"`);
+  }
+  const severity = options.severity ?? 'warning';
+  if (!SEVERITIES.includes(severity as Severity)) {
+    throw new ConfigError(`${path}.severity must be one of ${SEVERITIES.join(', ')}, got ${JSON.stringify(severity)}`);
+  }
+
+  const configured: ConfiguredRule = {
+    id,
+    severity: severity as Severity,
+    resources: options.resources === undefined ? rule.defaultResources ?? [] : checkStrings(options.resources, `${path}.resources`),
+    max: new ResourceList(),
+    ratios: {},
+  };
+  if (options.namespaces !== undefined) {
+    configured.namespaces = namespacePattern(checkStrings(options.namespaces, `${path}.namespaces`));
+  }
+  if (rule.options.includes('max')) {
+    const max = options.max;
+    if (typeof max !== 'object' || max === null || Array.isArray(max) || Object.keys(max).length === 0) {
+      throw new ConfigError(`${path}.max must map resource names to quantities`);
+    }
+    const quantities = Object.entries(max).map(([name, value]) => [name, String(value)]);
+    try {
+      if (id === 'max-limit-request-ratio') {
+        configured.ratios = Object.fromEntries(quantities.map(([name, value]) => [name, parseRatio(value)]));
+      } else {
+        configured.max = new ResourceList(Object.fromEntries(quantities));
+      }
+    } catch (error) {
+      throw new ConfigError(`${path}.max: ${(error as Error).message}`, error);
+    }
+  }
+  return configured;
+}
+
+/**
+ * Reads the rules that are turned on in a lint config.
+ * @param config - The config
+ * @returns The rules with their options, in the order they are configured
+ * @throws {ConfigError} If the config is not valid
+ */
+export function configureRules(config: LintConfig): ConfiguredRule[] {
+  try {
+    if (typeof config !== 'object' || config === null || typeof config.rules !== 'object' || config.rules === null || Array.isArray(config.rules)) {
+      throw new ConfigError("expected an object with rules");
+    }
+    return Object.entries(config.rules).flatMap(([id, setting]) => {
+      if (!Object.prototype.hasOwnProperty.call(RULES, id)) {
+        throw new ConfigError(`Unknown rule "${id}". Must be one of: ${Object.keys(RULES).join(', ')}`);
+      }
+      const rule = configureRule(id as RuleId, setting);
+      return rule ? [rule] : [];
+    });
+  } catch (error) {
+    const cause = error instanceof ConfigError ? error.cause : error;
+    throw new ConfigError(`Invalid lint config: ${(error as Error).message}`, cause);
+  }
+}
+
+/**
+ * Parses a lint config from YAML or JSON. Resource thresholds are written as quantities and ratios
+ * as numbers:
+ *
+ * ```yaml
+ * rules:
+ *   require-limits: error
+ *   request-equals-limit:
+ *     severity: warning
+ *     resources: [memory]
+ *   max-requests:
+ *     max: { cpu: '4', memory: 16Gi }
+ *   max-limit-request-ratio:
+ *     max: { cpu: 2 }
+ *   no-best-effort:
+ *     severity: error
+ *     namespaces: [prod, 'prod-*']
+ * ```
+ * @param text - The YAML or JSON text
+ * @param source - The file name or other source of the text, used in error messages
+ * @returns The lint config
+ * @throws {ConfigError} If the text is not valid YAML or not a valid lint config
+ */
+export function parseLintConfig(text: string, source?: string): LintConfig {
+  const prefix = source ? `${source}: ` : '';
+  let config: LintConfig;
+  try {
+    config = parse(text) as LintConfig;
+  } catch (error) {
+    throw new ConfigError(`${prefix}Invalid lint config: ${(error as Error).message}`, error);
+  }
+  try {
+    configureRules(config);
+  } catch (error) {
+    throw new ConfigError(`${prefix}${(error as Error).message}`, (error as ConfigError).cause);
+  }
+  return config;
+}
+
+/**
+ * Reads a lint config from a YAML or JSON file.
+ * @param path - The file
+ * @returns The lint config
+ * @throws {ConfigError} If the file is not a valid lint config
+ * @throws {Error} If the file cannot be read
+ */
+export function loadLintConfig(path: string): LintConfig {
+  return parseLintConfig(readFileSync(path, 'utf8'), path);
+}
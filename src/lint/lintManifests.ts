@@ -0,0 +1,88 @@
+import { Manifest } from '../manifests/parseManifests';
+import { WorkloadKind, WorkloadOptions, podSpecPath, readWorkload } from '../manifests/workloads';
+import { DEFAULT_LINT_CONFIG, LintConfig, Severity, configureRules } from './config';
+import { RULES, RuleId } from './rules';
+
+/**
+ * A rule violation found by {@link lintManifests}.
+ */
+export interface Finding {
+  ruleId: RuleId;
+  severity: Severity;
+  message: string;
+  /** The file of the workload, if it was read from one. */
+  source?: string;
+  /** The 1-based line of the offending field, or of its closest parent in the source. */
+  line: number;
+  kind: WorkloadKind;
+  name: string;
+  namespace: string;
+  /** The container the finding is in, if it is specific to one container. */
+  container?: string;
+}
+
+/**
+ * Checks the workloads in a set of manifests against resource policy rules, such as "every
+ * container sets a memory limit" or "no container requests more than 4 CPUs".
+ *
+ * Quantities are compared by value, so `1Gi` and `1024Mi` are equal and `1G` is less than `1Gi`.
+ * Requests are read after API server defaulting: a resource that only has a limit is requested at
+ * that limit. The rules check containers and init containers, and workloads are read as by
+ * {@link scanManifests}.
+ *
+ * @example
+ * ```typescript
+ * const findings = lintManifests(loadManifests(['./manifests']), {
+ *   rules: { 'require-limits': 'error', 'max-requests': { max: { cpu: '4' } } },
+ * });
+ * findings[0];
+ * // { ruleId: 'require-limits', severity: 'error', message: 'Container "app" does not set a memory limit',
+ * //   source: 'manifests/web.yaml', line: 21, kind: 'Deployment', name: 'web', namespace: 'default', container: 'app' }
+ * toSarif(findings);  // for code scanning
+ * ```
+ * @param manifests - The parsed manifests
+ * @param config - The rules to check. Defaults to {@link DEFAULT_LINT_CONFIG}.
+ * @param options - Options for reading workloads
+ * @returns The findings, in the order of the manifests and by line within a manifest
+ * @throws {ConfigError} If the config is not valid
+ * @throws {ResourceError} If a workload has invalid resources; the message starts with its location
+ */
+export function lintManifests(manifests: Manifest[], config: LintConfig = DEFAULT_LINT_CONFIG, options: WorkloadOptions = {}): Finding[] {
+  const rules = configureRules(config);
+  const findings: Finding[] = [];
+  for (const { object, source, line, lineOf } of manifests) {
+    try {
+      const workload = readWorkload(object, options);
+      if (!workload) {
+        continue;
+      }
+      const specPath = podSpecPath(workload.kind);
+      const found: Finding[] = [];
+      for (const rule of rules) {
+        if (rule.namespaces && !rule.namespaces.test(workload.namespace)) {
+          continue;
+        }
+        for (const violation of RULES[rule.id].check(workload, rule)) {
+          found.push({
+            ruleId: rule.id,
+            severity: rule.severity,
+            message: violation.message,
+            source,
+            line: lineOf ? lineOf([...specPath, ...violation.path]) : line,
+            kind: workload.kind,
+            name: workload.name,
+            namespace: workload.namespace,
+            ...(violation.container !== undefined && { container: violation.container }),
+          });
+        }
+      }
+      findings.push(...found.sort((a, b) => a.line - b.line));
+    } catch (error) {
+      // Keep the error's class and details, such as the position of a parse error
+      const location = source ? `${source}:${line}: ` : `line ${line}: `;
+      (error as Error).message = `${location}${(error as Error).message}`;
+      throw error;
+    }
+  }
+  return findings;
+}
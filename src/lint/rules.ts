@@ -0,0 +1,186 @@
+import { Workload } from '../manifests/workloads';
+import { containerLimits, containerRequests } from '../pod/podResources';
+import { podQOSClass } from '../pod/qosClass';
+import { Container } from '../pod/types';
+import { ResourceList } from '../resources/ResourceList';
+import { ScalarResource } from '../resources/ScalarResource';
+
+/**
+ * The rules the linter knows.
+ */
+export type RuleId =
+  | 'require-requests'
+  | 'require-limits'
+  | 'request-equals-limit'
+  | 'max-requests'
+  | 'max-limits'
+  | 'max-limit-request-ratio'
+  | 'no-best-effort';
+
+/**
+ * The options of a rule after they are read from the config.
+ */
+export interface RuleSettings {
+  /** The resources to check, for rules that take a list of resources. */
+  resources: string[];
+  /** The maximum of each resource, for `max-requests` and `max-limits`. */
+  max: ResourceList;
+  /** The maximum limit to request ratio of each resource in thousandths, and its canonical form. */
+  ratios: Record<string, { milli: bigint; display: string }>;
+}
+
+/**
+ * A rule violation found in a workload.
+ */
+export interface Violation {
+  message: string;
+  /** The container the violation is in, if it is specific to one container. */
+  container?: string;
+  /** The path of the offending field, relative to the pod spec, for finding its line. */
+  path: (string | number)[];
+}
+
+/**
+ * A lint rule.
+ */
+export interface Rule {
+  /** What the rule checks, for reports. */
+  description: string;
+  /** The options the rule takes besides `severity` and `namespaces`. */
+  options: ('resources' | 'max')[];
+  /** The resources the rule checks if the config does not list any. */
+  defaultResources?: string[];
+  /**
+   * Checks a workload.
+   * @param workload - The workload
+   * @param settings - The options of the rule
+   * @returns The violations
+   */
+  check(workload: Workload, settings: RuleSettings): Violation[];
+}
+
+/**
+ * A container of a pod with its requirements, as checked by the per-container rules.
+ */
+interface CheckedContainer {
+  name: string;
+  path: (string | number)[];
+  requests: ResourceList;
+  limits: ResourceList;
+}
+
+/**
+ * Returns the containers and init containers of a workload with their effective requests and
+ * limits.
+ * @param workload - The workload
+ */
+function containersOf(workload: Workload): CheckedContainer[] {
+  const read = (field: 'containers' | 'initContainers') => (container: Container, index: number) => ({
+    name: container.name ?? `${field}[${index}]`,
+    path: [field, index],
+    requests: containerRequests(container),
+    limits: containerLimits(container),
+  });
+  return [
+    ...workload.podSpec.containers.map(read('containers')),
+    ...(workload.podSpec.initContainers ?? []).map(read('initContainers')),
+  ];
+}
+
+/**
+ * Builds a rule that checks each container of a workload.
+ * @param rule - The rule, with a check of one container in place of a workload check
+ */
+function containerRule(
+  rule: Omit<Rule, 'check'> & { check(container: CheckedContainer, settings: RuleSettings): Omit<Violation, 'container'>[] },
+): Rule {
+  return {
+    ...rule,
+    check: (workload, settings) => containersOf(workload).flatMap(container =>
+      rule.check(container, settings).map(violation => ({
+        message: violation.message,
+        container: container.name,
+        path: [...container.path, ...violation.path],
+      }))),
+  };
+}
+
+/**
+ * Builds a rule that checks the requests or limits of each container against a maximum.
+ * @param field - Whether requests or limits are checked
+ */
+function maxRule(field: 'requests' | 'limits'): Rule {
+  const verb = field === 'requests' ? 'requests' : 'is limited to';
+  return containerRule({
+    description: `Container ${field} must not exceed a maximum`,
+    options: ['max'],
+    check: (container, { max }) => max.names().flatMap(name => {
+      const value: ScalarResource | undefined = container[field].get(name);
+      const maximum = max.get(name)!;
+      return value && value.isGreaterThan(maximum)
+        ? [{ message: `Container "${container.name}" ${verb} ${value} ${name}, above the maximum of ${maximum}`, path: ['resources', field, name] }]
+        : [];
+    }),
+  });
+}
+
+/**
+ * The rules, by ID.
+ */
+export const RULES: Record<RuleId, Rule> = {
+  'require-requests': containerRule({
+    description: 'Containers must request the listed resources',
+    options: ['resources'],
+    defaultResources: ['cpu', 'memory'],
+    check: (container, { resources }) => resources
+      .filter(name => !container.requests.has(name))
+      .map(name => ({ message: `Container "${container.name}" does not set a ${name} request`, path: ['resources', 'requests'] })),
+  }),
+  'require-limits': containerRule({
+    description: 'Containers must set limits on the listed resources',
+    options: ['resources'],
+    defaultResources: ['memory'],
+    check: (container, { resources }) => resources
+      .filter(name => !container.limits.has(name))
+      .map(name => ({ message: `Container "${container.name}" does not set a ${name} limit`, path: ['resources', 'limits'] })),
+  }),
+  'request-equals-limit': containerRule({
+    description: 'Container requests must equal the limits of the listed resources',
+    options: ['resources'],
+    defaultResources: ['memory'],
+    check: (container, { resources }) => resources.flatMap(name => {
+      const request: ScalarResource | undefined = container.requests.get(name);
+      const limit: ScalarResource | undefined = container.limits.get(name);
+      if (!limit || (request && request.equals(limit))) return [];
+      return [{
+        message: `Container "${container.name}" requests ${request ?? 0} ${name} but is limited to ${limit}`,
+        path: ['resources', 'requests', name],
+      }];
+    }),
+  }),
+  'max-requests': maxRule('requests'),
+  'max-limits': maxRule('limits'),
+  'max-limit-request-ratio': containerRule({
+    description: 'Container limits must not exceed a multiple of the requests',
+    options: ['max'],
+    check: (container, { ratios }) => Object.entries(ratios).flatMap(([name, { milli, display }]) => {
+      const request: ScalarResource | undefined = container.requests.get(name);
+      const limit: ScalarResource | undefined = container.limits.get(name);
+      if (!request || !limit || request.toBigInt() === 0n) return [];
+      // Compare exactly in thousandths, rather than in floating point like the API server
+      if (limit.toBigInt() * 1000n <= milli * request.toBigInt()) return [];
+      const ratio = Number(limit.ratioTo(request).toFixed(3));
+      return [{
+        message: `Container "${container.name}" has a ${name} limit to request ratio of ${ratio}, above the maximum of ${display}`,
+        path: ['resources', 'limits', name],
+      }];
+    }),
+  }),
+  'no-best-effort': {
+    description: 'Pods must not have the BestEffort QoS class',
+    options: [],
+    check: workload => podQOSClass(workload.podSpec).qosClass === 'BestEffort'
+      ? [{ message: `${workload.kind} "${workload.name}" has the BestEffort QoS class: no container sets a CPU or memory request or limit`, path: [] }]
+      : [],
+  },
+};
@@ -0,0 +1,83 @@
+import { Finding } from './lintManifests';
+import { RULES } from './rules';
+
+/**
+ * A SARIF 2.1.0 log, with the properties {@link toSarif} sets.
+ */
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: {
+    tool: {
+      driver: {
+        name: string;
+        informationUri: string;
+        rules: { id: string; shortDescription: { text: string } }[];
+      };
+    };
+    results: SarifResult[];
+  }[];
+}
+
+/**
+ * A result of a SARIF log.
+ */
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: Finding['severity'];
+  message: { text: string };
+  locations: {
+    physicalLocation?: { artifactLocation: { uri: string }; region: { startLine: number } };
+    logicalLocations: { fullyQualifiedName: string; kind: string }[];
+  }[];
+}
+
+/**
+ * Converts findings to a SARIF 2.1.0 log, the format code scanning tools such as GitHub code
+ * scanning read. Files are referenced by their paths as given, with forward slashes.
+ *
+ * @example
+ * ```typescript
+ * const sarif = toSarif(lintManifests(loadManifests(['./manifests']), loadLintConfig('./lint.yaml')));
+ * writeFileSync('results.sarif', JSON.stringify(sarif, null, 2));
+ * ```
+ * @param findings - The findings of {@link lintManifests}
+ * @returns The SARIF log, with one run that lists the rules of the findings
+ */
+export function toSarif(findings: Finding[]): SarifLog {
+  const ruleIds = [...new Set(findings.map(finding => finding.ruleId))].sort();
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'k8s-resources',
+          informationUri: 'https://github.com/kotaicode/k8s-resources-ts',
+          rules: ruleIds.map(id => ({ id, shortDescription: { text: RULES[id].description } })),
+        },
+      },
+      results: findings.map(finding => {
+        const workload = `${finding.namespace}/${finding.kind}/${finding.name}`;
+        return {
+          ruleId: finding.ruleId,
+          ruleIndex: ruleIds.indexOf(finding.ruleId),
+          level: finding.severity,
+          message: { text: finding.message },
+          locations: [{
+            ...(finding.source !== undefined && {
+              physicalLocation: {
+                artifactLocation: { uri: finding.source.replace(/\\/g, '/') },
+                region: { startLine: finding.line },
+              },
+            }),
+            logicalLocations: [finding.container === undefined
+              ? { fullyQualifiedName: workload, kind: 'module' }
+              : { fullyQualifiedName: `${workload}/${finding.container}`, kind: 'member' }],
+          }],
+        };
+      }),
+    }],
+  };
+}
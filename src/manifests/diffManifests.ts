@@ -0,0 +1,198 @@
+import { formatFraction } from '../resources/arithmetic';
+import { ResourceDelta } from '../resources/ResourceDelta';
+import { ResourceList } from '../resources/ResourceList';
+import { ScalarResource } from '../resources/ScalarResource';
+import { Manifest } from './parseManifests';
+import { WorkloadResources, scanManifests, sumTotals } from './scanManifests';
+import { WorkloadKind, WorkloadOptions } from './workloads';
+
+/**
+ * The changes of summed requests and limits, by resource name. Resources that did not change are
+ * left out.
+ */
+export interface DeltaTotals {
+  requests: Record<string, ResourceDelta>;
+  limits: Record<string, ResourceDelta>;
+}
+
+/**
+ * How a workload differs between two revisions.
+ */
+export type WorkloadChange = 'added' | 'removed' | 'changed';
+
+/**
+ * The change of one workload's resources between two revisions.
+ */
+export interface WorkloadDiff extends DeltaTotals {
+  kind: WorkloadKind;
+  name: string;
+  namespace: string;
+  change: WorkloadChange;
+  /** The number of pods before and after; 0 on the side the workload is missing from. */
+  replicas: { before: number; after: number };
+}
+
+/**
+ * The result of {@link diffManifests}.
+ */
+export interface ManifestDiff {
+  /** The workloads that changed, sorted by namespace, kind and name. */
+  workloads: WorkloadDiff[];
+  /** The changes per namespace, sorted by namespace name. */
+  namespaces: Record<string, DeltaTotals>;
+  total: DeltaTotals;
+}
+
+/**
+ * Returns the changes from one resource list to another, by resource name.
+ * @param before - The old list
+ * @param after - The new list
+ */
+function listDelta(before: ResourceList, after: ResourceList): Record<string, ResourceDelta> {
+  const deltas: Record<string, ResourceDelta> = {};
+  for (const name of [...new Set([...before.names(), ...after.names()])].sort()) {
+    const old: ScalarResource | undefined = before.get(name);
+    const current: ScalarResource | undefined = after.get(name);
+    const present = (old ?? current)!;
+    const zero = present.minus(present);
+    const delta = ResourceDelta.between(old ?? zero, current ?? zero);
+    if (!delta.isZero()) {
+      deltas[name] = delta;
+    }
+  }
+  return deltas;
+}
+
+/**
+ * Adds up changes by resource name.
+ * @param deltas - The changes to add up
+ */
+function sumDeltas(deltas: Record<string, ResourceDelta>[]): Record<string, ResourceDelta> {
+  const sums: Record<string, ResourceDelta> = {};
+  for (const entries of deltas) {
+    for (const [name, delta] of Object.entries(entries)) {
+      sums[name] = sums[name] ? sums[name].plus(delta) : delta;
+    }
+  }
+  const names = Object.keys(sums).filter(name => !sums[name].isZero()).sort();
+  return Object.fromEntries(names.map(name => [name, sums[name]]));
+}
+
+/**
+ * Groups the workloads of a scan by namespace, kind and name, adding up workloads that appear
+ * more than once.
+ * @param workloads - The workloads
+ */
+function byKey(workloads: WorkloadResources[]): Map<string, WorkloadResources> {
+  const keyed = new Map<string, WorkloadResources>();
+  for (const workload of workloads) {
+    const key = `${workload.namespace}/${workload.kind}/${workload.name}`;
+    const existing = keyed.get(key);
+    keyed.set(key, existing
+      ? { ...existing, ...sumTotals([existing, workload]), replicas: existing.replicas + workload.replicas }
+      : workload);
+  }
+  return keyed;
+}
+
+/**
+ * Compares the workloads of two sets of manifests, such as the rendered manifests of a base branch
+ * and a pull request, and reports the change of each workload's requests, limits and replicas.
+ *
+ * Workloads are matched by namespace, kind and name and read as by {@link scanManifests}, so the
+ * requests and limits are those of all pods of a workload. Workloads whose resources and replicas
+ * did not change are left out.
+ *
+ * @example
+ * ```typescript
+ * const diff = diffManifests(loadManifests(['./base']), loadManifests(['./head']));
+ * diff.total.requests.cpu?.toString();  // "+1500m"
+ * formatDiffMarkdown(diff);             // a summary and tables for a pull request comment
+ * ```
+ * @param before - The manifests of the old revision
+ * @param after - The manifests of the new revision
+ * @param options - Options for reading workloads
+ * @returns The per-workload and per-namespace changes and the total change
+ * @throws {ResourceError} If a workload has invalid resources; the message starts with its location
+ */
+export function diffManifests(before: Manifest[], after: Manifest[], options: WorkloadOptions = {}): ManifestDiff {
+  const old = byKey(scanManifests(before, options).workloads);
+  const current = byKey(scanManifests(after, options).workloads);
+  const empty = new ResourceList();
+
+  const workloads: WorkloadDiff[] = [];
+  for (const key of [...new Set([...old.keys(), ...current.keys()])].sort()) {
+    const from = old.get(key);
+    const to = current.get(key);
+    const workload = (to ?? from)!;
+    const requests = listDelta(from?.requests ?? empty, to?.requests ?? empty);
+    const limits = listDelta(from?.limits ?? empty, to?.limits ?? empty);
+    const replicas = { before: from?.replicas ?? 0, after: to?.replicas ?? 0 };
+    const change: WorkloadChange = !from ? 'added' : !to ? 'removed' : 'changed';
+    if (change === 'changed' && Object.keys(requests).length === 0 && Object.keys(limits).length === 0 && replicas.before === replicas.after) {
+      continue;
+    }
+    workloads.push({ kind: workload.kind, name: workload.name, namespace: workload.namespace, change, replicas, requests, limits });
+  }
+
+  const sum = (diffs: WorkloadDiff[]): DeltaTotals => ({
+    requests: sumDeltas(diffs.map(diff => diff.requests)),
+    limits: sumDeltas(diffs.map(diff => diff.limits)),
+  });
+  const namespaces: Record<string, DeltaTotals> = {};
+  for (const namespace of [...new Set(workloads.map(workload => workload.namespace))].sort()) {
+    namespaces[namespace] = sum(workloads.filter(workload => workload.namespace === namespace));
+  }
+  return { workloads, namespaces, total: sum(workloads) };
+}
+
+/**
+ * Describes changes for people, e.g. "+1.5 CPU, +3Gi memory". CPU is shown in cores.
+ * @param deltas - The changes by resource name
+ * @returns The description, or "no change"
+ */
+export function describeDeltas(deltas: Record<string, ResourceDelta>): string {
+  const parts = Object.entries(deltas).map(([name, delta]) => {
+    const sign = delta.sign() < 0 ? '-' : '+';
+    if (name === 'cpu') return `${sign}${formatFraction(delta.abs().toBigInt(), 1000n)} CPU`;
+    return `${sign}${delta.abs()} ${name}`;
+  });
+  return parts.length > 0 ? parts.join(', ') : 'no change';
+}
+
+/**
+ * Formats a diff as Markdown for a pull request comment: the total change, a table of the
+ * changes per namespace and a table of the changed workloads.
+ * @param diff - The diff
+ * @returns The Markdown text
+ */
+export function formatDiffMarkdown(diff: ManifestDiff): string {
+  if (diff.workloads.length === 0) {
+    return 'No changes to workload resources.';
+  }
+  const row = (cells: string[]) => `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+  const table = (headers: string[], rows: string[][]) =>
+    [row(headers), row(headers.map(() => '---')), ...rows.map(row)].join('\n');
+
+  return [
+    `**Requests:** ${describeDeltas(diff.total.requests)}  \n**Limits:** ${describeDeltas(diff.total.limits)}`,
+    table(
+      ['Namespace', 'Requests', 'Limits'],
+      Object.entries(diff.namespaces).map(([namespace, totals]) =>
+        [namespace, describeDeltas(totals.requests), describeDeltas(totals.limits)]),
+    ),
+    table(
+      ['Workload', 'Namespace', 'Change', 'Replicas', 'Requests', 'Limits'],
+      diff.workloads.map(workload => [
+        `${workload.kind}/${workload.name}`,
+        workload.namespace,
+        workload.change,
+        workload.replicas.before === workload.replicas.after
+          ? String(workload.replicas.after)
+          : `${workload.replicas.before} → ${workload.replicas.after}`,
+        describeDeltas(workload.requests),
+        describeDeltas(workload.limits),
+      ]),
+    ),
+  ].join('\n\n');
+}
@@ -0,0 +1,39 @@
+import { readFileSync, readdirSync, statSync } from 'fs';
+import { extname, join } from 'path';
+import { Manifest, parseManifests } from './parseManifests';
+
+/** The file extensions read when loading a directory. */
+const MANIFEST_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+/**
+ * Lists the manifest files below a path, sorted by name.
+ * @param path - A file or directory
+ */
+function manifestFiles(path: string): string[] {
+  if (!statSync(path).isDirectory()) {
+    return [path];
+  }
+  return readdirSync(path)
+    .sort()
+    .flatMap(entry => {
+      const child = join(path, entry);
+      if (statSync(child).isDirectory()) {
+        return manifestFiles(child);
+      }
+      return MANIFEST_EXTENSIONS.includes(extname(entry)) ? [child] : [];
+    });
+}
+
+/**
+ * Reads the manifests in files and directories. Directories are searched recursively for
+ * `.yaml`, `.yml` and `.json` files; files given explicitly are read regardless of their extension.
+ * @param paths - The files and directories to read
+ * @returns The objects of all files, in order
+ * @throws {ConfigError} If a file is not a valid manifest
+ * @throws {Error} If a path cannot be read
+ */
+export function loadManifests(paths: string[]): Manifest[] {
+  return paths
+    .flatMap(manifestFiles)
+    .flatMap(file => parseManifests(readFileSync(file, 'utf8'), file));
+}
@@ -0,0 +1,96 @@
+import { Document, LineCounter, isMap, isScalar, isSeq, parseAllDocuments } from 'yaml';
+import { ConfigError } from '../errors';
+
+/**
+ * The common fields of a Kubernetes object in a manifest.
+ * The `spec` is left untyped, as manifests are user input and its shape depends on the kind.
+ */
+export interface KubernetesObject {
+  apiVersion?: string;
+  kind?: string;
+  metadata?: {
+    name?: string;
+    namespace?: string;
+    [key: string]: unknown;
+  };
+  spec?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * A Kubernetes object read from a manifest, with its origin.
+ */
+export interface Manifest {
+  object: KubernetesObject;
+  /** The file or other source the manifest was read from, if known. */
+  source?: string;
+  /** The 1-based line at which the object starts in its source. */
+  line: number;
+  /**
+   * Returns the 1-based line of a field of the object, such as `['spec', 'containers', 0, 'resources']`,
+   * or of its closest parent that is in the source. Only set for parsed manifests.
+   */
+  lineOf?: (path: (string | number)[]) => number;
+}
+
+/**
+ * Finds the line of a field in a YAML document: the line of its key, or of the item for list
+ * indexes. Stops at the closest parent of fields that are missing.
+ * @param document - The document
+ * @param lineCounter - The line counter the document was parsed with
+ * @param path - The path of the field
+ */
+function fieldLine(document: Document.Parsed, lineCounter: LineCounter, path: (string | number)[]): number {
+  let node: unknown = document.contents;
+  let offset = document.contents?.range[0] ?? 0;
+  for (const segment of path) {
+    if (isMap(node)) {
+      const pair = node.items.find(item => (isScalar(item.key) ? item.key.value : item.key) === segment);
+      if (!pair) break;
+      offset = isScalar(pair.key) && pair.key.range ? pair.key.range[0] : offset;
+      node = pair.value;
+    } else if (isSeq(node) && typeof segment === 'number' && node.items[segment]) {
+      node = node.items[segment];
+      offset = (node as { range?: [number, number, number] }).range?.[0] ?? offset;
+    } else {
+      break;
+    }
+  }
+  return lineCounter.linePos(offset).line;
+}
+
+/**
+ * Parses multi-document YAML or JSON into Kubernetes objects.
+ * Empty documents are skipped and the items of `List` objects (e.g., from `kubectl get -o yaml`)
+ * are returned individually. The manifests can look up the lines of their fields with `lineOf`.
+ * @param text - The manifest text
+ * @param source - The file name or other source of the text, used in error messages
+ * @returns The objects in the order they appear
+ * @throws {ConfigError} If the text is not valid YAML or a document is not an object
+ */
+export function parseManifests(text: string, source?: string): Manifest[] {
+  const lineCounter = new LineCounter();
+  const manifests: Manifest[] = [];
+  for (const document of parseAllDocuments(text, { lineCounter })) {
+    const prefix = source ? `${source}: ` : '';
+    if (document.errors.length > 0) {
+      throw new ConfigError(`${prefix}Invalid manifest: ${document.errors[0].message}`, document.errors[0]);
+    }
+    const object = document.toJS();
+    if (object === null || object === undefined) {
+      continue;
+    }
+    const line = lineCounter.linePos(document.contents?.range[0] ?? 0).line;
+    if (typeof object !== 'object' || Array.isArray(object)) {
+      throw new ConfigError(`${prefix}Invalid manifest at line ${line}: expected a Kubernetes object`);
+    }
+    if (object.kind === 'List' && Array.isArray(object.items)) {
+      manifests.push(...object.items.map((item: KubernetesObject, index: number) => ({
+        object: item, source, line, lineOf: (path: (string | number)[]) => fieldLine(document, lineCounter, ['items', index, ...path]),
+      })));
+    } else {
+      manifests.push({ object, source, line, lineOf: path => fieldLine(document, lineCounter, path) });
+    }
+  }
+  return manifests;
+}
@@ -0,0 +1,104 @@
+import { podLimits, podRequests } from '../pod/podResources';
+import { ResourceList } from '../resources/ResourceList';
+import { Manifest } from './parseManifests';
+import { WorkloadKind, WorkloadOptions, readWorkload } from './workloads';
+
+/**
+ * Summed requests and limits.
+ */
+export interface ResourceTotals {
+  requests: ResourceList;
+  limits: ResourceList;
+}
+
+/**
+ * The resources of one workload found in the manifests.
+ */
+export interface WorkloadResources extends ResourceTotals {
+  kind: WorkloadKind;
+  name: string;
+  namespace: string;
+  source?: string;
+  line: number;
+  replicas: number;
+  /** The effective requests of a single pod. */
+  podRequests: ResourceList;
+  /** The effective limits of a single pod. */
+  podLimits: ResourceList;
+}
+
+/**
+ * The result of {@link scanManifests}.
+ */
+export interface ScanResult {
+  workloads: WorkloadResources[];
+  /** The totals per namespace, sorted by namespace name. */
+  namespaces: Record<string, ResourceTotals>;
+  total: ResourceTotals;
+}
+
+/**
+ * Totals the requests and limits of the workloads in a set of manifests.
+ *
+ * Pod templates of Deployments, StatefulSets, DaemonSets, ReplicaSets, ReplicationControllers,
+ * Jobs, CronJobs and bare Pods are read and their effective pod requests and limits (see
+ * {@link podRequests}) are multiplied by the number of pods the workload runs at once. Other objects
+ * are ignored.
+ *
+ * @example
+ * ```typescript
+ * const result = scanManifests(loadManifests(['./manifests']));
+ * result.total.requests.toJSON();  // { cpu: '4500m', memory: '12Gi' }
+ * ```
+ * @param manifests - The parsed manifests
+ * @param options - Options for reading workloads
+ * @returns The per-workload and per-namespace breakdown and the grand totals
+ * @throws {ResourceError} If a workload has invalid resources; the message starts with its location
+ */
+export function scanManifests(manifests: Manifest[], options: WorkloadOptions = {}): ScanResult {
+  const workloads: WorkloadResources[] = [];
+  for (const { object, source, line } of manifests) {
+    try {
+      const workload = readWorkload(object, options);
+      if (!workload) {
+        continue;
+      }
+      const requests = podRequests(workload.podSpec);
+      const limits = podLimits(workload.podSpec);
+      workloads.push({
+        kind: workload.kind,
+        name: workload.name,
+        namespace: workload.namespace,
+        source,
+        line,
+        replicas: workload.replicas,
+        podRequests: requests,
+        podLimits: limits,
+        requests: requests.times(workload.replicas),
+        limits: limits.times(workload.replicas),
+      });
+    } catch (error) {
+      // Keep the error's class and details, such as the position of a parse error
+      const location = source ? `${source}:${line}: ` : `line ${line}: `;
+      (error as Error).message = `${location}${(error as Error).message}`;
+      throw error;
+    }
+  }
+
+  const namespaces: Record<string, ResourceTotals> = {};
+  for (const namespace of [...new Set(workloads.map(workload => workload.namespace))].sort()) {
+    namespaces[namespace] = sumTotals(workloads.filter(workload => workload.namespace === namespace));
+  }
+  return { workloads, namespaces, total: sumTotals(workloads) };
+}
+
+/**
+ * Sums the requests and limits of several totals.
+ * @param totals - The totals to add up
+ */
+export function sumTotals(totals: ResourceTotals[]): ResourceTotals {
+  return {
+    requests: totals.reduce((sum, { requests }) => sum.plus(requests), new ResourceList()),
+    limits: totals.reduce((sum, { limits }) => sum.plus(limits), new ResourceList()),
+  };
+}
@@ -0,0 +1,143 @@
+import { ConfigError } from '../errors';
+import { PodSpec } from '../pod/types';
+import { KubernetesObject } from './parseManifests';
+
+/**
+ * The kinds of workload whose pod templates are read from manifests.
+ */
+export type WorkloadKind =
+  | 'Pod' | 'Deployment' | 'StatefulSet' | 'DaemonSet' | 'ReplicaSet' | 'ReplicationController' | 'Job' | 'CronJob';
+
+/**
+ * Options for reading workloads.
+ */
+export interface WorkloadOptions {
+  /** The namespace of objects without `metadata.namespace`. Defaults to `default`. */
+  defaultNamespace?: string;
+  /** The number of nodes each DaemonSet runs on. Defaults to 1. */
+  daemonSetNodes?: number;
+}
+
+/**
+ * A workload read from a manifest: its identity, pod spec and the number of pods it runs.
+ */
+export interface Workload {
+  kind: WorkloadKind;
+  name: string;
+  namespace: string;
+  podSpec: PodSpec;
+  /** The number of pods running at the same time: replicas, Job parallelism or DaemonSet nodes. */
+  replicas: number;
+}
+
+interface JobSpec {
+  parallelism?: unknown;
+  completions?: unknown;
+  template?: { spec?: PodSpec };
+}
+
+interface ControllerSpec {
+  replicas?: unknown;
+  template?: { spec?: PodSpec };
+  jobTemplate?: { spec?: JobSpec };
+}
+
+/**
+ * Reads a pod count of a workload, such as `spec.replicas`.
+ * @param value - The value of the field, or undefined if it is not set
+ * @param field - The path of the field, for error messages
+ * @param workload - The kind and name of the workload, for error messages
+ * @returns The count, or undefined if the field is not set
+ * @throws {ConfigError} If the value is not a non-negative integer
+ */
+function podCount(value: unknown, field: string, workload: string): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 0) {
+    throw new ConfigError(`${workload}: ${field} must be a non-negative integer, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Returns the number of pods a Job runs at the same time.
+ * @param spec - The Job spec
+ * @param path - The path of the Job spec in its object, for error messages
+ * @param workload - The kind and name of the workload, for error messages
+ * @throws {ConfigError} If the parallelism or completions are not non-negative integers
+ */
+function jobPods(spec: JobSpec, path: string, workload: string): number {
+  const parallelism = podCount(spec.parallelism, `${path}.parallelism`, workload) ?? 1;
+  const completions = podCount(spec.completions, `${path}.completions`, workload);
+  return completions === undefined ? parallelism : Math.min(parallelism, completions);
+}
+
+/**
+ * Returns where the pod spec of a workload kind is in its object, e.g. `['spec', 'template', 'spec']`.
+ * @param kind - The workload kind
+ */
+export function podSpecPath(kind: WorkloadKind): string[] {
+  switch (kind) {
+    case 'Pod':
+      return ['spec'];
+    case 'CronJob':
+      return ['spec', 'jobTemplate', 'spec', 'template', 'spec'];
+    default:
+      return ['spec', 'template', 'spec'];
+  }
+}
+
+/**
+ * Reads the pod spec and pod count of a Kubernetes object.
+ * @param object - The Kubernetes object
+ * @param options - Reading options
+ * @returns The workload, or undefined if the object is not a supported workload kind
+ * @throws {ConfigError} If the object is a workload without a pod template, or its pod count is
+ * not a non-negative integer
+ */
+export function readWorkload(object: KubernetesObject, options: WorkloadOptions = {}): Workload | undefined {
+  const spec = (object.spec ?? {}) as ControllerSpec & JobSpec & PodSpec;
+  const name = object.metadata?.name ?? '';
+  const workload = `${object.kind} ${name}`;
+  let podSpec: PodSpec | undefined;
+  let replicas: number;
+  switch (object.kind) {
+    case 'Pod':
+      podSpec = spec;
+      replicas = 1;
+      break;
+    case 'Deployment':
+    case 'StatefulSet':
+    case 'ReplicaSet':
+    case 'ReplicationController':
+      podSpec = spec.template?.spec;
+      replicas = podCount(spec.replicas, 'spec.replicas', workload) ?? 1;
+      break;
+    case 'DaemonSet':
+      podSpec = spec.template?.spec;
+      replicas = options.daemonSetNodes ?? 1;
+      break;
+    case 'Job':
+      podSpec = spec.template?.spec;
+      replicas = jobPods(spec, 'spec', workload);
+      break;
+    case 'CronJob':
+      podSpec = spec.jobTemplate?.spec?.template?.spec;
+      replicas = jobPods(spec.jobTemplate?.spec ?? {}, 'spec.jobTemplate.spec', workload);
+      break;
+    default:
+      return undefined;
+  }
+
+  if (!podSpec || !Array.isArray(podSpec.containers)) {
+    throw new ConfigError(`${workload} has no pod template with containers`);
+  }
+  return {
+    kind: object.kind,
+    name,
+    namespace: object.metadata?.namespace ?? options.defaultNamespace ?? 'default',
+    podSpec,
+    replicas,
+  };
+}
@@ -0,0 +1,111 @@
+import { ResourceList } from '../resources/ResourceList';
+import { Container, PodSpec, ResourceMap } from './types';
+
+/**
+ * Options for {@link podRequests} and {@link podLimits}.
+ */
+export interface PodResourcesOptions {
+  /** Leave the pod overhead out of the result. */
+  excludeOverhead?: boolean;
+}
+
+/**
+ * Converts a manifest resource map to a resource list.
+ * @param resources - The resource map, possibly undefined
+ */
+export function toResourceList(resources: ResourceMap | undefined): ResourceList {
+  return new ResourceList(Object.fromEntries(
+    Object.entries(resources ?? {}).map(([name, value]) => [name, String(value)]),
+  ));
+}
+
+/**
+ * Returns the requests of a container after API server defaulting:
+ * resources that only have a limit are requested at that limit.
+ * @param container - The container
+ */
+export function containerRequests(container: Container): ResourceList {
+  const limits = toResourceList(container.resources?.limits);
+  const requests = toResourceList(container.resources?.requests);
+  return limits.without(...requests.names()).plus(requests);
+}
+
+/**
+ * Returns the limits of a container.
+ * @param container - The container
+ */
+export function containerLimits(container: Container): ResourceList {
+  return toResourceList(container.resources?.limits);
+}
+
+/**
+ * Checks if an init container is a sidecar that keeps running alongside the app containers.
+ * @param container - The init container
+ */
+export function isSidecar(container: Container): boolean {
+  return container.restartPolicy === 'Always';
+}
+
+/**
+ * Aggregates a per-container resource list over a pod the way the scheduler does:
+ * app containers and sidecars are summed, while each regular init container only needs to fit
+ * together with the sidecars started before it, so the pod needs the maximum of both.
+ * @param spec - The pod spec
+ * @param resourcesOf - Returns the resources of one container
+ */
+function aggregate(spec: PodSpec, resourcesOf: (container: Container) => ResourceList): ResourceList {
+  let total = spec.containers.reduce((sum, container) => sum.plus(resourcesOf(container)), new ResourceList());
+
+  let sidecars = new ResourceList();
+  let initContainers = new ResourceList();
+  for (const container of spec.initContainers ?? []) {
+    const resources = resourcesOf(container);
+    if (isSidecar(container)) {
+      total = total.plus(resources);
+      sidecars = sidecars.plus(resources);
+      initContainers = initContainers.max(sidecars);
+    } else {
+      initContainers = initContainers.max(resources.plus(sidecars));
+    }
+  }
+  return total.max(initContainers);
+}
+
+/**
+ * Computes the effective resource requests of a pod, as used by the kube-scheduler
+ * (`resource.PodRequests` in k8s.io/component-helpers).
+ *
+ * @example
+ * ```typescript
+ * podRequests({
+ *   initContainers: [{ resources: { requests: { cpu: '2' } } }],
+ *   containers: [{ resources: { requests: { cpu: '500m' } } }, { resources: { requests: { cpu: '500m' } } }],
+ * }).cpu();  // 2, as the init container needs more than the app containers together
+ * ```
+ * @param spec - The pod spec
+ * @param options - Calculation options
+ * @returns The pod requests
+ */
+export function podRequests(spec: PodSpec, options: PodResourcesOptions = {}): ResourceList {
+  const requests = aggregate(spec, containerRequests);
+  if (options.excludeOverhead || !spec.overhead) {
+    return requests;
+  }
+  return requests.plus(toResourceList(spec.overhead));
+}
+
+/**
+ * Computes the effective resource limits of a pod (`resource.PodLimits` in k8s.io/component-helpers).
+ * Pod overhead is only added to resources that already have a limit.
+ * @param spec - The pod spec
+ * @param options - Calculation options
+ * @returns The pod limits
+ */
+export function podLimits(spec: PodSpec, options: PodResourcesOptions = {}): ResourceList {
+  const limits = aggregate(spec, containerLimits);
+  if (options.excludeOverhead || !spec.overhead) {
+    return limits;
+  }
+  const overhead = toResourceList(spec.overhead);
+  return limits.plus(overhead.without(...limits.missingKeys(overhead)));
+}
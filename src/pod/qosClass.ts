@@ -0,0 +1,125 @@
+import { ResourceList } from '../resources/ResourceList';
+import { containerLimits, containerRequests } from './podResources';
+import { Container, PodSpec } from './types';
+
+/**
+ * The quality of service class the kubelet assigns to a pod.
+ */
+export type QOSClass = 'Guaranteed' | 'Burstable' | 'BestEffort';
+
+/**
+ * One reason that contributed to a pod's QoS class.
+ */
+export interface QOSReason {
+  /** The container the reason applies to, if it is specific to one container. */
+  container?: string;
+  /** The resource the reason applies to, if it is specific to one resource. */
+  resource?: 'cpu' | 'memory';
+  message: string;
+}
+
+/**
+ * The result of {@link podQOSClass}.
+ */
+export interface QOSResult {
+  qosClass: QOSClass;
+  reasons: QOSReason[];
+}
+
+/** The resources the kubelet considers for QoS. */
+const QOS_RESOURCES = ['cpu', 'memory'] as const;
+
+/**
+ * Returns the QoS resources of a list that are greater than zero.
+ * @param list - The container requests or limits
+ */
+function positiveQOSResources(list: ResourceList): ResourceList {
+  return new ResourceList(Object.fromEntries(
+    QOS_RESOURCES.flatMap(name => {
+      const value = list.get(name);
+      return value && value.toBigInt() > 0n ? [[name, value]] : [];
+    }),
+  ));
+}
+
+/**
+ * Returns a name for a container to use in reasons.
+ * @param container - The container
+ * @param field - The pod spec field holding the container
+ * @param index - The position of the container in that field
+ */
+function displayName(container: Container, field: string, index: number): string {
+  return container.name ?? `${field}[${index}]`;
+}
+
+/**
+ * Computes the QoS class of a pod using the kubelet's rules (`qos.GetPodQOS`), and explains it.
+ *
+ * A pod is `BestEffort` when no container sets a CPU or memory request or limit, `Guaranteed` when
+ * every container (including init containers) sets CPU and memory limits and the requests equal
+ * those limits, and `Burstable` otherwise. Requests default to limits when only limits are set.
+ *
+ * @example
+ * ```typescript
+ * podQOSClass({ containers: [{ name: 'app', resources: { limits: { cpu: '1', memory: '1Gi' } } }] });
+ * // { qosClass: 'Guaranteed', reasons: [...] }
+ * ```
+ * @param spec - The pod spec
+ * @returns The QoS class and the reasons for it
+ */
+export function podQOSClass(spec: PodSpec): QOSResult {
+  let requests = new ResourceList();
+  let limits = new ResourceList();
+  let isGuaranteed = true;
+  const reasons: QOSReason[] = [];
+
+  const containers = [
+    ...spec.containers.map((container, index) => ({ container, name: displayName(container, 'containers', index) })),
+    ...(spec.initContainers ?? []).map((container, index) => ({ container, name: displayName(container, 'initContainers', index) })),
+  ];
+  for (const { container, name } of containers) {
+    const containerReqs = positiveQOSResources(containerRequests(container));
+    const containerLims = positiveQOSResources(containerLimits(container));
+    requests = requests.plus(containerReqs);
+    limits = limits.plus(containerLims);
+
+    for (const resource of QOS_RESOURCES) {
+      const request = containerReqs.get(resource);
+      const limit = containerLims.get(resource);
+      if (!limit) {
+        isGuaranteed = false;
+        reasons.push({ container: name, resource, message: `Container "${name}" does not set a ${resource} limit` });
+      } else if (!request || request.toBigInt() !== limit.toBigInt()) {
+        reasons.push({
+          container: name,
+          resource,
+          message: `Container "${name}" requests ${request ?? 0} ${resource} but is limited to ${limit}`,
+        });
+      }
+    }
+  }
+
+  if (requests.size === 0 && limits.size === 0) {
+    return { qosClass: 'BestEffort', reasons: [{ message: 'No container sets a CPU or memory request or limit' }] };
+  }
+
+  // Like the kubelet, compare the pod-wide sums rather than each container
+  if (isGuaranteed) {
+    isGuaranteed = requests.names().every(name => {
+      const request = requests.get(name);
+      const limit = limits.get(name);
+      return request && limit && request.toBigInt() === limit.toBigInt();
+    });
+  }
+  if (isGuaranteed && requests.size === limits.size) {
+    return {
+      qosClass: 'Guaranteed',
+      reasons: [{ message: 'Every container sets CPU and memory limits equal to its requests' }],
+    };
+  }
+
+  if (reasons.length === 0) {
+    reasons.push({ message: 'Pod CPU and memory requests do not add up to its limits' });
+  }
+  return { qosClass: 'Burstable', reasons };
+}
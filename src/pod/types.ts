@@ -0,0 +1,36 @@
+/**
+ * A map of resource names to quantities as written in a manifest.
+ * YAML manifests may contain bare numbers (e.g., `cpu: 1`), so numbers are accepted as well.
+ */
+export type ResourceMap = Record<string, string | number>;
+
+/**
+ * The `resources` field of a container.
+ */
+export interface ResourceRequirements {
+  requests?: ResourceMap;
+  limits?: ResourceMap;
+}
+
+/**
+ * The parts of a Kubernetes container that affect resource accounting.
+ */
+export interface Container {
+  name?: string;
+  resources?: ResourceRequirements;
+  /** Set to `Always` on init containers to make them sidecars. */
+  restartPolicy?: string;
+}
+
+/**
+ * The parts of a Kubernetes PodSpec that affect resource accounting.
+ */
+export interface PodSpec {
+  containers: Container[];
+  initContainers?: Container[];
+  overhead?: ResourceMap;
+  /** Makes the pod match the `Terminating` quota scope when set (to zero or more). */
+  activeDeadlineSeconds?: number;
+  /** Matched by the `PriorityClass` quota scope. */
+  priorityClassName?: string;
+}
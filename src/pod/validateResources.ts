@@ -0,0 +1,56 @@
+import { ExtendedResource } from '../resources/ExtendedResource';
+import { toResourceList } from './podResources';
+import { Container } from './types';
+
+/**
+ * Checks if a resource may be requested below its limit, like `IsOvercommitAllowed`.
+ * Hugepages and extended resources such as `nvidia.com/gpu` may not.
+ * @param name - The resource name
+ */
+export function isOvercommitAllowed(name: string): boolean {
+  return !name.startsWith('hugepages-') && !ExtendedResource.isExtendedResourceName(name);
+}
+
+/**
+ * Validates the resource requirements of a container the way the API server does
+ * (`ValidateResourceRequirements`), returning its error messages.
+ *
+ * Requests may not exceed limits, resources that cannot be overcommitted must have a limit and be
+ * requested at exactly that limit, and hugepages require a CPU or memory request or limit.
+ * Quantities that cannot be parsed, such as fractional extended resources, throw instead.
+ *
+ * @example
+ * ```typescript
+ * validateContainerResources({ resources: { requests: { 'nvidia.com/gpu': '1' }, limits: { 'nvidia.com/gpu': '2' } } });
+ * // ['resources.requests[nvidia.com/gpu]: Invalid value: "1": must be equal to nvidia.com/gpu limit of 2']
+ * ```
+ * @param container - The container
+ * @returns The error messages, with field paths relative to the container; empty if the container is valid
+ * @throws {Error} If a quantity cannot be parsed
+ */
+export function validateContainerResources(container: Container): string[] {
+  const requests = toResourceList(container.resources?.requests);
+  const limits = toResourceList(container.resources?.limits);
+  const errors: string[] = [];
+
+  for (const name of requests.names()) {
+    const request = requests.get(name)!;
+    const limit = limits.get(name);
+    const path = `resources.requests[${name}]`;
+    if (limit === undefined) {
+      if (!isOvercommitAllowed(name)) {
+        errors.push(`resources.limits[${name}]: Required value: Limit must be set for non overcommitable resources`);
+      }
+    } else if (!isOvercommitAllowed(name) && request.toBigInt() !== limit.toBigInt()) {
+      errors.push(`${path}: Invalid value: "${request}": must be equal to ${name} limit of ${limit}`);
+    } else if (request.toBigInt() > limit.toBigInt()) {
+      errors.push(`${path}: Invalid value: "${request}": must be less than or equal to ${name} limit of ${limit}`);
+    }
+  }
+
+  const names = [...requests.names(), ...limits.names()];
+  if (names.some(name => name.startsWith('hugepages-')) && !names.some(name => name === 'cpu' || name === 'memory')) {
+    errors.push('resources: Forbidden: HugePages require cpu or memory');
+  }
+  return errors;
+}
@@ -0,0 +1,135 @@
+/** The smallest weight of a bucket that counts as non-empty. */
+const EPSILON = 0.0001;
+
+/** The largest exponent of the decay factor before the reference time is moved forward. */
+const MAX_DECAY_EXPONENT = 100;
+
+/**
+ * The bucket layout of an exponential histogram, as in the Vertical Pod Autoscaler: the first
+ * bucket has the given size and each further bucket is `ratio` times larger than the previous one.
+ */
+export interface HistogramOptions {
+  /** The largest value the histogram distinguishes; larger values go into the last bucket. */
+  maxValue: number;
+  firstBucketSize: number;
+  ratio: number;
+}
+
+/** The CPU histogram of the VPA recommender, in cores: 10m buckets growing by 5%, up to 1000 cores. */
+export const CPU_HISTOGRAM: HistogramOptions = { maxValue: 1000, firstBucketSize: 0.01, ratio: 1.05 };
+
+/** The memory histogram of the VPA recommender, in bytes: 10MB buckets growing by 5%, up to 1TB. */
+export const MEMORY_HISTOGRAM: HistogramOptions = { maxValue: 1e12, firstBucketSize: 1e7, ratio: 1.05 };
+
+/**
+ * A histogram with exponentially growing buckets whose samples lose half their weight every
+ * half-life, so recent usage counts more than old usage. Mirrors the `DecayingHistogram` of the
+ * VPA recommender, including its percentiles, which return the end of the bucket they fall into.
+ */
+export class DecayingHistogram {
+    private readonly numBuckets: number;
+    private readonly weights: number[];
+    private totalWeight = 0;
+    private minBucket: number;
+    private maxBucket = 0;
+    private referenceTime: number | undefined;
+
+    /**
+     * Creates an empty histogram.
+     * @param options - The bucket layout
+     * @param halfLife - The half-life of sample weights, in milliseconds
+     */
+    constructor(private readonly options: HistogramOptions, private readonly halfLife: number) {
+      const { maxValue, firstBucketSize, ratio } = options;
+      this.numBuckets = Math.ceil(Math.log(maxValue * (ratio - 1) / firstBucketSize + 1) / Math.log(ratio)) + 1;
+      this.weights = new Array<number>(this.numBuckets).fill(0);
+      this.minBucket = this.numBuckets - 1;
+    }
+
+    /**
+     * Adds a sample.
+     * @param value - The sample value
+     * @param weight - The weight of the sample before decay
+     * @param time - The time of the sample, in milliseconds since the epoch
+     */
+    addSample(value: number, weight: number, time: number): void {
+      if (this.referenceTime === undefined) {
+        this.referenceTime = time;
+      } else if ((time - this.referenceTime) / this.halfLife > MAX_DECAY_EXPONENT) {
+        // Rescale the weights so that they stay within floating point range
+        const scale = Math.pow(2, (this.referenceTime - time) / this.halfLife);
+        for (let bucket = 0; bucket < this.numBuckets; bucket++) {
+          this.weights[bucket] *= scale;
+        }
+        this.totalWeight *= scale;
+        this.referenceTime = time;
+        this.updateRange();
+      }
+      const bucket = this.findBucket(value);
+      const decayed = weight * Math.pow(2, (time - this.referenceTime) / this.halfLife);
+      this.weights[bucket] += decayed;
+      this.totalWeight += decayed;
+      if (this.weights[bucket] >= EPSILON) {
+        this.minBucket = Math.min(this.minBucket, bucket);
+        this.maxBucket = Math.max(this.maxBucket, bucket);
+      }
+    }
+
+    /**
+     * Checks if the histogram has no samples of any weight.
+     */
+    isEmpty(): boolean {
+      return this.weights[this.minBucket] < EPSILON;
+    }
+
+    /**
+     * Returns the value below which the given share of the sample weight lies, as the end of the
+     * bucket that share falls into. An empty histogram returns 0.
+     * @param percentile - The share, from 0 to 1
+     */
+    percentile(percentile: number): number {
+      if (this.isEmpty()) {
+        return 0;
+      }
+      const threshold = percentile * this.totalWeight;
+      let partialSum = 0;
+      let bucket = this.minBucket;
+      for (; bucket < this.maxBucket; bucket++) {
+        partialSum += this.weights[bucket];
+        if (partialSum >= threshold) break;
+      }
+      // The last bucket has no end
+      return this.bucketStart(bucket < this.numBuckets - 1 ? bucket + 1 : bucket);
+    }
+
+    /**
+     * Returns the bucket a value falls into.
+     * @param value - The value
+     */
+    private findBucket(value: number): number {
+      const { firstBucketSize, ratio } = this.options;
+      if (value < firstBucketSize) {
+        return 0;
+      }
+      const bucket = Math.trunc(Math.log(value * (ratio - 1) / firstBucketSize + 1) / Math.log(ratio));
+      return Math.min(bucket, this.numBuckets - 1);
+    }
+
+    /**
+     * Returns the smallest value of a bucket.
+     * @param bucket - The bucket
+     */
+    private bucketStart(bucket: number): number {
+      const { firstBucketSize, ratio } = this.options;
+      return bucket === 0 ? 0 : firstBucketSize * (Math.pow(ratio, bucket) - 1) / (ratio - 1);
+    }
+
+    /**
+     * Recomputes the range of non-empty buckets.
+     */
+    private updateRange(): void {
+      const nonEmpty = this.weights.flatMap((weight, bucket) => weight >= EPSILON ? [bucket] : []);
+      this.minBucket = nonEmpty.length > 0 ? nonEmpty[0] : this.numBuckets - 1;
+      this.maxBucket = nonEmpty.length > 0 ? nonEmpty[nonEmpty.length - 1] : 0;
+    }
+}
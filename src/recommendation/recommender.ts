@@ -0,0 +1,237 @@
+import { InvalidArgumentError } from '../errors';
+import { CPUResource } from '../resources/CPUResource';
+import { MemoryResource } from '../resources/MemoryResource';
+import { CPU_HISTOGRAM, DecayingHistogram, MEMORY_HISTOGRAM } from './histogram';
+
+/**
+ * One observation of a container's usage. Either value may be missing, e.g. when CPU and memory
+ * are scraped separately.
+ */
+export interface UsageSample {
+  /** The time of the observation, as a Date or in milliseconds since the epoch. */
+  timestamp: Date | number;
+  cpu?: CPUResource;
+  memory?: MemoryResource;
+  /**
+   * The container's CPU request at the time. The VPA weighs CPU samples by the request (at least
+   * 0.1 cores); samples without one weigh 1.
+   */
+  cpuRequest?: CPUResource;
+}
+
+/**
+ * A container being killed for running out of memory.
+ */
+export interface OOMEvent {
+  timestamp: Date | number;
+  /** The memory the container had when it was killed, e.g. its limit. */
+  memory: MemoryResource;
+}
+
+/**
+ * The usage history of one container.
+ */
+export interface UsageHistory {
+  samples: UsageSample[];
+  ooms?: OOMEvent[];
+}
+
+/**
+ * Options for {@link recommendRequests}. The defaults are those of the VPA recommender.
+ */
+export interface RecommenderOptions {
+  /** The CPU usage percentile of the target, from 0 to 1. Defaults to 0.9. */
+  cpuPercentile?: number;
+  /** The percentile of the daily memory peaks of the target, from 0 to 1. Defaults to 0.9. */
+  memoryPercentile?: number;
+  /** The fraction added to every estimate. Defaults to 0.15. */
+  safetyMargin?: number;
+  /** The smallest CPU recommendation. Defaults to 25m. */
+  minCPU?: CPUResource;
+  /** The smallest memory recommendation. Defaults to 250Mi. */
+  minMemory?: MemoryResource;
+  /** The time after which a sample counts half as much. Defaults to 24 hours. */
+  halfLifeHours?: number;
+}
+
+/**
+ * CPU and memory requests.
+ */
+export interface ResourceEstimate {
+  cpu: CPUResource;
+  memory: MemoryResource;
+}
+
+/**
+ * The recommended requests of a container.
+ */
+export interface Recommendation {
+  /** The requests to set. */
+  target: ResourceEstimate;
+  /** The requests below which the container is likely starved. */
+  lowerBound: ResourceEstimate;
+  /** The requests above which resources are likely wasted. */
+  upperBound: ResourceEstimate;
+  /** The days of history behind the recommendation, bounded by the number of samples at one per minute. */
+  confidence: number;
+}
+
+/** The percentiles of the lower and upper bounds. */
+const LOWER_BOUND_PERCENTILE = 0.5;
+const UPPER_BOUND_PERCENTILE = 0.95;
+
+/** The smallest weight of a CPU sample, in cores. */
+const MIN_SAMPLE_WEIGHT = 0.1;
+
+/** The memory histogram holds the peak of each interval of this length. */
+const MEMORY_AGGREGATION_INTERVAL = 24 * 60 * 60 * 1000;
+
+/** After an OOM kill, memory is bumped by this ratio or {@link MIN_OOM_BUMP}, whichever is larger. */
+const OOM_BUMP_RATIO = 1.2;
+const MIN_OOM_BUMP = 100 * 1024 * 1024;
+
+/** The largest amount the VPA recommends, in millicores or bytes. */
+const MAX_RESOURCE_AMOUNT = 1e14;
+
+/**
+ * Returns a timestamp in milliseconds since the epoch.
+ * @param timestamp - The timestamp
+ * @throws {InvalidArgumentError} If the timestamp is not a valid time
+ */
+function toTime(timestamp: Date | number): number {
+  const time = timestamp instanceof Date ? timestamp.getTime() : timestamp;
+  if (!Number.isFinite(time)) {
+    throw new InvalidArgumentError(`Invalid sample timestamp ${String(timestamp)}`);
+  }
+  return time;
+}
+
+/**
+ * Validates a share such as a percentile.
+ * @param name - The name of the option, for error messages
+ * @param value - The value
+ * @throws {InvalidArgumentError} If the value is not between 0 and 1
+ */
+function checkFraction(name: string, value: number): number {
+  if (!(value >= 0 && value <= 1)) {
+    throw new InvalidArgumentError(`${name} must be between 0 and 1, got ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Converts an estimate to a whole amount the way the VPA does, truncating and capping it.
+ * @param value - The estimate in millicores or bytes
+ */
+function toAmount(value: number): bigint {
+  // An empty histogram times an infinite confidence multiplier
+  if (Number.isNaN(value)) return 0n;
+  return BigInt(Math.trunc(Math.min(value, MAX_RESOURCE_AMOUNT)));
+}
+
+/**
+ * Recommends CPU and memory requests for a container from its usage history, the way the Vertical
+ * Pod Autoscaler recommender does:
+ *
+ * - CPU samples go into a histogram whose weights halve every 24 hours. Memory is aggregated into
+ *   the peak of every 24-hour interval, and the peaks go into a histogram decaying the same way.
+ * - An OOM kill counts as a memory peak of 20% (at least 100Mi) more than the memory the container
+ *   had, so the recommendation grows past it.
+ * - The target is the 90th percentile of both histograms, the lower bound the 50th and the upper
+ *   bound the 95th, each plus a 15% safety margin.
+ * - The bounds widen while there is little history: the upper bound is multiplied by
+ *   `1 + 1/confidence` and the lower bound by `(1 + 0.001/confidence)^-2`, where the confidence is
+ *   the number of days the samples span (but at most one day per 1440 samples). Without history
+ *   the upper bound is the VPA's cap of 10^14 millicores or bytes.
+ * - Every value is at least 25m of CPU and 250Mi of memory.
+ *
+ * Percentiles are the upper ends of the histogram buckets, which grow by 5%, so recommendations
+ * move in steps rather than following the samples exactly.
+ *
+ * @example
+ * ```typescript
+ * const samples = metrics.map(point => ({
+ *   timestamp: new Date(point.time),
+ *   cpu: CPUResource.fromCores(point.cpu),
+ *   memory: MemoryResource.fromBytes(point.memoryBytes),
+ * }));
+ * const { target, upperBound } = recommendRequests({ samples });
+ * `${target.cpu} / ${target.memory}`;  // e.g. "287m / 412Mi"
+ * ```
+ * @param history - The usage samples and OOM kills of the container
+ * @param options - Percentiles, safety margin, minimums and half-life
+ * @returns The target requests and their bounds
+ * @throws {InvalidArgumentError} If there are no samples or an option or timestamp is invalid
+ */
+export function recommendRequests(history: UsageHistory, options: RecommenderOptions = {}): Recommendation {
+  const cpuPercentile = checkFraction('CPU percentile', options.cpuPercentile ?? 0.9);
+  const memoryPercentile = checkFraction('Memory percentile', options.memoryPercentile ?? 0.9);
+  const safetyMargin = options.safetyMargin ?? 0.15;
+  if (!(safetyMargin >= 0)) {
+    throw new InvalidArgumentError(`Safety margin must not be negative, got ${safetyMargin}`);
+  }
+  const halfLifeHours = options.halfLifeHours ?? 24;
+  if (!(halfLifeHours > 0)) {
+    throw new InvalidArgumentError(`Half-life must be a positive number of hours, got ${halfLifeHours}`);
+  }
+  const minCPU = options.minCPU ?? new CPUResource('25m');
+  const minMemory = options.minMemory ?? new MemoryResource('250Mi');
+  const halfLife = halfLifeHours * 60 * 60 * 1000;
+
+  const samples = history.samples
+    .map(sample => ({ ...sample, time: toTime(sample.timestamp) }))
+    .sort((a, b) => a.time - b.time);
+  if (samples.length === 0) {
+    throw new InvalidArgumentError("Cannot recommend requests without usage samples");
+  }
+
+  const cpuHistogram = new DecayingHistogram(CPU_HISTOGRAM, halfLife);
+  let cpuSamples = 0;
+  let firstCPUSample = Infinity;
+  let lastCPUSample = -Infinity;
+  for (const sample of samples) {
+    if (!sample.cpu) continue;
+    const weight = sample.cpuRequest ? Math.max(sample.cpuRequest.valueOf() / 1000, MIN_SAMPLE_WEIGHT) : 1;
+    cpuHistogram.addSample(sample.cpu.valueOf() / 1000, weight, sample.time);
+    cpuSamples++;
+    firstCPUSample = Math.min(firstCPUSample, sample.time);
+    lastCPUSample = Math.max(lastCPUSample, sample.time);
+  }
+
+  // The peak of each aggregation interval, counted from the first observation
+  const observations = [
+    ...samples.flatMap(sample => sample.memory ? [{ time: sample.time, bytes: sample.memory.valueOf() }] : []),
+    ...(history.ooms ?? []).map(oom => {
+      const bytes = oom.memory.valueOf();
+      return { time: toTime(oom.timestamp), bytes: Math.max(bytes + MIN_OOM_BUMP, bytes * OOM_BUMP_RATIO) };
+    }),
+  ];
+  const memoryHistogram = new DecayingHistogram(MEMORY_HISTOGRAM, halfLife);
+  if (observations.length > 0) {
+    const start = observations.reduce((first, observation) => Math.min(first, observation.time), Infinity);
+    const peaks = new Map<number, number>();
+    for (const { time, bytes } of observations) {
+      const interval = Math.floor((time - start) / MEMORY_AGGREGATION_INTERVAL);
+      peaks.set(interval, Math.max(peaks.get(interval) ?? 0, bytes));
+    }
+    for (const [interval, peak] of [...peaks].sort(([a], [b]) => a - b)) {
+      memoryHistogram.addSample(peak, 1, start + interval * MEMORY_AGGREGATION_INTERVAL);
+    }
+  }
+
+  const lifespanDays = cpuSamples > 0 ? (lastCPUSample - firstCPUSample) / MEMORY_AGGREGATION_INTERVAL : 0;
+  const confidence = Math.min(lifespanDays, cpuSamples / (60 * 24));
+
+  const estimate = (cpuPercentileOf: number, memoryPercentileOf: number, scale: number): ResourceEstimate => {
+    const factor = (1 + safetyMargin) * scale;
+    const cpu = CPUResource.fromMillicores(toAmount(cpuHistogram.percentile(cpuPercentileOf) * factor * 1000));
+    const memory = MemoryResource.fromBytes(toAmount(memoryHistogram.percentile(memoryPercentileOf) * factor));
+    return { cpu: cpu.isLessThan(minCPU) ? minCPU : cpu, memory: memory.isLessThan(minMemory) ? minMemory : memory };
+  };
+  return {
+    target: estimate(cpuPercentile, memoryPercentile, 1),
+    lowerBound: estimate(LOWER_BOUND_PERCENTILE, LOWER_BOUND_PERCENTILE, Math.pow(1 + 0.001 / confidence, -2)),
+    upperBound: estimate(UPPER_BOUND_PERCENTILE, UPPER_BOUND_PERCENTILE, 1 + 1 / confidence),
+    confidence,
+  };
+}
@@ -0,0 +1,179 @@
+import { ParseResult, ResourceError } from '../errors';
+import { RoundingMode, RoundingOptions, roundFraction } from './arithmetic';
+import { CPUResource } from './CPUResource';
+import { ScalarResource } from './ScalarResource';
+import { defineResourceKind } from './units';
+
+/** The number of nanocores in one millicore. */
+const NANOCORES_PER_MILLICORE = 1_000_000n;
+
+/** CPU usage is stored in nanocores and accepts every Kubernetes quantity suffix. */
+const CPU_USAGE = defineResourceKind({
+  name: 'cpu-usage',
+  label: 'CPU usage',
+  baseUnit: 'nanocores',
+  exponent: -9,
+  formatHint: "a number followed by an optional unit (e.g., '123456789n' or '0.5')",
+});
+
+/**
+ * Represents measured CPU usage, as reported by metrics-server in `PodMetrics` and `NodeMetrics`
+ * (e.g., "123456789n" or "250u").
+ *
+ * Unlike {@link CPUResource}, which is limited to the whole millicores a pod spec can request,
+ * usage values are stored exactly as a BigInt number of nanocores, so that summing many container
+ * samples loses nothing. Parsing, arithmetic and formatting are inherited from {@link ScalarResource};
+ * in addition, usage can be added to, compared with and converted to CPU resources.
+ *
+ * @example
+ * ```typescript
+ * const usage = new CPUUsage('123456789n').plus(new CPUUsage('250u'));
+ * usage.toString();                                  // "123706789n"
+ * usage.ratioTo(new CPUResource('500m'));            // 0.247413578
+ * usage.isGreaterThan(new CPUResource('100m'));      // true
+ * usage.toCPUResource().toString();                  // "124m"
+ * ```
+ */
+export class CPUUsage extends ScalarResource {
+    private declare readonly brand: 'cpu-usage';
+
+    /**
+     * Creates a new CPU usage value from a string representation.
+     * @param resource - A string representing the CPU usage (e.g., "123456789n", "250u" or "0.5")
+     * @param options - How to round values that are not whole nanocores (by default `ceil`), or to a
+     * coarser granularity. Without options, such values are rejected.
+     * @throws {ResourceParseError} If the format or unit is invalid
+     * @throws {NegativeResourceError} If the value is negative
+     * @throws {OverflowError} If the value exceeds 2^63-1 nanocores
+     * @throws {PrecisionError} If the value is not a whole number of nanocores and no rounding is given
+     */
+    constructor(resource: string, options?: RoundingOptions<CPUUsage>) {
+      super(CPU_USAGE, resource, options);
+    }
+
+    /**
+     * Parses a CPU usage value without throwing.
+     * @param resource - A string representing the CPU usage (e.g., "123456789n")
+     * @param options - Rounding options, as for the constructor
+     * @returns The usage value, or the {@link ResourceError} the constructor would have thrown
+     */
+    static tryParse(resource: string, options?: RoundingOptions<CPUUsage>): ParseResult<CPUUsage> {
+      try {
+        return { ok: true, value: new CPUUsage(resource, options) };
+      } catch (error) {
+        if (error instanceof ResourceError) return { ok: false, error };
+        throw error;
+      }
+    }
+
+    /**
+     * Creates a CPU usage value of zero.
+     * @returns A new CPUUsage instance
+     */
+    static zero(): CPUUsage {
+      return new CPUUsage('0n');
+    }
+
+    /**
+     * Creates a CPU usage value from a number of nanocores.
+     * @param nanocores - The number of nanocores, as a whole number or an exact BigInt
+     * @returns A new CPUUsage instance
+     * @throws {Error} If the value is invalid
+     */
+    static fromNanocores(nanocores: number | bigint): CPUUsage {
+      return this.create(CPU_USAGE, this.toBaseUnits(CPU_USAGE, nanocores, 'n'), 'DecimalSI');
+    }
+
+    /**
+     * Creates a CPU usage value equal to a CPU resource, e.g. to accumulate requests and usage together.
+     * @param cpu - The CPU resource
+     * @returns A new CPUUsage instance
+     */
+    static fromCPUResource(cpu: CPUResource): CPUUsage {
+      return this.create(CPU_USAGE, cpu.toBigInt() * NANOCORES_PER_MILLICORE, cpu.format);
+    }
+
+    /**
+     * Converts a CPU resource operand to usage, so that the inherited methods can use it.
+     * @param other - A usage value or CPU resource
+     */
+    private static usageOf<T extends CPUUsage>(other: T | CPUResource): T {
+      return (other instanceof CPUResource ? CPUUsage.fromCPUResource(other) : other) as T;
+    }
+
+    /**
+     * Adds another usage value or a CPU resource to this one, without losing precision.
+     * @param other - The value to add
+     * @returns A new CPUUsage instance with the sum
+     * @throws {Error} If the result would overflow
+     */
+    plus(other: this | CPUResource): this {
+      return super.plus(CPUUsage.usageOf(other));
+    }
+
+    /**
+     * Subtracts another usage value or a CPU resource from this one.
+     * @param other - The value to subtract
+     * @returns A new CPUUsage instance with the difference
+     * @throws {Error} If the result would be negative
+     */
+    minus(other: this | CPUResource): this {
+      return super.minus(CPUUsage.usageOf(other));
+    }
+
+    /**
+     * Converts this usage to a CPU resource, rounding to whole millicores.
+     * @param rounding - The rounding mode; usage is rounded up by default, like the API server does
+     * @returns A new CPUResource instance
+     */
+    toCPUResource(rounding: RoundingMode = 'ceil'): CPUResource {
+      return CPUResource.fromMillicores(roundFraction(this.toBigInt(), NANOCORES_PER_MILLICORE, rounding));
+    }
+
+    /**
+     * Returns the ratio of this usage to a usage value or CPU resource, e.g. the utilization of a request.
+     * @param other - The value to compare with
+     * @returns This value divided by the other value
+     * @throws {InvalidArgumentError} If the other value is zero
+     */
+    ratioTo(other: this | CPUResource): number {
+      return super.ratioTo(CPUUsage.usageOf(other));
+    }
+
+    /**
+     * Returns this usage as a percentage of a usage value or CPU resource.
+     * @param other - The value to compare with
+     * @returns The percentage, e.g. 50 for 250m of 500m
+     * @throws {InvalidArgumentError} If the other value is zero
+     */
+    percentOf(other: this | CPUResource): number {
+      return super.percentOf(CPUUsage.usageOf(other));
+    }
+
+    /**
+     * Checks if this usage equals a usage value or CPU resource.
+     * @param other - The value to compare with
+     * @returns true if the values are equal
+     */
+    equals(other: this | CPUResource): boolean {
+      return super.equals(CPUUsage.usageOf(other));
+    }
+
+    /**
+     * Checks if this usage is less than a usage value or CPU resource.
+     * @param other - The value to compare with
+     * @returns true if this value is less than the other
+     */
+    isLessThan(other: this | CPUResource): boolean {
+      return super.isLessThan(CPUUsage.usageOf(other));
+    }
+
+    /**
+     * Checks if this usage is greater than a usage value or CPU resource.
+     * @param other - The value to compare with
+     * @returns true if this value is greater than the other
+     */
+    isGreaterThan(other: this | CPUResource): boolean {
+      return super.isGreaterThan(CPUUsage.usageOf(other));
+    }
+}
@@ -0,0 +1,65 @@
+import { ParseResult, ResourceError } from '../errors';
+import { ScalarResource } from './ScalarResource';
+import { defineResourceKind } from './units';
+
+/** Object counts are whole numbers without a unit, such as the pods a node or quota allows. */
+const COUNT = defineResourceKind({ name: 'count', label: 'Object count', formatHint: "a whole number (e.g., '110' or '1k')" });
+
+/**
+ * Represents a count of Kubernetes objects, such as the `pods` a node can run or the
+ * `count/services` a ResourceQuota allows. {@link ResourceList} holds these names as counts.
+ *
+ * @example
+ * ```typescript
+ * const pods = new CountResource('110').minus(new CountResource('3'));
+ * pods.toString();  // "107"
+ * new CountResource('1.5');  // PrecisionError: Object count resources must be whole numbers
+ * ```
+ */
+export class CountResource extends ScalarResource {
+    private declare readonly brand: 'count';
+
+    /**
+     * Creates a new object count from a string representation.
+     * @param resource - A string representing the count (e.g., "110" or "1k")
+     * @throws {ResourceParseError} If the format or unit is invalid
+     * @throws {NegativeResourceError} If the value is negative
+     * @throws {OverflowError} If the value exceeds 2^63-1
+     * @throws {PrecisionError} If the value is not a whole number
+     */
+    constructor(resource: string) {
+      super(COUNT, resource);
+    }
+
+    /**
+     * Parses an object count without throwing.
+     * @param resource - A string representing the count (e.g., "110")
+     * @returns The count, or the {@link ResourceError} the constructor would have thrown
+     */
+    static tryParse(resource: string): ParseResult<CountResource> {
+      try {
+        return { ok: true, value: new CountResource(resource) };
+      } catch (error) {
+        if (error instanceof ResourceError) return { ok: false, error };
+        throw error;
+      }
+    }
+
+    /**
+     * Creates an object count of zero.
+     * @returns A new CountResource instance
+     */
+    static zero(): CountResource {
+      return new CountResource('0');
+    }
+
+    /**
+     * Creates an object count from a number.
+     * @param count - The count, as a whole number or an exact BigInt
+     * @returns A new CountResource instance
+     * @throws {Error} If the value is invalid
+     */
+    static fromCount(count: number | bigint): CountResource {
+      return this.create(COUNT, this.toBaseUnits(COUNT, count, ''), 'DecimalSI');
+    }
+}
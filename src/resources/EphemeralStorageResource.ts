@@ -0,0 +1,67 @@
+import { ParseResult, ResourceError } from '../errors';
+import { ScalarResource } from './ScalarResource';
+import { defineResourceKind } from './units';
+
+/** Ephemeral storage is stored in bytes and accepts the same units as memory. */
+const EPHEMERAL_STORAGE = defineResourceKind({ name: 'ephemeral-storage', label: 'Ephemeral storage', baseUnit: 'bytes' });
+
+/**
+ * Represents a Kubernetes `ephemeral-storage` resource value: local scratch space used by
+ * writable container layers, logs and `emptyDir` volumes.
+ *
+ * Values are stored exactly as a BigInt number of bytes and accept the same units as
+ * {@link MemoryResource}, but the two cannot be mixed.
+ *
+ * @example
+ * ```typescript
+ * const storage = new EphemeralStorageResource('10Gi').plus(new EphemeralStorageResource('512Mi'));
+ * storage.toString();  // "10752Mi"
+ * ```
+ */
+export class EphemeralStorageResource extends ScalarResource {
+    private declare readonly brand: 'ephemeral-storage';
+
+    /**
+     * Creates a new ephemeral storage resource from a string representation.
+     * @param resource - A string representing the storage (e.g., "10Gi" or "500M")
+     * @throws {ResourceParseError} If the format or unit is invalid
+     * @throws {NegativeResourceError} If the value is negative
+     * @throws {OverflowError} If the value exceeds 2^63-1 bytes
+     * @throws {PrecisionError} If the value is not a whole number of bytes
+     */
+    constructor(resource: string) {
+      super(EPHEMERAL_STORAGE, resource);
+    }
+
+    /**
+     * Parses an ephemeral storage resource without throwing.
+     * @param resource - A string representing the storage (e.g., "10Gi")
+     * @returns The resource, or the {@link ResourceError} the constructor would have thrown
+     */
+    static tryParse(resource: string): ParseResult<EphemeralStorageResource> {
+      try {
+        return { ok: true, value: new EphemeralStorageResource(resource) };
+      } catch (error) {
+        if (error instanceof ResourceError) return { ok: false, error };
+        throw error;
+      }
+    }
+
+    /**
+     * Creates an ephemeral storage resource with zero bytes.
+     * @returns A new EphemeralStorageResource instance
+     */
+    static zero(): EphemeralStorageResource {
+      return new EphemeralStorageResource('0');
+    }
+
+    /**
+     * Creates an ephemeral storage resource from a number of bytes.
+     * @param bytes - The number of bytes, as a whole number or an exact BigInt
+     * @returns A new EphemeralStorageResource instance
+     * @throws {Error} If the value is invalid
+     */
+    static fromBytes(bytes: number | bigint): EphemeralStorageResource {
+      return this.create(EPHEMERAL_STORAGE, this.toBaseUnits(EPHEMERAL_STORAGE, bytes, ''), 'DecimalSI');
+    }
+}
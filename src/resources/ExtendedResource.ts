@@ -0,0 +1,93 @@
+import { InvalidArgumentError, ParseResult, ResourceError } from '../errors';
+import { ScalarResource } from './ScalarResource';
+import { ResourceKind, createResourceKind } from './units';
+
+/** A qualified resource name with a DNS subdomain prefix, e.g. "nvidia.com/gpu". */
+const QUALIFIED_NAME = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?(\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)*\/([A-Za-z0-9][-A-Za-z0-9_.]*)?[A-Za-z0-9]$/;
+
+/**
+ * Represents the value of a Kubernetes extended resource, such as `nvidia.com/gpu` or `example.com/foo`.
+ *
+ * Extended resources are advertised by device plugins or cluster operators and counted in whole units:
+ * fractional values are rejected. They cannot be overcommitted either, so the API server requires
+ * container requests to equal limits; see {@link validateContainerResources}. Values of different
+ * extended resources cannot be combined.
+ *
+ * @example
+ * ```typescript
+ * const gpus = new ExtendedResource('nvidia.com/gpu', '2').times(4);
+ * gpus.toString();                                 // "8"
+ * new ExtendedResource('nvidia.com/gpu', '500m');  // throws "Extended resources must be whole numbers"
+ * ```
+ */
+export class ExtendedResource extends ScalarResource {
+    private declare readonly brand: 'extended';
+
+    /** The kinds of the extended resources seen so far, by name. */
+    private static KINDS = new Map<string, ResourceKind>();
+
+    /**
+     * Checks if a name is an extended resource name, like `IsExtendedResourceName`: a qualified name
+     * with a domain prefix outside of `kubernetes.io`.
+     * @param name - The resource name
+     * @returns true for names such as "nvidia.com/gpu"
+     */
+    static isExtendedResourceName(name: string): boolean {
+      return QUALIFIED_NAME.test(name) && !name.includes('kubernetes.io/') && name.length - name.indexOf('/') - 1 <= 63;
+    }
+
+    /**
+     * Creates a new extended resource value from a string representation.
+     * @param name - The resource name, e.g. "nvidia.com/gpu"
+     * @param resource - A string representing the count (e.g., "2" or "1k")
+     * @throws {InvalidArgumentError} If the name is not an extended resource name
+     * @throws {ResourceParseError} If the format or unit is invalid
+     * @throws {NegativeResourceError} If the value is negative
+     * @throws {OverflowError} If the value exceeds 2^63-1
+     * @throws {PrecisionError} If the value is not a whole number
+     */
+    constructor(name: string, resource: string) {
+      super(ExtendedResource.kindOf(name), resource);
+    }
+
+    /**
+     * Returns the kind of an extended resource: whole counts without a base unit.
+     * @param name - The resource name
+     * @throws {InvalidArgumentError} If the name is not an extended resource name
+     */
+    private static kindOf(name: string): ResourceKind {
+      if (!ExtendedResource.isExtendedResourceName(name)) {
+        throw new InvalidArgumentError(`Invalid extended resource name "${name}". Must be a domain-prefixed name outside kubernetes.io, e.g. nvidia.com/gpu`);
+      }
+      let kind = ExtendedResource.KINDS.get(name);
+      if (!kind) {
+        kind = createResourceKind({ name, label: "Extended" });
+        ExtendedResource.KINDS.set(name, kind);
+      }
+      return kind;
+    }
+
+    /**
+     * Parses an extended resource value without throwing.
+     * @param name - The resource name, e.g. "nvidia.com/gpu"
+     * @param resource - A string representing the count (e.g., "2")
+     * @returns The resource, or the {@link ResourceError} the constructor would have thrown
+     */
+    static tryParse(name: string, resource: string): ParseResult<ExtendedResource> {
+      try {
+        return { ok: true, value: new ExtendedResource(name, resource) };
+      } catch (error) {
+        if (error instanceof ResourceError) return { ok: false, error };
+        throw error;
+      }
+    }
+
+    /**
+     * Creates an extended resource value of zero.
+     * @param name - The resource name, e.g. "nvidia.com/gpu"
+     * @returns A new ExtendedResource instance
+     */
+    static zero(name: string): ExtendedResource {
+      return new ExtendedResource(name, '0');
+    }
+}
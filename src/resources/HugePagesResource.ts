@@ -0,0 +1,98 @@
+import { InvalidArgumentError, ParseResult, ResourceError } from '../errors';
+import { parseQuantity, scaleQuantity } from './quantity';
+import { ScalarResource } from './ScalarResource';
+import { ResourceKind, createResourceKind } from './units';
+import { MemoryResource } from './MemoryResource';
+
+/**
+ * Represents a Kubernetes `hugepages-<size>` resource value, such as `hugepages-2Mi` or `hugepages-1Gi`.
+ *
+ * Values are stored exactly as a BigInt number of bytes and, like the API server requires, must be a
+ * whole number of pages. Values of different page sizes cannot be combined.
+ *
+ * @example
+ * ```typescript
+ * const pages = new HugePagesResource('hugepages-2Mi', '64Mi');
+ * pages.pages();                                     // 32n
+ * pages.times(1.5).toString();                       // "96Mi"
+ * new HugePagesResource('hugepages-2Mi', '3Mi');     // throws "3Mi is not positive integer multiple of 2Mi"
+ * ```
+ */
+export class HugePagesResource extends ScalarResource {
+    private declare readonly brand: 'hugepages';
+
+    /** The kinds of the page sizes seen so far, by resource name. */
+    private static KINDS = new Map<string, ResourceKind>();
+
+    /**
+     * Returns the kind of a hugepages resource: bytes in multiples of the page size named by the
+     * resource name, like `HugePageSizeFromResourceName`.
+     * @param name - The resource name, e.g. "hugepages-2Mi"
+     * @throws {InvalidArgumentError} If the name is not `hugepages-` followed by a positive quantity
+     */
+    private static kindOf(name: string): ResourceKind {
+      let kind = HugePagesResource.KINDS.get(name);
+      if (kind) return kind;
+      const parsed = name.startsWith('hugepages-') ? parseQuantity(name.slice('hugepages-'.length)) : undefined;
+      const size = parsed?.ok && !parsed.quantity.negative ? scaleQuantity(parsed.quantity, 0) : undefined;
+      if (!size?.exact || size.value === 0n) {
+        throw new InvalidArgumentError(`Invalid hugepages resource name "${name}". Must be hugepages-<page size>, e.g. hugepages-2Mi`);
+      }
+      kind = createResourceKind({ name, label: "Hugepages", baseUnit: "bytes", granularity: size.value });
+      HugePagesResource.KINDS.set(name, kind);
+      return kind;
+    }
+
+    /**
+     * Creates a new hugepages resource from a string representation.
+     * @param name - The resource name, e.g. "hugepages-2Mi"
+     * @param resource - A string representing the amount of memory (e.g., "64Mi" or "1Gi")
+     * @throws {InvalidArgumentError} If the name is not a valid hugepages resource name
+     * @throws {ResourceParseError} If the format or unit is invalid
+     * @throws {NegativeResourceError} If the value is negative
+     * @throws {OverflowError} If the value exceeds 2^63-1 bytes
+     * @throws {PrecisionError} If the value is not a whole number of pages
+     */
+    constructor(name: string, resource: string) {
+      super(HugePagesResource.kindOf(name), resource);
+    }
+
+    /**
+     * Parses a hugepages resource without throwing.
+     * @param name - The resource name, e.g. "hugepages-2Mi"
+     * @param resource - A string representing the amount of memory (e.g., "64Mi")
+     * @returns The resource, or the {@link ResourceError} the constructor would have thrown
+     */
+    static tryParse(name: string, resource: string): ParseResult<HugePagesResource> {
+      try {
+        return { ok: true, value: new HugePagesResource(name, resource) };
+      } catch (error) {
+        if (error instanceof ResourceError) return { ok: false, error };
+        throw error;
+      }
+    }
+
+    /**
+     * Creates a hugepages resource with zero bytes.
+     * @param name - The resource name, e.g. "hugepages-2Mi"
+     * @returns A new HugePagesResource instance
+     */
+    static zero(name: string): HugePagesResource {
+      return new HugePagesResource(name, '0');
+    }
+
+    /**
+     * The size of one page.
+     */
+    get pageSize(): MemoryResource {
+      return MemoryResource.fromBytes(this.kind.granularity);
+    }
+
+    /**
+     * Returns the number of pages.
+     * @returns The number of pages as a BigInt
+     */
+    pages(): bigint {
+      return this.toBigInt() / this.kind.granularity;
+    }
+}
@@ -1,3 +1,21 @@
+import { ParseResult, ResourceError } from '../errors';
+import { RoundingOptions } from './arithmetic';
+import { ScalarResource } from './ScalarResource';
+import { defineResourceKind } from './units';
+
+/**
+ * Memory is stored in bytes and accepts every Kubernetes quantity suffix, and "B" as an explicit
+ * bytes suffix in addition to the Kubernetes grammar.
+ */
+const MEMORY = defineResourceKind({
+  name: 'memory',
+  label: 'Memory',
+  baseUnit: 'bytes',
+  suffixes: { B: 1 },
+  unitHint: "one of: B, Ki, Mi, Gi, Ti, Pi, Ei, n, u, m, k, M, G, T, P, E, or a decimal exponent (e.g., '1e9')",
+  formatHint: "a number followed by an optional unit (e.g., '128Mi' or '1Gi')",
+});
+
 /**
  * Represents a Kubernetes memory resource value.
  * Memory resources are measured in bytes and can be specified using binary (power of 2) units:
@@ -5,91 +23,53 @@
  * - Mi = 1024 KiB
  * - Gi = 1024 MiB
  * - Ti = 1024 GiB
- * 
+ * - Pi = 1024 TiB
+ * - Ei = 1024 PiB
+ *
+ * Decimal (power of 10) units (k, M, G, T, P, E) and decimal exponents (e.g., "1e9") are
+ * accepted as well, following the quantity grammar of the Kubernetes API server.
+ *
+ * Values are stored exactly as a BigInt number of bytes and may not exceed 2^63-1 bytes,
+ * the largest value Kubernetes can represent. Arithmetic, rounding and comparison are inherited
+ * from {@link ScalarResource}.
+ *
  * @example
  * ```typescript
  * const mem1 = new MemoryResource('128Mi');  // 128 mebibytes
  * const mem2 = new MemoryResource('1Gi');    // 1 gibibyte
- * const sum = mem1.plus(mem2);               // 1.125Gi
+ * const sum = mem1.plus(mem2);               // 1152Mi
  * ```
  */
-export class MemoryResource {
-    private value: number; // Stored in bytes
-  
-    private static UNITS = { "Ki": 1024, "Mi": 1024 ** 2, "Gi": 1024 ** 3, "Ti": 1024 ** 4 };
+export class MemoryResource extends ScalarResource {
+    private declare readonly brand: 'memory';
 
-    /**
-     * Validates that a byte value is valid according to Kubernetes rules.
-     * @param bytes - The number of bytes to validate
-     * @throws {Error} If the value is negative, non-finite, or fractional
-     */
-    private static validateBytes(bytes: number): void {
-      if (bytes < 0) {
-        throw new Error("Memory resources cannot be negative");
-      }
-      if (!Number.isFinite(bytes)) {
-        throw new Error("Memory resources must be finite numbers");
-      }
-      if (Math.floor(bytes) !== bytes) {
-        throw new Error("Memory resources must be whole numbers of bytes");
-      }
-    }
-  
     /**
      * Creates a new memory resource from a string representation.
-     * @param resource - A string representing the memory resource (e.g., "128Mi" or "1Gi")
-     * @throws {Error} If the format is invalid or the value is invalid
+     * @param resource - A string representing the memory resource (e.g., "128Mi", "1G" or "1Gi")
+     * @param options - How to round values that are not whole bytes (by default `ceil`, like the API server),
+     * or to a coarser granularity. Without options, such values are rejected.
+     * @throws {ResourceParseError} If the format or unit is invalid
+     * @throws {NegativeResourceError} If the value is negative
+     * @throws {OverflowError} If the value exceeds 2^63-1 bytes
+     * @throws {PrecisionError} If the value is not a whole number of bytes and no rounding is given
      */
-    constructor(resource: string) {
-      if (resource.startsWith('-')) {
-        throw new Error("Memory resources cannot be negative");
-      }
-
-      const match = resource.match(/^(\d+(\.\d+)?)([a-zA-Z]*)$/);
-      if (!match) throw new Error("Invalid memory resource format. Must be a number followed by an optional unit (e.g., '128Mi' or '1Gi')");
-      
-      let [, num, , unit] = match;
-      const multiplier = MemoryResource.UNITS[unit as keyof typeof MemoryResource.UNITS];
-      if (unit && !multiplier && unit !== 'B') {
-        throw new Error("Invalid memory unit. Must be one of: B, Ki, Mi, Gi, Ti");
-      }
-
-      const value = parseFloat(num) * (multiplier || 1);
-      MemoryResource.validateBytes(value);
-      this.value = value;
+    constructor(resource: string, options?: RoundingOptions<MemoryResource>) {
+      super(MEMORY, resource, options);
     }
-  
+
     /**
-     * Formats a byte value into a human-readable string using the most appropriate unit.
-     * @param value - The number of bytes to format
-     * @returns A string representation in the most appropriate unit
-     */
-    private format(value: number): string {
-      const units = ["Gi", "Mi", "Ki"];
-      for (const unit of units) {
-        const unitValue = MemoryResource.UNITS[unit as keyof typeof MemoryResource.UNITS];
-        if (value >= unitValue) {
-          return `${value / unitValue}${unit}`;
-        }
+     * Parses a memory resource without throwing, e.g. to validate many values and collect the errors.
+     * @param resource - A string representing the memory resource (e.g., '512Mi')
+     * @param options - Rounding options, as for the constructor
+     * @returns The resource, or the {@link ResourceError} the constructor would have thrown
+     */
+    static tryParse(resource: string, options?: RoundingOptions<MemoryResource>): ParseResult<MemoryResource> {
+      try {
+        return { ok: true, value: new MemoryResource(resource, options) };
+      } catch (error) {
+        if (error instanceof ResourceError) return { ok: false, error };
+        throw error;
       }
-      return `${value}B`; // Default to bytes if too small
-    }
-  
-    /**
-     * Returns the numeric value of the resource in bytes.
-     * This enables direct numeric comparisons and arithmetic operations.
-     */
-    valueOf(): number {
-      return this.value;
-    }
-  
-    /**
-     * Implements the Symbol.toPrimitive protocol to enable automatic type conversion.
-     * @param hint - The type hint ("string", "number", or "default")
-     * @returns The primitive value
-     */
-    [Symbol.toPrimitive](hint: string) {
-      return hint === "string" ? this.format(this.value) : this.value;
     }
 
     /**
@@ -102,121 +82,45 @@ export class MemoryResource {
 
     /**
      * Creates a memory resource from a number of bytes.
-     * @param bytes - The number of bytes
+     * @param bytes - The number of bytes, as a number or an exact BigInt
+     * @param options - How to round values that are not whole bytes; without options they are rejected
      * @returns A new MemoryResource instance
      * @throws {Error} If the value is invalid
      */
-    static fromBytes(bytes: number): MemoryResource {
-      this.validateBytes(bytes);
-      return new MemoryResource(`${bytes}B`);
+    static fromBytes(bytes: number | bigint, options?: RoundingOptions<MemoryResource>): MemoryResource {
+      return this.create(MEMORY, this.toBaseUnits(MEMORY, bytes, 'B', options), 'BinarySI');
     }
 
     /**
      * Creates a memory resource from a number of kibibytes.
      * @param kib - The number of kibibytes
+     * @param options - How to round values that are not whole bytes; without options they are rejected
      * @returns A new MemoryResource instance
      * @throws {Error} If the value is invalid
      */
-    static fromKiB(kib: number): MemoryResource {
-      this.validateBytes(kib * 1024);
-      return new MemoryResource(`${kib}Ki`);
+    static fromKiB(kib: number, options?: RoundingOptions<MemoryResource>): MemoryResource {
+      return this.create(MEMORY, this.toBaseUnits(MEMORY, kib, 'Ki', options), 'BinarySI');
     }
 
     /**
      * Creates a memory resource from a number of mebibytes.
      * @param mib - The number of mebibytes
+     * @param options - How to round values that are not whole bytes; without options they are rejected
      * @returns A new MemoryResource instance
      * @throws {Error} If the value is invalid
      */
-    static fromMiB(mib: number): MemoryResource {
-      this.validateBytes(mib * 1024 * 1024);
-      return new MemoryResource(`${mib}Mi`);
+    static fromMiB(mib: number, options?: RoundingOptions<MemoryResource>): MemoryResource {
+      return this.create(MEMORY, this.toBaseUnits(MEMORY, mib, 'Mi', options), 'BinarySI');
     }
 
     /**
      * Creates a memory resource from a number of gibibytes.
      * @param gib - The number of gibibytes
+     * @param options - How to round values that are not whole bytes; without options they are rejected
      * @returns A new MemoryResource instance
      * @throws {Error} If the value is invalid
      */
-    static fromGiB(gib: number): MemoryResource {
-      this.validateBytes(gib * 1024 * 1024 * 1024);
-      return new MemoryResource(`${gib}Gi`);
-    }
-
-    /**
-     * Adds another memory resource to this one.
-     * @param other - The memory resource to add
-     * @returns A new MemoryResource instance with the sum
-     */
-    plus(other: MemoryResource): MemoryResource {
-      const result = MemoryResource.zero();
-      result.value = this.value + other.value;
-      MemoryResource.validateBytes(result.value);
-      return result;
-    }
-
-    /**
-     * Subtracts another memory resource from this one.
-     * @param other - The memory resource to subtract
-     * @returns A new MemoryResource instance with the difference
-     * @throws {Error} If the result would be negative
-     */
-    minus(other: MemoryResource): MemoryResource {
-      const result = MemoryResource.zero();
-      result.value = this.value - other.value;
-      MemoryResource.validateBytes(result.value);
-      return result;
-    }
-
-    /**
-     * Multiplies this memory resource by a factor.
-     * @param factor - The multiplication factor
-     * @returns A new MemoryResource instance with the product
-     * @throws {Error} If the factor is invalid or the result would be negative
-     */
-    times(factor: number): MemoryResource {
-      if (!Number.isFinite(factor)) {
-        throw new Error("Multiplication factor must be a finite number");
-      }
-      const result = MemoryResource.zero();
-      result.value = Math.floor(this.value * factor);
-      MemoryResource.validateBytes(result.value);
-      return result;
-    }
-
-    /**
-     * Checks if this memory resource equals another.
-     * @param other - The memory resource to compare with
-     * @returns true if the resources are equal
-     */
-    equals(other: MemoryResource): boolean {
-      return this.value === other.value;
-    }
-
-    /**
-     * Checks if this memory resource is less than another.
-     * @param other - The memory resource to compare with
-     * @returns true if this resource is less than the other
-     */
-    isLessThan(other: MemoryResource): boolean {
-      return this.value < other.value;
-    }
-
-    /**
-     * Checks if this memory resource is greater than another.
-     * @param other - The memory resource to compare with
-     * @returns true if this resource is greater than the other
-     */
-    isGreaterThan(other: MemoryResource): boolean {
-      return this.value > other.value;
-    }
-
-    /**
-     * Returns a string representation of the memory resource.
-     * @returns A human-readable string in the most appropriate unit
-     */
-    toString(): string {
-      return this.format(this.value);
+    static fromGiB(gib: number, options?: RoundingOptions<MemoryResource>): MemoryResource {
+      return this.create(MEMORY, this.toBaseUnits(MEMORY, gib, 'Gi', options), 'BinarySI');
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,130 @@
+import { ScalarResource } from './ScalarResource';
+import { ResourceKind } from './units';
+
+/**
+ * A signed change of a resource, such as the difference between the requests of two revisions of a
+ * workload. Resources themselves cannot be negative, so {@link ScalarResource.minus} throws where
+ * a decrease is a valid result; a delta holds the size of the change as a resource and its sign.
+ *
+ * Deltas print with their sign in the canonical format of the resource, e.g. "+1500m" or "-3Gi",
+ * and serialize to JSON the same way.
+ *
+ * @example
+ * ```typescript
+ * const delta = ResourceDelta.between(new MemoryResource('4Gi'), new MemoryResource('1Gi'));
+ * delta.toString();  // "-3Gi"
+ * delta.sign();      // -1
+ * delta.plus(ResourceDelta.between(new MemoryResource('0'), new MemoryResource('1Gi'))).toString();  // "-2Gi"
+ * ```
+ */
+export class ResourceDelta<T extends ScalarResource = ScalarResource> {
+    private readonly magnitude: T;
+    private readonly negative: boolean;
+
+    /**
+     * Creates a delta from its size and sign.
+     * @param magnitude - The size of the change
+     * @param negative - Whether the change is a decrease
+     */
+    private constructor(magnitude: T, negative: boolean) {
+      this.magnitude = magnitude;
+      this.negative = negative && magnitude.toBigInt() !== 0n;
+    }
+
+    /**
+     * Returns the change from one value of a resource to another.
+     * @param before - The old value
+     * @param after - The new value
+     * @returns The signed difference `after - before`
+     * @throws {UnitMismatchError} If the values are of different kinds
+     */
+    static between<T extends ScalarResource>(before: T, after: T): ResourceDelta<T> {
+      return after.isLessThan(before)
+        ? new ResourceDelta(before.minus(after), true)
+        : new ResourceDelta(after.minus(before), false);
+    }
+
+    /**
+     * The kind of resource that changed.
+     */
+    get kind(): ResourceKind {
+      return this.magnitude.kind;
+    }
+
+    /**
+     * The name of the resource that changed, e.g. "cpu" or "nvidia.com/gpu".
+     */
+    get name(): string {
+      return this.magnitude.name;
+    }
+
+    /**
+     * Returns the direction of the change.
+     * @returns -1 for a decrease, 1 for an increase and 0 for no change
+     */
+    sign(): -1 | 0 | 1 {
+      if (this.isZero()) return 0;
+      return this.negative ? -1 : 1;
+    }
+
+    /**
+     * Checks if the resource did not change.
+     */
+    isZero(): boolean {
+      return this.magnitude.toBigInt() === 0n;
+    }
+
+    /**
+     * Returns the size of the change, regardless of its direction.
+     * @returns The absolute value as a resource
+     */
+    abs(): T {
+      return this.magnitude;
+    }
+
+    /**
+     * Returns the exact change in base units (millicores for CPU, bytes for memory).
+     * @returns The signed number of base units as a BigInt
+     */
+    toBigInt(): bigint {
+      return this.negative ? -this.magnitude.toBigInt() : this.magnitude.toBigInt();
+    }
+
+    /**
+     * Adds another change of the same resource to this one.
+     * @param other - The change to add
+     * @returns A new delta with the combined change
+     * @throws {Error} If the kinds differ or the result would overflow
+     */
+    plus(other: ResourceDelta<T>): ResourceDelta<T> {
+      if (this.negative === other.negative) {
+        return new ResourceDelta(this.magnitude.plus(other.magnitude), this.negative);
+      }
+      return this.magnitude.isLessThan(other.magnitude)
+        ? new ResourceDelta(other.magnitude.minus(this.magnitude), other.negative)
+        : new ResourceDelta(this.magnitude.minus(other.magnitude), this.negative);
+    }
+
+    /**
+     * Returns the opposite change.
+     * @returns A new delta of the same size in the other direction
+     */
+    negated(): ResourceDelta<T> {
+      return new ResourceDelta(this.magnitude, !this.negative);
+    }
+
+    /**
+     * Returns the change with its sign, e.g. "+250m", "-1Gi", or "0" for no change.
+     */
+    toString(): string {
+      if (this.isZero()) return '0';
+      return `${this.negative ? '-' : '+'}${this.magnitude}`;
+    }
+
+    /**
+     * Serializes the delta as its string representation.
+     */
+    toJSON(): string {
+      return this.toString();
+    }
+}
@@ -0,0 +1,386 @@
+import { UnitMismatchError } from '../errors';
+import { CPUResource } from './CPUResource';
+import { CountResource } from './CountResource';
+import { MemoryResource } from './MemoryResource';
+import { EphemeralStorageResource } from './EphemeralStorageResource';
+import { HugePagesResource } from './HugePagesResource';
+import { ExtendedResource } from './ExtendedResource';
+import { ScalarResource } from './ScalarResource';
+
+/**
+ * A single value in a {@link ResourceList}.
+ */
+export type ResourceQuantity =
+  | CPUResource | MemoryResource | EphemeralStorageResource | HugePagesResource | ExtendedResource | CountResource;
+
+/**
+ * The resource classes, by the kind of resource they hold.
+ */
+const KINDS = {
+  cpu: CPUResource,
+  'ephemeral-storage': EphemeralStorageResource,
+  hugepages: HugePagesResource,
+  extended: ExtendedResource,
+  count: CountResource,
+  memory: MemoryResource,
+};
+
+/** The quota names of object counts besides `count/<resource>`. */
+const COUNT_NAMES = [
+  'pods', 'services', 'services.loadbalancers', 'services.nodeports', 'configmaps', 'secrets',
+  'persistentvolumeclaims', 'replicationcontrollers', 'resourcequotas',
+];
+
+/**
+ * Returns the kind of resource a name holds. Quota names such as `requests.cpu` or
+ * `limits.nvidia.com/gpu` hold the kind of the resource they constrain. Object counts such as
+ * `pods` or `count/services` are counts.
+ * @param name - The resource name
+ * @returns The kind, and the name of the resource without a quota prefix
+ */
+function kindOf(name: string): { kind: keyof typeof KINDS; resource: string } {
+  const resource = name.replace(/^(requests|limits)\./, '');
+  if (resource === 'cpu') return { kind: 'cpu', resource };
+  if (resource === 'ephemeral-storage') return { kind: 'ephemeral-storage', resource };
+  if (resource.startsWith('hugepages-')) return { kind: 'hugepages', resource };
+  if (resource.startsWith('count/') || COUNT_NAMES.includes(resource) || resource.endsWith('.storageclass.storage.k8s.io/persistentvolumeclaims')) {
+    return { kind: 'count', resource };
+  }
+  if (ExtendedResource.isExtendedResourceName(resource)) return { kind: 'extended', resource };
+  return { kind: 'memory', resource };
+}
+
+/**
+ * Parses or validates a value for the given resource name.
+ * @param name - The resource name
+ * @param value - The quantity string or resource instance
+ * @throws {Error} If the value cannot be parsed or is the wrong kind of resource
+ */
+function toQuantity(name: string, value: string | ResourceQuantity): ResourceQuantity {
+  const { kind, resource } = kindOf(name);
+  if (typeof value === 'string') {
+    switch (kind) {
+      case 'cpu': return new CPUResource(value);
+      case 'ephemeral-storage': return new EphemeralStorageResource(value);
+      case 'hugepages': return new HugePagesResource(resource, value);
+      case 'extended': return new ExtendedResource(resource, value);
+      case 'count': return new CountResource(value);
+      case 'memory': return new MemoryResource(value);
+    }
+  }
+  const type = KINDS[kind];
+  if (!(value instanceof type)) {
+    throw new UnitMismatchError(`Resource ${name} must be ${/^[AEIOU]/.test(type.name) ? 'an' : 'a'} ${type.name}`);
+  }
+  if ((value instanceof HugePagesResource || value instanceof ExtendedResource) && value.name !== resource) {
+    throw new UnitMismatchError(`Resource ${name} must be a ${resource} value, not ${value.name}`);
+  }
+  return value;
+}
+
+/**
+ * Returns a zero value of the kind used for the given resource name.
+ * @param name - The resource name
+ */
+function zeroFor(name: string): ResourceQuantity {
+  return toQuantity(name, '0');
+}
+
+/**
+ * Adds or subtracts two values of the same resource kind.
+ * @param a - The left operand
+ * @param b - The right operand
+ * @param subtract - Whether to subtract instead of add
+ */
+function combine(a: ResourceQuantity, b: ResourceQuantity, subtract: boolean): ResourceQuantity {
+  if (a instanceof CPUResource && b instanceof CPUResource) {
+    return subtract ? a.minus(b) : a.plus(b);
+  }
+  if (a instanceof MemoryResource && b instanceof MemoryResource) {
+    return subtract ? a.minus(b) : a.plus(b);
+  }
+  if (a instanceof ScalarResource && b instanceof ScalarResource) {
+    // Mismatched scalar resources are rejected by plus and minus themselves
+    const scalar: ScalarResource = a;
+    return (subtract ? scalar.minus(b) : scalar.plus(b)) as ResourceQuantity;
+  }
+  throw new UnitMismatchError(`Cannot combine ${a.constructor.name} and ${b.constructor.name} resources`);
+}
+
+/**
+ * Compares two values of the same resource kind.
+ * @returns A negative number, zero or a positive number as `a` is less than, equal to or greater than `b`
+ */
+function compare(a: ResourceQuantity, b: ResourceQuantity): number {
+  const difference = a.toBigInt() - b.toBigInt();
+  return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+}
+
+/**
+ * Represents a Kubernetes `ResourceList`: a map from resource names (`cpu`, `memory`,
+ * `ephemeral-storage`, `hugepages-2Mi`, `nvidia.com/gpu`, ...) to quantities.
+ *
+ * Each value is held as the class of its resource: {@link CPUResource} for `cpu`,
+ * {@link EphemeralStorageResource} for `ephemeral-storage`, {@link HugePagesResource} for
+ * `hugepages-<size>`, {@link ExtendedResource} for extended resources such as `nvidia.com/gpu` and
+ * {@link CountResource} for object counts such as `pods` or `count/services`. Quota names such as
+ * `requests.cpu` or `limits.nvidia.com/gpu` hold the class of the resource they constrain. All other
+ * resources (`memory`, and storage such as `requests.storage`) are held as {@link MemoryResource}.
+ *
+ * Map-wise operations follow the semantics of the Kubernetes quota helpers (`quota.Add`,
+ * `quota.Subtract`, `quota.Max`, `quota.LessThanOrEqual`). Like the resource classes,
+ * resource lists are immutable.
+ *
+ * @example
+ * ```typescript
+ * const requests = new ResourceList({ cpu: '100m', memory: '1Gi' });
+ * const total = requests.plus(new ResourceList({ cpu: '1', 'nvidia.com/gpu': '1' }));
+ * total.toJSON();  // { cpu: '1100m', memory: '1Gi', 'nvidia.com/gpu': '1' }
+ * ```
+ */
+export class ResourceList {
+    private resources: Map<string, ResourceQuantity>;
+
+    /**
+     * Creates a new resource list.
+     * @param resources - A plain object of resource names to quantity strings or resource instances
+     * @throws {Error} If a value cannot be parsed or is the wrong kind for its name
+     */
+    constructor(resources: Record<string, string | ResourceQuantity> = {}) {
+      this.resources = new Map();
+      for (const [name, value] of Object.entries(resources)) {
+        this.resources.set(name, toQuantity(name, value));
+      }
+    }
+
+    /**
+     * Creates a resource list from already validated entries.
+     * @param entries - The resource names and values
+     */
+    private static of(entries: Iterable<[string, ResourceQuantity]>): ResourceList {
+      const result = new ResourceList();
+      result.resources = new Map(entries);
+      return result;
+    }
+
+    /**
+     * Returns the number of resources in the list.
+     */
+    get size(): number {
+      return this.resources.size;
+    }
+
+    /**
+     * Returns the names of the resources in the list, in insertion order.
+     */
+    names(): string[] {
+      return [...this.resources.keys()];
+    }
+
+    /**
+     * Checks if the list contains a resource.
+     * @param name - The resource name
+     */
+    has(name: string): boolean {
+      return this.resources.has(name);
+    }
+
+    /**
+     * Returns the value of a resource.
+     * @param name - The resource name
+     * @returns The value, or undefined if the resource is not in the list
+     */
+    get(name: string): ResourceQuantity | undefined {
+      return this.resources.get(name);
+    }
+
+    /**
+     * Returns the CPU value of the list.
+     * @param name - The CPU resource name
+     * @returns The CPU value, or zero if not set
+     */
+    cpu(name = 'cpu'): CPUResource {
+      const value = this.resources.get(name);
+      return value instanceof CPUResource ? value : CPUResource.zero();
+    }
+
+    /**
+     * Returns the memory value of the list.
+     * @param name - The memory resource name
+     * @returns The memory value, or zero if not set
+     */
+    memory(name = 'memory'): MemoryResource {
+      const value = this.resources.get(name);
+      return value instanceof MemoryResource ? value : MemoryResource.zero();
+    }
+
+    /**
+     * Returns a copy of the list with one resource set.
+     * @param name - The resource name
+     * @param value - The quantity string or resource instance
+     * @returns A new ResourceList instance
+     */
+    with(name: string, value: string | ResourceQuantity): ResourceList {
+      const result = ResourceList.of(this.resources);
+      result.resources.set(name, toQuantity(name, value));
+      return result;
+    }
+
+    /**
+     * Returns a copy of the list without the given resources.
+     * @param names - The resource names to remove
+     * @returns A new ResourceList instance
+     */
+    without(...names: string[]): ResourceList {
+      return ResourceList.of([...this.resources].filter(([name]) => !names.includes(name)));
+    }
+
+    /**
+     * Adds another resource list to this one, like `quota.Add`.
+     * Resources present in only one list are copied.
+     * @param other - The resource list to add
+     * @returns A new ResourceList instance with the sums
+     */
+    plus(other: ResourceList): ResourceList {
+      const result = ResourceList.of(this.resources);
+      for (const [name, value] of other.resources) {
+        const current = result.resources.get(name);
+        result.resources.set(name, current ? combine(current, value, false) : value);
+      }
+      return result;
+    }
+
+    /**
+     * Subtracts another resource list from this one, like `quota.Subtract`.
+     * Resources missing from this list are treated as zero.
+     * @param other - The resource list to subtract
+     * @returns A new ResourceList instance with the differences
+     * @throws {Error} If any difference would be negative
+     */
+    minus(other: ResourceList): ResourceList {
+      const result = ResourceList.of(this.resources);
+      for (const [name, value] of other.resources) {
+        result.resources.set(name, combine(result.resources.get(name) ?? zeroFor(name), value, true));
+      }
+      return result;
+    }
+
+    /**
+     * Multiplies every resource by a factor, e.g. to scale pod requests by a replica count.
+     * @param factor - The multiplication factor
+     * @returns A new ResourceList instance with the products
+     * @throws {Error} If the factor is invalid or a result would be negative
+     */
+    times(factor: number): ResourceList {
+      return ResourceList.of([...this.resources].map(([name, value]) => [name, value.times(factor)]));
+    }
+
+    /**
+     * Returns the larger value of each resource, like `quota.Max`.
+     * Resources present in only one list are copied.
+     * @param other - The resource list to compare with
+     * @returns A new ResourceList instance with the maximums
+     */
+    max(other: ResourceList): ResourceList {
+      const result = ResourceList.of(this.resources);
+      for (const [name, value] of other.resources) {
+        const current = result.resources.get(name);
+        if (!current || compare(current, value) <= 0) {
+          result.resources.set(name, value);
+        }
+      }
+      return result;
+    }
+
+    /**
+     * Returns the smaller value of each resource present in both lists.
+     * A resource missing from either list has no upper bound there and is left out of the result.
+     * @param other - The resource list to compare with
+     * @returns A new ResourceList instance with the minimums
+     */
+    min(other: ResourceList): ResourceList {
+      const entries: [string, ResourceQuantity][] = [];
+      for (const [name, value] of this.resources) {
+        const otherValue = other.resources.get(name);
+        if (otherValue) {
+          entries.push([name, compare(value, otherValue) <= 0 ? value : otherValue]);
+        }
+      }
+      return ResourceList.of(entries);
+    }
+
+    /**
+     * Returns the names of resources whose value exceeds the corresponding value in `limits`.
+     * Resources that `limits` does not mention are unconstrained.
+     * @param limits - The resource list to compare with
+     */
+    exceeded(limits: ResourceList): string[] {
+      return [...this.resources]
+        .filter(([name, value]) => {
+          const limit = limits.resources.get(name);
+          return limit !== undefined && compare(value, limit) > 0;
+        })
+        .map(([name]) => name);
+    }
+
+    /**
+     * Checks if every resource is at most the corresponding value in `limits`, like `quota.LessThanOrEqual`.
+     * Resources that `limits` does not mention are unconstrained.
+     * @param limits - The resource list to compare with
+     * @returns true if no resource exceeds its limit
+     */
+    fits(limits: ResourceList): boolean {
+      return this.exceeded(limits).length === 0;
+    }
+
+    /**
+     * Checks if every resource in this list is present in `other` with at least the same value.
+     * Unlike {@link fits}, resources missing from `other` count as zero.
+     * @param other - The resource list to compare with
+     * @returns true if this list is contained in the other
+     */
+    isSubsetOf(other: ResourceList): boolean {
+      return [...this.resources].every(([name, value]) => {
+        const otherValue = other.resources.get(name);
+        return otherValue ? compare(value, otherValue) <= 0 : value.toBigInt() === 0n;
+      });
+    }
+
+    /**
+     * Returns the required resource names that are not present in this list.
+     * @param required - A resource list or the names of the required resources
+     */
+    missingKeys(required: ResourceList | string[]): string[] {
+      const names = required instanceof ResourceList ? required.names() : required;
+      return names.filter(name => !this.resources.has(name));
+    }
+
+    /**
+     * Checks if every resource in the list is zero, like `quota.IsZero`.
+     * @returns true if the list is empty or all values are zero
+     */
+    isZero(): boolean {
+      return [...this.resources.values()].every(value => value.toBigInt() === 0n);
+    }
+
+    /**
+     * Checks if this list has the same resources and values as another, like `quota.Equals`.
+     * @param other - The resource list to compare with
+     * @returns true if the lists are equal
+     */
+    equals(other: ResourceList): boolean {
+      return this.size === other.size &&
+        [...this.resources].every(([name, value]) => {
+          const otherValue = other.resources.get(name);
+          return otherValue !== undefined && compare(value, otherValue) === 0;
+        });
+    }
+
+    /**
+     * Returns the list as a plain object of canonical quantity strings,
+     * in the shape used by Kubernetes manifests.
+     */
+    toJSON(): Record<string, string> {
+      return Object.fromEntries([...this.resources].map(([name, value]) => [name, value.toString()]));
+    }
+}
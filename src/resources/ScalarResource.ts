@@ -0,0 +1,468 @@
+import {
+  InvalidArgumentError, NegativeResourceError, OverflowError, PrecisionError, ResourceParseError, UnitMismatchError,
+} from '../errors';
+import { ParsedQuantity, QuantityFormat, formatQuantity, parseQuantity, quantityFraction, scaleQuantity } from './quantity';
+import { Fraction, MAX_RESOURCE_VALUE, RoundingMode, RoundingOptions, formatFraction, roundFraction, toFraction } from './arithmetic';
+import { ResourceKind, unitSize } from './units';
+
+/**
+ * Returns the label of a kind as used inside a sentence: "Memory" becomes "memory", while
+ * abbreviations such as "CPU" are kept.
+ * @param kind - The kind
+ */
+function noun(kind: ResourceKind): string {
+  return /^.[A-Z]/.test(kind.label) ? kind.label : kind.label[0].toLowerCase() + kind.label.slice(1);
+}
+
+/**
+ * Returns the greatest common divisor of two positive integers.
+ */
+function gcd(a: bigint, b: bigint): bigint {
+  while (b !== 0n) [a, b] = [b, a % b];
+  return a;
+}
+
+/**
+ * The base of all resource classes: an exact, non-negative whole number of the base units of a
+ * {@link ResourceKind}, such as millicores of CPU, bytes of memory or counts of devices.
+ *
+ * The kind decides which strings parse, which values are valid and how values are formatted, so
+ * {@link CPUResource}, {@link MemoryResource}, {@link CPUUsage} and custom kinds defined with {@link defineResourceKind}
+ * share parsing, validation, arithmetic and comparison. Values of different kinds can never be combined:
+ * each subclass declares a private brand, which makes the compiler reject mixing subclasses, and the
+ * methods throw a {@link UnitMismatchError} for values of different kinds of the same subclass (e.g.
+ * `hugepages-2Mi` and `hugepages-1Gi`).
+ *
+ * Values may not exceed 2^63-1 base units, the largest value Kubernetes can represent.
+ */
+export abstract class ScalarResource {
+    private value: bigint;
+    private quantityFormat: QuantityFormat = 'DecimalSI';
+    private original?: string; // The parsed input when Kubernetes would serialize it unchanged
+
+    /** The kind of resource the value is of. */
+    readonly kind: ResourceKind;
+
+    /**
+     * Parses a value of a resource kind.
+     * @param kind - The kind of resource
+     * @param resource - A string representing the value (e.g., "100m", "10Gi" or "500Mbit")
+     * @param options - How to round values that are not whole base units (by default `ceil`, like the
+     * API server), or to a coarser granularity. Without options, such values are rejected.
+     * @throws {ResourceParseError} If the format or unit is invalid
+     * @throws {NegativeResourceError} If the value is negative
+     * @throws {OverflowError} If the value exceeds 2^63-1 base units
+     * @throws {PrecisionError} If the value is not a whole multiple of the kind's granularity and no rounding is given
+     */
+    protected constructor(kind: ResourceKind, resource: string, options?: RoundingOptions<ScalarResource>) {
+      this.kind = kind;
+      const { value, format, original } = ScalarResource.parse(kind, resource, options);
+      this.value = value;
+      this.quantityFormat = format;
+      this.original = original;
+    }
+
+    /**
+     * Parses a string as a value of a kind.
+     * @param kind - The kind of resource
+     * @param resource - The string to parse
+     * @param options - Rounding options, as for the constructor
+     * @throws {Error} If the string is invalid, as for the constructor
+     */
+    private static parse(kind: ResourceKind, resource: string, options?: RoundingOptions<ScalarResource>): {
+      value: bigint; format: QuantityFormat; original?: string;
+    } {
+      // Suffixes of the kind take precedence over the Kubernetes grammar
+      let quantity: ParsedQuantity | undefined;
+      let size = 0n;
+      for (const [suffix, suffixSize] of kind.suffixes) {
+        const parsed = resource.endsWith(suffix) ? parseQuantity(resource.slice(0, -suffix.length)) : undefined;
+        if (parsed?.ok && parsed.quantity.suffix === '') {
+          quantity = parsed.quantity;
+          size = suffixSize;
+          break;
+        }
+      }
+
+      if (!quantity) {
+        const parsed = parseQuantity(resource);
+        if (!parsed.ok || (!kind.kubernetesSuffixes && parsed.quantity.suffix !== '')) {
+          const [problem, hint] = parsed.ok || parsed.reason === 'unit'
+            ? [`Invalid ${noun(kind)} unit`, kind.unitHint]
+            : [`Invalid ${noun(kind)} resource format`, kind.formatHint];
+          const position = parsed.ok ? resource.length - parsed.quantity.suffix.length : parsed.position;
+          throw new ResourceParseError(`${problem}. Must be ${hint}`, resource, position, hint);
+        }
+        quantity = parsed.quantity;
+      }
+
+      let exact: boolean;
+      let scaled: bigint;
+      let fraction: () => Fraction;
+      if (size > 0n) {
+        const numerator = quantity.digits * size * 10n ** BigInt(Math.max(quantity.exponent, 0));
+        const denominator = 10n ** BigInt(Math.max(-quantity.exponent, 0));
+        exact = numerator % denominator === 0n;
+        scaled = numerator / denominator;
+        fraction = () => ({ numerator, denominator });
+      } else {
+        ({ value: scaled, exact } = scaleQuantity(quantity, -kind.exponent));
+        fraction = () => quantityFraction(quantity as ParsedQuantity, -kind.exponent);
+      }
+      if (quantity.negative && quantity.digits !== 0n) {
+        throw new NegativeResourceError(`${kind.label} resources cannot be negative`);
+      }
+      if (!exact && !options) {
+        throw new PrecisionError(`${kind.label} resources must be whole numbers${kind.baseUnit ? ` of ${kind.baseUnit}` : ''}`);
+      }
+
+      let value = scaled;
+      if (options) {
+        const { numerator, denominator } = fraction();
+        value = roundFraction(numerator, denominator, options.rounding ?? 'ceil', ScalarResource.step(kind, options.granularity));
+      } else if (value % kind.granularity !== 0n) {
+        const granularity = ScalarResource.formatValue(kind, kind.granularity, quantity.format);
+        throw new PrecisionError(`${resource} is not positive integer multiple of ${granularity}`);
+      }
+
+      ScalarResource.validate(kind, value);
+      const canonical = size === 0n && kind.preferredUnits.length === 0 && quantity.canonical && exact && value === scaled;
+      return { value, format: quantity.format, original: canonical ? resource : undefined };
+    }
+
+    /**
+     * Validates that a value is within the range Kubernetes can represent.
+     * @param kind - The kind of resource
+     * @param value - The number of base units to validate
+     * @throws {Error} If the value is negative or exceeds 2^63-1 base units
+     */
+    private static validate(kind: ResourceKind, value: bigint): void {
+      if (value < 0n) {
+        throw new NegativeResourceError(`${kind.label} resources cannot be negative`);
+      }
+      if (value > MAX_RESOURCE_VALUE) {
+        throw new OverflowError(`${kind.label} resources overflow the maximum of 2^63-1${kind.baseUnit ? ` ${kind.baseUnit}` : ''}`);
+      }
+    }
+
+    /**
+     * Resolves a rounding granularity to a number of base units. The result is also a multiple of
+     * the granularity of the kind.
+     * @param kind - The kind of resource
+     * @param granularity - The granularity, or undefined for the granularity of the kind
+     * @throws {Error} If the granularity is invalid, of another kind, or zero
+     */
+    private static step(kind: ResourceKind, granularity?: string | ScalarResource): bigint {
+      if (granularity === undefined) return kind.granularity;
+      if (typeof granularity !== 'string' && granularity.kind.name !== kind.name) {
+        throw new UnitMismatchError(`Cannot round ${kind.name} resources to a granularity of ${granularity.kind.name}`);
+      }
+      const step = typeof granularity === 'string' ? ScalarResource.parse(kind, granularity).value : granularity.value;
+      if (step === 0n) {
+        throw new InvalidArgumentError("Rounding granularity must be greater than zero");
+      }
+      return step / gcd(step, kind.granularity) * kind.granularity;
+    }
+
+    /**
+     * Formats a number of base units with the preferred units of a kind, or like Kubernetes formats quantities.
+     * @param kind - The kind of resource
+     * @param value - The number of base units
+     * @param format - The Kubernetes format to use when no preferred unit fits
+     */
+    private static formatValue(kind: ResourceKind, value: bigint, format: QuantityFormat): string {
+      for (const unit of kind.preferredUnits) {
+        const size = kind.suffixes.get(unit) as bigint;
+        if (value % size === 0n) {
+          return `${value / size}${unit}`;
+        }
+      }
+      if (kind.kubernetesSuffixes) {
+        return formatQuantity(value, kind.exponent, format);
+      }
+      return formatFraction(value * 10n ** BigInt(Math.max(kind.exponent, 0)), 10n ** BigInt(Math.max(-kind.exponent, 0)));
+    }
+
+    /**
+     * Creates a value of a subclass from an exact number of base units, for the static factories of subclasses.
+     * @param kind - The kind of resource
+     * @param value - The number of base units
+     * @param format - The format used when serializing the value
+     * @throws {Error} If the value is negative or overflows
+     */
+    protected static create<T extends ScalarResource>(this: { prototype: T }, kind: ResourceKind, value: bigint, format: QuantityFormat): T {
+      ScalarResource.validate(kind, value);
+      const result: ScalarResource = Object.create(this.prototype);
+      return Object.assign(result, { kind, value, quantityFormat: format, original: undefined }) as T;
+    }
+
+    /**
+     * Converts a JavaScript number or BigInt of some unit to an exact number of base units,
+     * for the static factories of subclasses.
+     * @param kind - The kind of resource
+     * @param value - The number to convert
+     * @param unit - The unit of the number, as for {@link unitSize}
+     * @param options - How to round values that are not whole base units; without options they are rejected
+     * @throws {Error} If the unit is unknown, or the value is negative, non-finite, or not a whole multiple of the kind's granularity
+     */
+    protected static toBaseUnits(kind: ResourceKind, value: number | bigint, unit: string, options?: RoundingOptions<ScalarResource>): bigint {
+      const size = unitSize(kind, unit);
+      if (!size) {
+        throw new InvalidArgumentError(`Unknown unit "${unit}" for ${noun(kind)} resources`);
+      }
+      if (typeof value === 'number' && value < 0) {
+        throw new NegativeResourceError(`${kind.label} resources cannot be negative`);
+      }
+      if (typeof value === 'number' && !Number.isFinite(value)) {
+        throw new InvalidArgumentError(`${kind.label} resources must be finite numbers`);
+      }
+      const exact = typeof value === 'number' ? toFraction(value) : { numerator: value, denominator: 1n };
+      const numerator = exact.numerator * size.numerator;
+      const denominator = exact.denominator * size.denominator;
+
+      if (options) {
+        return roundFraction(numerator, denominator, options.rounding ?? 'ceil', ScalarResource.step(kind, options.granularity));
+      }
+      if (numerator % denominator !== 0n) {
+        throw new PrecisionError(`${kind.label} resources must be whole numbers${kind.baseUnit ? ` of ${kind.baseUnit}` : ''}`);
+      }
+      if ((numerator / denominator) % kind.granularity !== 0n) {
+        const granularity = ScalarResource.formatValue(kind, kind.granularity, 'DecimalSI');
+        throw new PrecisionError(`${value}${unit} is not positive integer multiple of ${granularity}`);
+      }
+      return numerator / denominator;
+    }
+
+    /**
+     * Creates a value of the same kind and class as this one.
+     * @param value - The number of base units
+     * @param format - The format used when serializing the value
+     * @throws {Error} If the value is negative or overflows
+     */
+    private derive(value: bigint, format: QuantityFormat): this {
+      ScalarResource.validate(this.kind, value);
+      const result: this = Object.create(Object.getPrototypeOf(this));
+      return Object.assign(result, this, { value, quantityFormat: format, original: undefined });
+    }
+
+    /**
+     * Checks that another value is of the same kind and class as this one.
+     * @param other - The other value
+     * @throws {UnitMismatchError} If the other value is of a different kind
+     */
+    private check(other: ScalarResource): void {
+      if (other.constructor !== this.constructor || other.kind?.name !== this.kind.name) {
+        // Values of other classes only get here by bypassing the compiler and may have no kind
+        throw new UnitMismatchError(`Cannot combine ${this.kind.name} and ${other.kind?.name ?? other.constructor.name} resources`);
+      }
+    }
+
+    /**
+     * The name of the kind of resource, e.g. "cpu", "hugepages-2Mi" or "nvidia.com/gpu".
+     */
+    get name(): string {
+      return this.kind.name;
+    }
+
+    /**
+     * The format the resource is serialized in: the format of the parsed string, or for
+     * results of arithmetic, the format of the left operand.
+     */
+    get format(): QuantityFormat {
+      return this.quantityFormat;
+    }
+
+    /**
+     * Returns the numeric value of the resource in base units (millicores for CPU, bytes for memory).
+     * This enables direct numeric comparisons and arithmetic operations.
+     * Values above `Number.MAX_SAFE_INTEGER` lose precision; use {@link toBigInt} for the exact value.
+     */
+    valueOf(): number {
+      return Number(this.value);
+    }
+
+    /**
+     * Implements the Symbol.toPrimitive protocol to enable automatic type conversion.
+     * @param hint - The type hint ("string", "number", or "default")
+     * @returns The primitive value
+     */
+    [Symbol.toPrimitive](hint: string) {
+      return hint === "string" ? this.toString() : this.valueOf();
+    }
+
+    /**
+     * Returns the exact value of the resource in base units.
+     * @returns The number of base units as a BigInt
+     */
+    toBigInt(): bigint {
+      return this.value;
+    }
+
+    /**
+     * Adds another resource of the same kind to this one.
+     * @param other - The resource to add
+     * @returns A new instance with the sum
+     * @throws {Error} If the kinds differ or the result would overflow
+     */
+    plus(other: this): this {
+      this.check(other);
+      return this.derive(this.value + other.value, this.value === 0n ? other.quantityFormat : this.quantityFormat);
+    }
+
+    /**
+     * Subtracts another resource of the same kind from this one.
+     * @param other - The resource to subtract
+     * @returns A new instance with the difference
+     * @throws {Error} If the kinds differ or the result would be negative
+     */
+    minus(other: this): this {
+      this.check(other);
+      return this.derive(this.value - other.value, this.value === 0n ? other.quantityFormat : this.quantityFormat);
+    }
+
+    /**
+     * Multiplies this resource by a factor.
+     * The factor is applied exactly as written in decimal and the result is rounded down to whole
+     * base units (and to the granularity of the kind, such as whole pages of hugepages), unless other
+     * rounding is given.
+     * @param factor - The multiplication factor
+     * @param options - How to round the product (by default `floor`) and to which granularity
+     * @returns A new instance with the product
+     * @throws {Error} If the factor is invalid or the result would be negative or overflow
+     */
+    times(factor: number, options: RoundingOptions<this> = {}): this {
+      if (!Number.isFinite(factor)) {
+        throw new InvalidArgumentError("Multiplication factor must be a finite number");
+      }
+      const { numerator, denominator } = toFraction(factor);
+      const step = ScalarResource.step(this.kind, options.granularity);
+      return this.derive(roundFraction(this.value * numerator, denominator, options.rounding ?? 'floor', step), this.quantityFormat);
+    }
+
+    /**
+     * Divides this resource by a divisor.
+     * The divisor is applied exactly as written in decimal and the result is rounded down to whole
+     * base units, unless other rounding is given.
+     * @param divisor - The divisor
+     * @param options - How to round the quotient (by default `floor`) and to which granularity
+     * @returns A new instance with the quotient
+     * @throws {Error} If the divisor is zero, negative or not a finite number
+     */
+    dividedBy(divisor: number, options: RoundingOptions<this> = {}): this {
+      if (!Number.isFinite(divisor)) {
+        throw new InvalidArgumentError("Divisor must be a finite number");
+      }
+      if (divisor === 0) {
+        throw new InvalidArgumentError("Cannot divide by zero");
+      }
+      const { numerator, denominator } = toFraction(divisor);
+      if (numerator < 0n) {
+        throw new NegativeResourceError(`${this.kind.label} resources cannot be negative`);
+      }
+      const step = ScalarResource.step(this.kind, options.granularity);
+      return this.derive(roundFraction(this.value * denominator, numerator, options.rounding ?? 'floor', step), this.quantityFormat);
+    }
+
+    /**
+     * Rounds this resource to a multiple of a granularity, e.g. "50m" or "64Mi".
+     * @param granularity - The step to round to
+     * @param rounding - The rounding mode
+     * @returns A new instance with the rounded value
+     * @throws {Error} If the granularity is invalid or zero, or the result would overflow
+     */
+    roundTo(granularity: string | this, rounding: RoundingMode = 'ceil'): this {
+      return this.derive(roundFraction(this.value, 1n, rounding, ScalarResource.step(this.kind, granularity)), this.quantityFormat);
+    }
+
+    /**
+     * Returns the ratio of this resource to another of the same kind, e.g. the utilization of a request.
+     * @param other - The resource to compare with
+     * @returns This value divided by the other value
+     * @throws {Error} If the kinds differ or the other resource is zero
+     */
+    ratioTo(other: this): number {
+      this.check(other);
+      if (other.value === 0n) {
+        throw new InvalidArgumentError(`Cannot compute a ratio to a zero ${noun(this.kind)} resource`);
+      }
+      return Number(formatFraction(this.value, other.value, 20));
+    }
+
+    /**
+     * Returns this resource as a percentage of another of the same kind.
+     * @param other - The resource to compare with
+     * @returns The percentage, e.g. 25 for 250m of 1 core
+     * @throws {Error} If the kinds differ or the other resource is zero
+     */
+    percentOf(other: this): number {
+      this.check(other);
+      if (other.value === 0n) {
+        throw new InvalidArgumentError(`Cannot compute a percentage of a zero ${noun(this.kind)} resource`);
+      }
+      return Number(formatFraction(this.value * 100n, other.value, 20));
+    }
+
+    /**
+     * Splits this resource into equal parts that add up exactly to the original.
+     * When the value is not divisible by `parts`, the first parts are one base unit (or one step of
+     * the kind's granularity) larger than the others.
+     * @param parts - The number of parts
+     * @returns An array of `parts` new instances, largest first
+     * @throws {Error} If the number of parts is not a positive whole number
+     */
+    splitEvenly(parts: number): this[] {
+      if (!Number.isSafeInteger(parts) || parts <= 0) {
+        throw new InvalidArgumentError("Number of parts must be a positive whole number");
+      }
+      const count = BigInt(parts);
+      const steps = this.value / this.kind.granularity;
+      const share = steps / count;
+      const remainder = steps % count;
+      return Array.from({ length: parts }, (_, i) =>
+        this.derive((BigInt(i) < remainder ? share + 1n : share) * this.kind.granularity, this.quantityFormat));
+    }
+
+    /**
+     * Checks if this resource equals another of the same kind.
+     * @param other - The resource to compare with
+     * @returns true if the resources are equal
+     * @throws {UnitMismatchError} If the kinds differ
+     */
+    equals(other: this): boolean {
+      this.check(other);
+      return this.value === other.value;
+    }
+
+    /**
+     * Checks if this resource is less than another of the same kind.
+     * @param other - The resource to compare with
+     * @returns true if this resource is less than the other
+     * @throws {UnitMismatchError} If the kinds differ
+     */
+    isLessThan(other: this): boolean {
+      this.check(other);
+      return this.value < other.value;
+    }
+
+    /**
+     * Checks if this resource is greater than another of the same kind.
+     * @param other - The resource to compare with
+     * @returns true if this resource is greater than the other
+     * @throws {UnitMismatchError} If the kinds differ
+     */
+    isGreaterThan(other: this): boolean {
+      this.check(other);
+      return this.value > other.value;
+    }
+
+    /**
+     * Returns the canonical representation of the resource. For Kubernetes resources this is
+     * identical to what apimachinery's `Quantity.String()` (and therefore `kubectl get -o yaml`) prints;
+     * kinds with preferred units use the first of them the value is a whole multiple of.
+     * For other kinds, parsed strings that are already canonical are returned unchanged.
+     * @returns The serialized quantity, e.g. "100m", "1Gi", "1e3" or "500Mbit"
+     */
+    toString(): string {
+      return this.original ?? ScalarResource.formatValue(this.kind, this.value, this.quantityFormat);
+    }
+}
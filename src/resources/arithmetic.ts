@@ -0,0 +1,108 @@
+/**
+ * The largest value Kubernetes can represent as an integer quantity (the int64 maximum).
+ * Resource values above this bound are reported as overflows.
+ */
+export const MAX_RESOURCE_VALUE = 2n ** 63n - 1n;
+
+/**
+ * An exact rational number with a positive denominator.
+ */
+export interface Fraction {
+  numerator: bigint;
+  denominator: bigint;
+}
+
+/**
+ * Converts a finite JavaScript number to the exact value of its shortest decimal representation.
+ * Factors such as `0.3` therefore behave as written instead of as their binary approximation.
+ * @param value - A finite number
+ * @returns The number as a fraction with a power-of-ten denominator
+ */
+export function toFraction(value: number): Fraction {
+  const match = String(value).match(/^(-?)(\d+)(?:\.(\d+))?(?:e([+-]\d+))?$/);
+  if (!match) {
+    throw new Error(`Cannot convert ${value} to an exact fraction`);
+  }
+  const [, sign, int, frac = '', exp = '0'] = match;
+  const exponent = Number(exp) - frac.length;
+  let numerator = BigInt(int + frac);
+  let denominator = 1n;
+  if (exponent >= 0) {
+    numerator *= 10n ** BigInt(exponent);
+  } else {
+    denominator = 10n ** BigInt(-exponent);
+  }
+  return { numerator: sign ? -numerator : numerator, denominator };
+}
+
+/**
+ * Divides two integers, rounding towards negative infinity.
+ * @param dividend - The integer to divide
+ * @param divisor - A positive divisor
+ */
+export function floorDiv(dividend: bigint, divisor: bigint): bigint {
+  const quotient = dividend / divisor;
+  return dividend % divisor < 0n ? quotient - 1n : quotient;
+}
+
+/**
+ * How values that fall between two representable values are rounded.
+ * - `ceil`: towards positive infinity, like the API server rounds quantities to its precision
+ * - `floor`: towards negative infinity
+ * - `half-even`: to the nearest value, and to the even multiple on ties
+ */
+export type RoundingMode = 'ceil' | 'floor' | 'half-even';
+
+/**
+ * Options for rounding the result of a construction or an operation.
+ * @typeParam T - The resource type the granularity may be given as
+ */
+export interface RoundingOptions<T> {
+  /** The rounding mode. */
+  rounding?: RoundingMode;
+  /** The step to round to, e.g. "50m", "64Mi" or "1" for whole cores. Defaults to 1m or 1 byte. */
+  granularity?: string | T;
+}
+
+/**
+ * Rounds a fraction to a multiple of a step.
+ * @param numerator - The numerator
+ * @param denominator - A positive denominator
+ * @param mode - The rounding mode
+ * @param step - A positive step to round to a multiple of
+ * @returns The rounded value, a multiple of `step`
+ */
+export function roundFraction(numerator: bigint, denominator: bigint, mode: RoundingMode, step = 1n): bigint {
+  const divisor = denominator * step;
+  const quotient = floorDiv(numerator, divisor);
+  const remainder = numerator - quotient * divisor;
+  if (remainder === 0n || mode === 'floor') {
+    return quotient * step;
+  }
+  if (mode === 'ceil') {
+    return (quotient + 1n) * step;
+  }
+  const twice = remainder * 2n;
+  const up = twice > divisor || (twice === divisor && quotient % 2n !== 0n);
+  return (up ? quotient + 1n : quotient) * step;
+}
+
+/**
+ * Formats a non-negative fraction as a decimal string without trailing zeros.
+ * Fractions whose denominators only have the factors 2 and 5 (such as 1000 or 1024) are exact.
+ * @param numerator - The non-negative numerator
+ * @param denominator - The positive denominator
+ * @param maxFractionDigits - The number of fraction digits after which the output is truncated
+ */
+export function formatFraction(numerator: bigint, denominator: bigint, maxFractionDigits = 64): string {
+  const integer = numerator / denominator;
+  let remainder = numerator % denominator;
+  let digits = '';
+  while (remainder !== 0n && digits.length < maxFractionDigits) {
+    remainder *= 10n;
+    digits += (remainder / denominator).toString();
+    remainder %= denominator;
+  }
+  digits = digits.replace(/0+$/, '');
+  return digits ? `${integer}.${digits}` : `${integer}`;
+}
@@ -0,0 +1,249 @@
+import type { Fraction } from './arithmetic';
+
+/**
+ * The serialization format of a quantity, mirroring apimachinery's `resource.Format`.
+ * - `DecimalSI`: decimal suffixes such as "m", "k" or "M" (e.g., "500m", "1G")
+ * - `BinarySI`: binary suffixes such as "Ki" or "Gi" (e.g., "128Mi")
+ * - `DecimalExponent`: decimal exponents (e.g., "1e3")
+ */
+export type QuantityFormat = 'DecimalSI' | 'BinarySI' | 'DecimalExponent';
+
+/**
+ * The numeric components of a parsed Kubernetes quantity string.
+ * The represented value is `(negative ? -1 : 1) * digits * 10^exponent * 2^binaryExponent`.
+ */
+export interface ParsedQuantity {
+  negative: boolean;
+  digits: bigint;
+  exponent: number;
+  binaryExponent: number;
+  suffix: string;
+  format: QuantityFormat;
+  /** Whether apimachinery keeps the input string verbatim as the serialized form. */
+  canonical: boolean;
+}
+
+/**
+ * Result of {@link parseQuantity}. A failure reason of `unit` means the number was valid
+ * but followed by an unknown suffix; `format` covers everything else. The position is the
+ * index of the first character that could not be parsed.
+ */
+export type QuantityParseResult =
+  | { ok: true; quantity: ParsedQuantity }
+  | { ok: false; reason: 'format' | 'unit'; position: number };
+
+/** Powers of ten for the decimal SI suffixes accepted by apimachinery. */
+const DECIMAL_SUFFIXES: Record<string, number> = {
+  "n": -9, "u": -6, "m": -3, "": 0, "k": 3, "M": 6, "G": 9, "T": 12, "P": 15, "E": 18,
+};
+
+/** Powers of two for the binary SI suffixes accepted by apimachinery. */
+const BINARY_SUFFIXES: Record<string, number> = {
+  "Ki": 10, "Mi": 20, "Gi": 30, "Ti": 40, "Pi": 50, "Ei": 60,
+};
+
+/**
+ * Exponents beyond this bound describe values far outside anything a resource can hold.
+ * Clamping keeps BigInt arithmetic bounded for inputs such as "1e999999999".
+ */
+const MAX_EXPONENT = 400;
+
+const DECIMAL_SUFFIX_BY_EXPONENT: Record<number, string> = Object.fromEntries(
+  Object.entries(DECIMAL_SUFFIXES).map(([suffix, exponent]) => [exponent, suffix]),
+);
+
+const BINARY_SUFFIX_BY_EXPONENT: Record<number, string> = Object.fromEntries(
+  Object.entries(BINARY_SUFFIXES).map(([suffix, exponent]) => [exponent, suffix]),
+);
+
+const SUFFIX_PATTERN = /^[eEinumkKMGTP]*[+-]?[0-9]*$/;
+
+/**
+ * Parses a quantity string using the grammar of apimachinery's `resource.ParseQuantity`:
+ *
+ * ```
+ * <quantity>        ::= <signedNumber><suffix>
+ * <signedNumber>    ::= <number> | <plus-minus> <number>
+ * <number>          ::= <digits> | <digits>.<digits> | <digits>. | .<digits>
+ * <suffix>          ::= <binarySI> | <decimalExponent> | <decimalSI>
+ * <binarySI>        ::= Ki | Mi | Gi | Ti | Pi | Ei
+ * <decimalSI>       ::= n | u | m | "" | k | M | G | T | P | E
+ * <decimalExponent> ::= "e" <signedNumber> | "E" <signedNumber>
+ * ```
+ *
+ * The value is kept exact; callers decide how to scale and validate it.
+ * @param str - The quantity string, e.g. "100m", "1.5Gi" or "1e3"
+ */
+export function parseQuantity(str: string): QuantityParseResult {
+  if (str.length === 0) {
+    return { ok: false, reason: 'format', position: 0 };
+  }
+
+  let pos = 0;
+  let negative = false;
+  if (str[0] === '-' || str[0] === '+') {
+    negative = str[0] === '-';
+    pos++;
+  }
+
+  const numStart = pos;
+  while (pos < str.length && isDigit(str[pos])) pos++;
+  const num = str.slice(numStart, pos);
+
+  let denom = '';
+  if (pos < str.length && str[pos] === '.') {
+    pos++;
+    const denomStart = pos;
+    while (pos < str.length && isDigit(str[pos])) pos++;
+    denom = str.slice(denomStart, pos);
+  }
+
+  const suffix = str.slice(pos);
+  if (!SUFFIX_PATTERN.test(suffix)) {
+    const hasNumber = (num + denom).length > 0;
+    return { ok: false, reason: hasNumber && /^[a-zA-Z]+$/.test(suffix) ? 'unit' : 'format', position: pos };
+  }
+
+  const digits = BigInt((num + denom) || '0');
+  // apimachinery strips leading zeros from the integer part before checking for canonical form
+  const significant = num.replace(/^0+/, '') || '0';
+  const shifted = significant + denom;
+
+  if (suffix in BINARY_SUFFIXES) {
+    const binaryExponent = BINARY_SUFFIXES[suffix];
+    // Fractions below one are serialized in decimal to avoid rounding
+    const belowOne = digits !== 0n && (digits << BigInt(binaryExponent)) < 10n ** BigInt(denom.length);
+    const precision = 15 - significant.length - Math.trunc(binaryExponent * 3 / 10) - 1;
+    return {
+      ok: true,
+      quantity: {
+        negative, digits, exponent: -denom.length, binaryExponent, suffix,
+        format: belowOne ? 'DecimalSI' : 'BinarySI',
+        canonical: denom.length === 0 && precision >= 0 && (BigInt(significant) & 7n) !== 0n,
+      },
+    };
+  }
+
+  let format: QuantityFormat = 'DecimalSI';
+  let exponent = DECIMAL_SUFFIXES[suffix];
+  if (exponent === undefined) {
+    format = 'DecimalExponent';
+    exponent = /^[eE][+-]?[0-9]+$/.test(suffix) ? Number(suffix.slice(1)) : NaN;
+    if (!Number.isSafeInteger(exponent) || Math.abs(exponent) > 2 ** 31 - 1) {
+      return { ok: false, reason: 'unit', position: pos };
+    }
+  }
+  const scale = exponent - denom.length;
+  return {
+    ok: true,
+    quantity: {
+      negative, digits, exponent: scale, binaryExponent: 0, suffix, format,
+      canonical: str === '0' || (
+        shifted.length <= 18 && scale >= -9 && scale % 3 === 0 && !shifted.endsWith('000') && shifted[0] !== '0'
+      ),
+    },
+  };
+}
+
+/**
+ * Converts a parsed quantity to an integer number of base units, truncating towards zero.
+ * @param quantity - The parsed quantity
+ * @param shift - The power of ten the quantity is multiplied by first (3 for milli-units)
+ * @returns The magnitude of the scaled value and whether it was an exact integer
+ */
+export function scaleQuantity(quantity: ParsedQuantity, shift: number): { value: bigint; exact: boolean } {
+  const numerator = quantity.digits << BigInt(quantity.binaryExponent);
+  const exponent = quantity.exponent + shift;
+  if (numerator === 0n) {
+    return { value: 0n, exact: true };
+  }
+  if (exponent >= 0) {
+    return { value: numerator * 10n ** BigInt(Math.min(exponent, MAX_EXPONENT)), exact: true };
+  }
+  if (-exponent > numerator.toString().length) {
+    return { value: 0n, exact: false };
+  }
+  const divisor = 10n ** BigInt(-exponent);
+  return { value: numerator / divisor, exact: numerator % divisor === 0n };
+}
+
+/**
+ * Returns the exact value of a quantity as a fraction of base units.
+ * Values far below one base unit are replaced by a fraction of the same sign between 0 and 0.1,
+ * which rounds the same way in every rounding mode.
+ * @param quantity - The parsed quantity
+ * @param shift - The power of ten of one base unit, negated (3 for millicores, 0 for bytes)
+ */
+export function quantityFraction(quantity: ParsedQuantity, shift: number): Fraction {
+  const exponent = quantity.exponent + shift;
+  const magnitude = quantity.digits * 2n ** BigInt(quantity.binaryExponent);
+  const numerator = quantity.negative ? -magnitude : magnitude;
+  if (exponent >= 0) {
+    return { numerator: numerator * 10n ** BigInt(Math.min(exponent, MAX_EXPONENT)), denominator: 1n };
+  }
+  return { numerator, denominator: 10n ** BigInt(Math.min(-exponent, magnitude.toString().length + 1)) };
+}
+
+/**
+ * Returns the scale of a quantity suffix.
+ * @param suffix - A decimal or binary SI suffix, e.g. "m" or "Gi"
+ * @returns The powers of ten and two the suffix stands for, or undefined for unknown suffixes
+ */
+export function suffixScale(suffix: string): { exponent: number; binaryExponent: number } | undefined {
+  if (Object.prototype.hasOwnProperty.call(BINARY_SUFFIXES, suffix)) {
+    return { exponent: 0, binaryExponent: BINARY_SUFFIXES[suffix] };
+  }
+  if (Object.prototype.hasOwnProperty.call(DECIMAL_SUFFIXES, suffix)) {
+    return { exponent: DECIMAL_SUFFIXES[suffix], binaryExponent: 0 };
+  }
+  return undefined;
+}
+
+/**
+ * Formats a value the way apimachinery's `Quantity.String()` does for a quantity without a cached
+ * string: trailing zeros move into the suffix, decimal exponents are multiples of three, and binary
+ * output is only used for whole values of at least 1024.
+ * @param value - The value as an integer number of base units
+ * @param exponent - The power of ten of the base unit (-3 for millicores, 0 for bytes)
+ * @param format - The format to serialize in
+ * @returns The canonical string, e.g. "1500m", "1Gi" or "1e3"
+ */
+export function formatQuantity(value: bigint, exponent: number, format: QuantityFormat): string {
+  if (value === 0n) {
+    return '0';
+  }
+  const sign = value < 0n ? '-' : '';
+  let amount = value < 0n ? -value : value;
+
+  if (format === 'BinarySI') {
+    const whole = exponent >= 0 ? amount * 10n ** BigInt(exponent) : amount / 10n ** BigInt(-exponent);
+    const exact = exponent >= 0 || amount % 10n ** BigInt(-exponent) === 0n;
+    if (exact && whole >= 1024n) {
+      let base1024 = whole;
+      let power = 0;
+      while (base1024 >= 1024n && base1024 % 1024n === 0n) {
+        base1024 /= 1024n;
+        power += 10;
+      }
+      return `${sign}${base1024}${BINARY_SUFFIX_BY_EXPONENT[power] ?? ''}`;
+    }
+    format = 'DecimalSI';
+  }
+
+  while (amount >= 10n && amount % 10n === 0n) {
+    amount /= 10n;
+    exponent++;
+  }
+  const remainder = ((exponent % 3) + 3) % 3;
+  amount *= 10n ** BigInt(remainder);
+  exponent -= remainder;
+
+  if (format === 'DecimalSI' && DECIMAL_SUFFIX_BY_EXPONENT[exponent] !== undefined) {
+    return `${sign}${amount}${DECIMAL_SUFFIX_BY_EXPONENT[exponent]}`;
+  }
+  return exponent === 0 ? `${sign}${amount}` : `${sign}${amount}e${exponent}`;
+}
+
+function isDigit(char: string): boolean {
+  return char >= '0' && char <= '9';
+}
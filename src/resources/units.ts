@@ -0,0 +1,185 @@
+import { InvalidArgumentError } from '../errors';
+import type { Fraction } from './arithmetic';
+import { suffixScale } from './quantity';
+
+/**
+ * Describes a kind of resource for {@link defineResourceKind}.
+ */
+export interface ResourceKindDefinition {
+  /** The unique name of the kind, e.g. "example.com/bandwidth". */
+  name: string;
+  /** How the kind is named in error messages, e.g. "Bandwidth" for "Bandwidth resources cannot be negative". */
+  label: string;
+  /** The unit values are stored as whole numbers of, e.g. "bits". Omit for plain counts. */
+  baseUnit?: string;
+  /** The power of ten one base unit stands for, e.g. -3 for millicores. Defaults to 0. */
+  exponent?: number;
+  /** Suffixes accepted in addition to the Kubernetes ones, with the number of base units each stands for. */
+  suffixes?: Record<string, number | bigint>;
+  /** Whether the Kubernetes quantity suffixes (m, k, Mi, ...) and decimal exponents are accepted. Defaults to true. */
+  kubernetesSuffixes?: boolean;
+  /** The number of base units every value must be a multiple of, e.g. the page size of hugepages. Defaults to 1. */
+  granularity?: number | bigint;
+  /**
+   * Suffixes of `suffixes` to format values with, in order of preference. A value is formatted with the first
+   * unit it is a whole multiple of; values that fit none are formatted like Kubernetes formats quantities.
+   */
+  preferredUnits?: string[];
+  /** Describes the accepted units in parse errors. Derived from the suffixes by default. */
+  unitHint?: string;
+  /** Describes the accepted format in parse errors. Derived from the suffixes by default. */
+  formatHint?: string;
+}
+
+/**
+ * A validated kind of resource, as returned by {@link defineResourceKind}.
+ */
+export interface ResourceKind {
+  readonly name: string;
+  readonly label: string;
+  readonly baseUnit?: string;
+  readonly exponent: number;
+  readonly suffixes: ReadonlyMap<string, bigint>;
+  readonly kubernetesSuffixes: boolean;
+  readonly granularity: bigint;
+  readonly preferredUnits: readonly string[];
+  readonly unitHint: string;
+  readonly formatHint: string;
+}
+
+const KUBERNETES_UNITS = "n, u, m, k, M, G, T, P, E, Ki, Mi, Gi, Ti, Pi, Ei";
+
+/** The kinds defined with {@link defineResourceKind}, by name. */
+const registry = new Map<string, ResourceKind>();
+
+/**
+ * Converts a whole number given as a number or BigInt to a positive BigInt.
+ * @param value - The value
+ * @param what - Describes the value in error messages
+ * @throws {InvalidArgumentError} If the value is not a positive whole number
+ */
+function positive(value: number | bigint, what: string): bigint {
+  if (typeof value === 'number' ? !Number.isSafeInteger(value) || value <= 0 : value <= 0n) {
+    throw new InvalidArgumentError(`${what} must be a positive whole number`);
+  }
+  return BigInt(value);
+}
+
+/**
+ * Validates a kind definition without registering it, e.g. for kinds that exist once per resource name
+ * like `hugepages-<size>`.
+ * @param definition - The kind definition
+ * @returns The validated kind
+ * @throws {InvalidArgumentError} If the definition is invalid
+ */
+export function createResourceKind(definition: ResourceKindDefinition): ResourceKind {
+  const { name, label, baseUnit, exponent = 0, kubernetesSuffixes = true, preferredUnits = [] } = definition;
+  if (!name || !label) {
+    throw new InvalidArgumentError("Resource kinds must have a name and a label");
+  }
+  if (!Number.isSafeInteger(exponent)) {
+    throw new InvalidArgumentError(`Exponent of resource kind "${name}" must be a whole number`);
+  }
+
+  const suffixes = new Map<string, bigint>();
+  for (const [suffix, size] of Object.entries(definition.suffixes ?? {})) {
+    if (!/^[a-zA-Z]+$/.test(suffix)) {
+      throw new InvalidArgumentError(`Suffix "${suffix}" of resource kind "${name}" must consist of letters`);
+    }
+    if (kubernetesSuffixes && (suffixScale(suffix) || /^[eE]/.test(suffix))) {
+      throw new InvalidArgumentError(`Suffix "${suffix}" of resource kind "${name}" conflicts with a Kubernetes quantity suffix`);
+    }
+    suffixes.set(suffix, positive(size, `Size of suffix "${suffix}"`));
+  }
+  const unknown = preferredUnits.find(unit => !suffixes.has(unit));
+  if (unknown !== undefined) {
+    throw new InvalidArgumentError(`Preferred unit "${unknown}" of resource kind "${name}" is not one of its suffixes`);
+  }
+
+  const custom = [...suffixes.keys()];
+  const unitHint = kubernetesSuffixes
+    ? `a Kubernetes quantity suffix (${[KUBERNETES_UNITS, ...custom].join(', ')}) or a decimal exponent (e.g., '1e3')`
+    : custom.length > 0 ? `one of: ${custom.join(', ')}` : "no unit";
+  const example = preferredUnits[0] ?? custom[0];
+  const formatHint = example !== undefined
+    ? `a number followed by an optional unit (e.g., '10${example}')`
+    : kubernetesSuffixes ? "a number followed by an optional unit (e.g., '10Gi' or '2')" : "a number (e.g., '2')";
+  return {
+    name,
+    label,
+    baseUnit,
+    exponent,
+    suffixes,
+    kubernetesSuffixes,
+    granularity: positive(definition.granularity ?? 1n, `Granularity of resource kind "${name}"`),
+    preferredUnits: [...preferredUnits],
+    unitHint: definition.unitHint ?? unitHint,
+    formatHint: definition.formatHint ?? formatHint,
+  };
+}
+
+/**
+ * Defines and registers a kind of resource, such as a custom extended resource with its own units.
+ * Values of the kind are created by a subclass of {@link ScalarResource} that passes the kind to its
+ * constructor, and can never be combined with values of other kinds.
+ *
+ * @example
+ * ```typescript
+ * const BANDWIDTH = defineResourceKind({
+ *   name: 'example.com/bandwidth',
+ *   label: 'Bandwidth',
+ *   baseUnit: 'bits',
+ *   kubernetesSuffixes: false,
+ *   suffixes: { bit: 1, Kbit: 1e3, Mbit: 1e6, Gbit: 1e9 },
+ *   preferredUnits: ['Gbit', 'Mbit', 'Kbit', 'bit'],
+ * });
+ *
+ * class Bandwidth extends ScalarResource {
+ *   private declare readonly brand: 'bandwidth';
+ *   constructor(resource: string) { super(BANDWIDTH, resource); }
+ * }
+ *
+ * new Bandwidth('500Mbit').plus(new Bandwidth('1.5Gbit')).toString();  // "2Gbit"
+ * ```
+ * @param definition - The kind definition
+ * @returns The validated kind
+ * @throws {InvalidArgumentError} If the definition is invalid or a kind of the same name is already defined
+ */
+export function defineResourceKind(definition: ResourceKindDefinition): ResourceKind {
+  if (registry.has(definition.name)) {
+    throw new InvalidArgumentError(`Resource kind "${definition.name}" is already defined`);
+  }
+  const kind = createResourceKind(definition);
+  registry.set(kind.name, kind);
+  return kind;
+}
+
+/**
+ * Returns a kind defined with {@link defineResourceKind}, including the built-in kinds
+ * `cpu`, `memory`, `ephemeral-storage` and `cpu-usage`.
+ * @param name - The name of the kind
+ * @returns The kind, or undefined if no kind of that name is defined
+ */
+export function getResourceKind(name: string): ResourceKind | undefined {
+  return registry.get(name);
+}
+
+/**
+ * Returns the number of base units of a kind that one unit stands for.
+ * @param kind - The kind
+ * @param unit - A suffix of the kind or a Kubernetes quantity suffix, or "" for one whole unit (e.g. one core)
+ * @returns The size of the unit in base units, or undefined if the kind does not accept the unit
+ */
+export function unitSize(kind: ResourceKind, unit: string): Fraction | undefined {
+  const custom = kind.suffixes.get(unit);
+  if (custom !== undefined) {
+    return { numerator: custom, denominator: 1n };
+  }
+  const scale = suffixScale(unit);
+  if (!scale || (!kind.kubernetesSuffixes && unit !== '')) {
+    return undefined;
+  }
+  const exponent = scale.exponent - kind.exponent;
+  const numerator = 2n ** BigInt(scale.binaryExponent) * 10n ** BigInt(Math.max(exponent, 0));
+  return { numerator, denominator: 10n ** BigInt(Math.max(-exponent, 0)) };
+}
@@ -0,0 +1,241 @@
+import { CPUResource } from '../resources/CPUResource';
+import { MemoryResource } from '../resources/MemoryResource';
+import { ResourceList } from '../resources/ResourceList';
+import { WorkloadKind } from '../manifests/workloads';
+import { NodeResources, nodeAllocatable } from './node';
+
+/**
+ * A workload to place on nodes. The workloads of {@link scanManifests} can be passed as they are.
+ */
+export interface PlannedWorkload {
+  kind: WorkloadKind;
+  name: string;
+  namespace?: string;
+  /** The effective requests of a single pod. */
+  podRequests: ResourceList;
+  /** The number of pods. Ignored for DaemonSets, which run one pod on every node. */
+  replicas: number;
+}
+
+/**
+ * A candidate node shape.
+ */
+export interface NodeType extends NodeResources {
+  name: string;
+}
+
+/**
+ * How pods are assigned to nodes. Both place the largest pods first; first-fit puts each pod on
+ * the first node it fits on, best-fit on the node it leaves the least room on.
+ */
+export type PackingStrategy = 'first-fit-decreasing' | 'best-fit-decreasing';
+
+/**
+ * Options for {@link planCapacity}.
+ */
+export interface CapacityPlanOptions {
+  /** Defaults to `first-fit-decreasing`. */
+  strategy?: PackingStrategy;
+}
+
+/**
+ * The requests placed on one node, including the DaemonSet pods.
+ */
+export interface NodeFill {
+  cpu: CPUResource;
+  memory: MemoryResource;
+  pods: number;
+  /** The CPU requests as a percentage of the allocatable CPU. */
+  cpuPercent: number;
+  /** The memory requests as a percentage of the allocatable memory. */
+  memoryPercent: number;
+}
+
+/**
+ * The nodes of one type needed for the workloads.
+ */
+export interface NodePlan {
+  nodeType: string;
+  /** The number of nodes needed. */
+  nodes: number;
+  /** The allocatable resources of one node. */
+  allocatable: { cpu: CPUResource; memory: MemoryResource };
+  /** The requests of the DaemonSet pods on every node. */
+  daemonSetOverhead: { cpu: CPUResource; memory: MemoryResource };
+  fill: NodeFill[];
+  /** The free capacity of nodes that have no room for any of the pods, e.g. CPU left over on a node whose memory is full. */
+  stranded: { cpu: CPUResource; memory: MemoryResource };
+  /** The workloads, as `kind/name`, with pods that do not fit on an empty node of this type. */
+  unschedulable: string[];
+}
+
+/** The requests of a pod, or the free resources of a node, in millicores, bytes and pods. */
+interface Amounts {
+  cpu: bigint;
+  memory: bigint;
+  pods: number;
+}
+
+interface Pod extends Amounts {
+  workload: string;
+}
+
+/**
+ * Checks if a pod fits into the free resources of a node.
+ * @param pod - The pod requests
+ * @param free - The free resources
+ */
+function fitsInto(pod: Amounts, free: Amounts): boolean {
+  return pod.cpu <= free.cpu && pod.memory <= free.memory && pod.pods <= free.pods;
+}
+
+/**
+ * Returns an amount as a share of a capacity; any amount of a missing capacity is infinitely large.
+ * @param amount - The amount
+ * @param capacity - The capacity
+ */
+function share(amount: bigint, capacity: bigint): number {
+  if (capacity === 0n) {
+    return amount === 0n ? 0 : Infinity;
+  }
+  return Number(amount) / Number(capacity);
+}
+
+/**
+ * Returns the name of a workload as used in plans.
+ * @param workload - The workload
+ */
+function workloadName(workload: PlannedWorkload): string {
+  return `${workload.kind}/${workload.name}`;
+}
+
+/**
+ * Returns the requests of one pod of a workload.
+ * @param workload - The workload
+ */
+function podAmounts(workload: PlannedWorkload): Pod {
+  return {
+    workload: workloadName(workload),
+    cpu: workload.podRequests.cpu().toBigInt(),
+    memory: workload.podRequests.memory().toBigInt(),
+    pods: 1,
+  };
+}
+
+/**
+ * Plans the nodes of one type.
+ * @param nodeType - The node type
+ * @param daemonSets - The DaemonSet workloads
+ * @param pods - The other pods
+ * @param strategy - The packing strategy
+ */
+function planNodeType(nodeType: NodeType, daemonSets: PlannedWorkload[], pods: Pod[], strategy: PackingStrategy): NodePlan {
+  const allocatable = nodeAllocatable(nodeType);
+  const allocatableCPU = allocatable.cpu();
+  const allocatableMemory = allocatable.memory();
+  // Node types without a pod capacity are not limited by the number of pods
+  const allocatablePods = allocatable.has('pods') ? Number(allocatable.get('pods')!.toBigInt()) : Number.MAX_SAFE_INTEGER;
+  const capacity: Amounts = { cpu: allocatableCPU.toBigInt(), memory: allocatableMemory.toBigInt(), pods: allocatablePods };
+
+  const unschedulable = new Set<string>();
+  const overhead: Amounts = { cpu: 0n, memory: 0n, pods: 0 };
+  for (const daemonSet of daemonSets) {
+    const pod = podAmounts(daemonSet);
+    if (fitsInto(pod, { cpu: capacity.cpu - overhead.cpu, memory: capacity.memory - overhead.memory, pods: capacity.pods - overhead.pods })) {
+      overhead.cpu += pod.cpu;
+      overhead.memory += pod.memory;
+      overhead.pods += 1;
+    } else {
+      unschedulable.add(pod.workload);
+    }
+  }
+  const empty: Amounts = { cpu: capacity.cpu - overhead.cpu, memory: capacity.memory - overhead.memory, pods: capacity.pods - overhead.pods };
+
+  // Largest first, by the larger of a pod's shares of the node's CPU and memory
+  const size = (pod: Pod) => Math.max(share(pod.cpu, capacity.cpu), share(pod.memory, capacity.memory));
+  const sorted = [...pods].sort((a, b) => (size(b) - size(a)) || 0);
+
+  const nodes: Amounts[] = [];
+  for (const pod of sorted) {
+    if (!fitsInto(pod, empty)) {
+      unschedulable.add(pod.workload);
+      continue;
+    }
+    const candidates = nodes.filter(free => fitsInto(pod, free));
+    let node: Amounts | undefined = candidates[0];
+    if (strategy === 'best-fit-decreasing') {
+      // The node with the least room left after placing the pod, across both dimensions
+      const room = (free: Amounts) => share(free.cpu - pod.cpu, capacity.cpu) + share(free.memory - pod.memory, capacity.memory);
+      node = candidates.reduce<Amounts | undefined>((best, free) => !best || room(free) < room(best) ? free : best, undefined);
+    }
+    if (!node) {
+      node = { ...empty };
+      nodes.push(node);
+    }
+    node.cpu -= pod.cpu;
+    node.memory -= pod.memory;
+    node.pods -= 1;
+  }
+
+  const shapes = [...new Map(pods.map(pod => [`${pod.cpu}/${pod.memory}`, pod])).values()];
+  const stranded: Amounts = { cpu: 0n, memory: 0n, pods: 0 };
+  for (const free of nodes) {
+    if (!shapes.some(pod => fitsInto(pod, free))) {
+      stranded.cpu += free.cpu;
+      stranded.memory += free.memory;
+    }
+  }
+  return {
+    nodeType: nodeType.name,
+    nodes: nodes.length,
+    allocatable: { cpu: allocatableCPU, memory: allocatableMemory },
+    daemonSetOverhead: { cpu: CPUResource.fromMillicores(overhead.cpu), memory: MemoryResource.fromBytes(overhead.memory) },
+    fill: nodes.map(free => {
+      const cpu = CPUResource.fromMillicores(capacity.cpu - free.cpu);
+      const memory = MemoryResource.fromBytes(capacity.memory - free.memory);
+      return {
+        cpu,
+        memory,
+        pods: capacity.pods - free.pods,
+        cpuPercent: capacity.cpu === 0n ? 0 : cpu.percentOf(allocatableCPU),
+        memoryPercent: capacity.memory === 0n ? 0 : memory.percentOf(allocatableMemory),
+      };
+    }),
+    stranded: { cpu: CPUResource.fromMillicores(stranded.cpu), memory: MemoryResource.fromBytes(stranded.memory) },
+    unschedulable: [...unschedulable],
+  };
+}
+
+/**
+ * Estimates how many nodes of each candidate type the workloads need, by bin-packing their pods
+ * onto nodes over the CPU and memory requests (and the node's pod capacity).
+ *
+ * Each node type is planned on its own, as if the cluster only had nodes of that type. DaemonSet
+ * pods are placed on every node first, and the remaining pods are sorted by their largest share
+ * of a node's allocatable CPU or memory and packed with the chosen strategy. Resources other
+ * than CPU and memory are not considered.
+ *
+ * @example
+ * ```typescript
+ * const { workloads } = scanManifests(loadManifests(['./manifests']));
+ * const plans = planCapacity(workloads, [
+ *   { name: 'm5.xlarge', capacity: { cpu: '4', memory: '16Gi', pods: '58' }, kubeReserved: { cpu: '80m', memory: '893Mi' } },
+ *   { name: 'm5.2xlarge', capacity: { cpu: '8', memory: '32Gi', pods: '58' }, kubeReserved: { cpu: '90m', memory: '1229Mi' } },
+ * ]);
+ * plans.map(plan => `${plan.nodeType}: ${plan.nodes} nodes, ${plan.stranded.memory} memory stranded`);
+ * ```
+ * @param workloads - The workloads and their pod requests
+ * @param nodeTypes - The candidate node types
+ * @param options - Planning options
+ * @returns One plan per node type, in the order of `nodeTypes`
+ * @throws {Error} If a node quantity cannot be parsed
+ */
+export function planCapacity(workloads: PlannedWorkload[], nodeTypes: NodeType[], options: CapacityPlanOptions = {}): NodePlan[] {
+  const strategy = options.strategy ?? 'first-fit-decreasing';
+  const daemonSets = workloads.filter(workload => workload.kind === 'DaemonSet');
+  const pods = workloads
+    .filter(workload => workload.kind !== 'DaemonSet')
+    .flatMap(workload => Array.from({ length: workload.replicas }, () => podAmounts(workload)));
+
+  return nodeTypes.map(nodeType => planNodeType(nodeType, daemonSets, pods, strategy));
+}
@@ -0,0 +1,175 @@
+import { InvalidArgumentError } from '../errors';
+import { ResourceList, ResourceQuantity } from '../resources/ResourceList';
+import { toResourceList } from '../pod/podResources';
+import { ResourceMap } from '../pod/types';
+
+/**
+ * The resources of a node as the kubelet configures them.
+ */
+export interface NodeResources {
+  /** The capacity of the node, e.g. `{ cpu: '4', memory: '16Gi', pods: '110' }`. */
+  capacity: ResourceMap;
+  /** Resources reserved for operating system daemons (`--system-reserved`). */
+  systemReserved?: ResourceMap;
+  /** Resources reserved for Kubernetes daemons (`--kube-reserved`). */
+  kubeReserved?: ResourceMap;
+  /**
+   * Hard eviction thresholds by signal (`--eviction-hard`), as quantities or percentages of capacity,
+   * e.g. `{ 'memory.available': '100Mi', 'nodefs.available': '10%' }`.
+   */
+  evictionHard?: Record<string, string>;
+}
+
+/**
+ * One reason a pod does not fit on a node, as reported by the scheduler's `NodeResourcesFit` plugin.
+ */
+export interface InsufficientResource {
+  resource: string;
+  /** The reason, e.g. "Insufficient cpu" or "Too many pods". */
+  reason: string;
+  /** The amount the pod requests. */
+  requested: ResourceQuantity;
+  /** The amount the pods already on the node request. */
+  used: ResourceQuantity;
+  /** The allocatable amount of the node. */
+  capacity: ResourceQuantity;
+}
+
+/**
+ * The result of {@link fits}.
+ */
+export interface FitResult {
+  fits: boolean;
+  reasons: InsufficientResource[];
+}
+
+/** The resources the eviction signals reserve. */
+const EVICTION_SIGNALS: Record<string, string> = {
+  'memory.available': 'memory',
+  'nodefs.available': 'ephemeral-storage',
+};
+
+/**
+ * Returns the amount a hard eviction threshold reserves of a capacity.
+ * Percentages are computed like the kubelet does, with a float32 percentage and truncation.
+ * @param resource - The resource the threshold applies to
+ * @param threshold - The threshold, e.g. "100Mi" or "10%"
+ * @param capacity - The capacity of the resource
+ * @throws {Error} If the threshold is not a valid quantity or percentage
+ */
+function evictionReservation(resource: string, threshold: string, capacity: ResourceQuantity | undefined): ResourceList {
+  if (!threshold.endsWith('%')) {
+    return new ResourceList({ [resource]: threshold });
+  }
+  const percentage = Number(threshold.slice(0, -1));
+  if (threshold.length === 1 || !Number.isFinite(percentage) || percentage < 0 || percentage > 100) {
+    throw new InvalidArgumentError(`Invalid eviction threshold "${threshold}". Must be a quantity or a percentage between 0% and 100%`);
+  }
+  const fraction = Math.fround(Math.fround(percentage) / 100);
+  const bytes = Math.trunc(Number(capacity?.toBigInt() ?? 0n) * fraction);
+  return new ResourceList({ [resource]: String(bytes) });
+}
+
+/**
+ * Computes the allocatable resources of a node like the kubelet does: capacity minus
+ * system-reserved, kube-reserved and the hard eviction thresholds for `memory.available` and
+ * `nodefs.available`, and for memory also minus the hugepages capacity. Resources that would be
+ * negative are zero.
+ *
+ * @example
+ * ```typescript
+ * nodeAllocatable({
+ *   capacity: { cpu: '4', memory: '16Gi', pods: '110' },
+ *   systemReserved: { cpu: '100m', memory: '512Mi' },
+ *   kubeReserved: { cpu: '100m', memory: '1Gi' },
+ *   evictionHard: { 'memory.available': '100Mi' },
+ * }).toJSON();
+ * // { cpu: '3800m', memory: '14748Mi', pods: '110' }
+ * ```
+ * @param node - The node resources
+ * @returns The allocatable resources
+ * @throws {Error} If a quantity or eviction threshold cannot be parsed
+ */
+export function nodeAllocatable(node: NodeResources): ResourceList {
+  const capacity = toResourceList(node.capacity);
+  let reserved = toResourceList(node.systemReserved).plus(toResourceList(node.kubeReserved));
+  for (const [signal, threshold] of Object.entries(node.evictionHard ?? {})) {
+    const resource = EVICTION_SIGNALS[signal];
+    if (resource) {
+      reserved = reserved.plus(evictionReservation(resource, threshold, capacity.get(resource)));
+    }
+  }
+  for (const name of capacity.names()) {
+    if (name.startsWith('hugepages-') && capacity.has('memory')) {
+      reserved = reserved.plus(new ResourceList({ memory: capacity.get(name)!.toBigInt().toString() }));
+    }
+  }
+
+  reserved = reserved.without(...capacity.missingKeys(reserved));
+  const exhausted = reserved.exceeded(capacity);
+  let allocatable = capacity.minus(reserved.without(...exhausted));
+  for (const name of exhausted) {
+    allocatable = allocatable.with(name, '0');
+  }
+  return allocatable;
+}
+
+/**
+ * Returns the position of a resource in the order the scheduler checks resources in.
+ * @param name - The resource name
+ */
+function rank(name: string): number {
+  const index = ['cpu', 'memory', 'ephemeral-storage'].indexOf(name);
+  return index === -1 ? 3 : index;
+}
+
+/**
+ * Checks if a pod fits on a node next to the pods already running there, with the arithmetic of
+ * the scheduler's `NodeResourcesFit` filter: the node must have room for one more pod, and every
+ * resource the pod requests must fit into what the existing pods leave of the node's allocatable
+ * resources. Resources the node does not have count as zero, so a node without a `pods` capacity
+ * fits no pods.
+ *
+ * @example
+ * ```typescript
+ * const node = { capacity: { cpu: '2', memory: '4Gi', pods: '110' } };
+ * fits(new ResourceList({ cpu: '1500m', memory: '1Gi' }), node, [new ResourceList({ cpu: '1' })]).reasons;
+ * // [{ resource: 'cpu', reason: 'Insufficient cpu', ... }], as 1500m do not fit next to 1 of 2 cores
+ * ```
+ * @param podRequests - The requests of the pod, e.g. from {@link podRequests}
+ * @param node - The node resources
+ * @param existingPods - The requests of the pods already on the node
+ * @returns Whether the pod fits, and the reasons if it does not
+ * @throws {Error} If a quantity cannot be parsed
+ */
+export function fits(podRequests: ResourceList, node: NodeResources, existingPods: ResourceList[] = []): FitResult {
+  const allocatable = nodeAllocatable(node);
+  const used = existingPods.reduce((sum, pod) => sum.plus(pod), new ResourceList());
+  const reasons: InsufficientResource[] = [];
+  const zero = (name: string) => new ResourceList({ [name]: '0' }).get(name)!;
+
+  const podCount = new ResourceList({ pods: String(existingPods.length) }).get('pods')!;
+  const allowedPods = allocatable.get('pods') ?? zero('pods');
+  if (BigInt(existingPods.length) + 1n > allowedPods.toBigInt()) {
+    reasons.push({
+      resource: 'pods',
+      reason: 'Too many pods',
+      requested: new ResourceList({ pods: '1' }).get('pods')!,
+      used: podCount,
+      capacity: allowedPods,
+    });
+  }
+
+  // Like the scheduler, check CPU, memory and ephemeral storage before other resources
+  const names = podRequests.names().sort((a, b) => rank(a) - rank(b));
+  for (const name of names) {
+    const requested = podRequests.get(name)!;
+    if (requested.toBigInt() === 0n) continue;
+    const usedByPods = used.get(name) ?? zero(name);
+    const capacity = allocatable.get(name) ?? zero(name);
+    if (requested.toBigInt() > capacity.toBigInt() - usedByPods.toBigInt()) {
+      reasons.push({ resource: name, reason: `Insufficient ${name}`, requested, used: usedByPods, capacity });
+    }
+  }
+  return { fits: reasons.length === 0, reasons };
+}
@@ -0,0 +1,197 @@
+import { InvalidArgumentError } from '../errors';
+import { ScalarResource } from '../resources/ScalarResource';
+
+/**
+ * The requested and allocatable amounts of one resource on a node, as scored by the scheduler.
+ */
+export interface ScoredResource<T extends ScalarResource = ScalarResource> {
+  /** The requests of the pods on the node, including the pod being scheduled. */
+  requested: T;
+  allocatable: T;
+  /** The weight of the resource in the node score. Defaults to 1. */
+  weight?: number;
+}
+
+/**
+ * A point of the `RequestedToCapacityRatio` scoring function shape.
+ */
+export interface UtilizationShapePoint {
+  /** The utilization in percent, from 0 to 100. */
+  utilization: number;
+  /** The score at that utilization, from 0 to 10. */
+  score: number;
+}
+
+/** The highest score of a node (`framework.MaxNodeScore`). */
+const MAX_NODE_SCORE = 100n;
+
+/** The highest score of a shape point (`config.MaxCustomPriorityScore`). */
+const MAX_CUSTOM_PRIORITY_SCORE = 10n;
+
+/** The highest utilization of a shape point, in percent. */
+const MAX_UTILIZATION = 100n;
+
+/** One resource with its amounts as the int64 values the scheduler works with. */
+interface Amounts {
+  requested: bigint;
+  allocatable: bigint;
+  weight: bigint;
+}
+
+/**
+ * Converts scored resources to amounts, checking that both amounts of each are of the same kind.
+ * @param resources - The scored resources
+ * @throws {InvalidArgumentError} If a weight is not a whole number from 1 to 100
+ * @throws {UnitMismatchError} If the requested and allocatable amounts are of different kinds
+ */
+function toAmounts(resources: ScoredResource[]): Amounts[] {
+  return resources.map(({ requested, allocatable, weight = 1 }) => {
+    if (!Number.isInteger(weight) || weight < 1 || weight > 100) {
+      throw new InvalidArgumentError(`Resource weight must be a whole number from 1 to 100, got ${weight}`);
+    }
+    // Comparing the amounts rejects mismatched kinds
+    requested.equals(allocatable);
+    return { requested: requested.toBigInt(), allocatable: allocatable.toBigInt(), weight: BigInt(weight) };
+  });
+}
+
+/**
+ * Combines per-resource scores into the weighted average the scheduler uses, skipping resources
+ * the node has none of. The average is rounded down, like Go integer division.
+ * @param resources - The scored resources
+ * @param score - Scores one resource
+ */
+function weightedScore(resources: ScoredResource[], score: (requested: bigint, allocatable: bigint) => bigint): number {
+  let nodeScore = 0n;
+  let weightSum = 0n;
+  for (const { requested, allocatable, weight } of toAmounts(resources)) {
+    if (allocatable === 0n) continue;
+    nodeScore += score(requested, allocatable) * weight;
+    weightSum += weight;
+  }
+  return weightSum === 0n ? 0 : Number(nodeScore / weightSum);
+}
+
+/**
+ * Scores a node by the share of its resources that stays free, like the `LeastAllocated` strategy
+ * of the `NodeResourcesFit` plugin, which spreads pods across nodes.
+ *
+ * @example
+ * ```typescript
+ * leastAllocatedScore([
+ *   { requested: new CPUResource('3'), allocatable: new CPUResource('4') },
+ *   { requested: new MemoryResource('5Gi'), allocatable: new MemoryResource('10Gi') },
+ * ]);  // 37, the average of 25 and 50 rounded down
+ * ```
+ * @param resources - The requested and allocatable amounts and weights of each resource
+ * @returns The score from 0 to 100
+ * @throws {Error} If a weight is invalid or amounts of different kinds are paired
+ */
+export function leastAllocatedScore(resources: ScoredResource[]): number {
+  return weightedScore(resources, (requested, allocatable) =>
+    requested > allocatable ? 0n : (allocatable - requested) * MAX_NODE_SCORE / allocatable);
+}
+
+/**
+ * Scores a node by the share of its resources that is requested, like the `MostAllocated` strategy
+ * of the `NodeResourcesFit` plugin, which packs pods onto as few nodes as possible.
+ * Requests above the allocatable amount count as fully allocated.
+ * @param resources - The requested and allocatable amounts and weights of each resource
+ * @returns The score from 0 to 100
+ * @throws {Error} If a weight is invalid or amounts of different kinds are paired
+ */
+export function mostAllocatedScore(resources: ScoredResource[]): number {
+  return weightedScore(resources, (requested, allocatable) =>
+    (requested > allocatable ? allocatable : requested) * MAX_NODE_SCORE / allocatable);
+}
+
+/**
+ * Scores a node with the `RequestedToCapacityRatio` strategy of the `NodeResourcesFit` plugin: the
+ * utilization of each resource is mapped to a score by a piecewise linear function through the
+ * shape points, and the scores are averaged by weight. Resources scoring zero are left out of the
+ * average, which is rounded to the nearest whole number.
+ *
+ * @example
+ * ```typescript
+ * // Bin packing: the fuller the node, the higher the score
+ * const shape = [{ utilization: 0, score: 0 }, { utilization: 100, score: 10 }];
+ * requestedToCapacityRatioScore([{ requested: new CPUResource('3'), allocatable: new CPUResource('4') }], shape);  // 75
+ * ```
+ * @param resources - The requested and allocatable amounts and weights of each resource
+ * @param shape - The shape points, by increasing utilization
+ * @returns The score from 0 to 100
+ * @throws {Error} If the shape, a weight or the kinds of the amounts are invalid
+ */
+export function requestedToCapacityRatioScore(resources: ScoredResource[], shape: UtilizationShapePoint[]): number {
+  if (shape.length === 0) {
+    throw new InvalidArgumentError("The scoring function shape needs at least one point");
+  }
+  shape.forEach((point, index) => {
+    if (!Number.isInteger(point.utilization) || point.utilization < 0 || point.utilization > 100) {
+      throw new InvalidArgumentError(`Shape point utilization must be a whole number from 0 to 100, got ${point.utilization}`);
+    }
+    if (!Number.isInteger(point.score) || point.score < 0 || point.score > 10) {
+      throw new InvalidArgumentError(`Shape point score must be a whole number from 0 to 10, got ${point.score}`);
+    }
+    if (index > 0 && point.utilization <= shape[index - 1].utilization) {
+      throw new InvalidArgumentError("Shape point utilizations must be increasing");
+    }
+  });
+  const points = shape.map(point => ({
+    utilization: BigInt(point.utilization),
+    score: BigInt(point.score) * (MAX_NODE_SCORE / MAX_CUSTOM_PRIORITY_SCORE),
+  }));
+
+  // helper.BuildBrokenLinearFunction, with Go's truncating integer division
+  const brokenLinear = (utilization: bigint): bigint => {
+    const index = points.findIndex(point => utilization <= point.utilization);
+    if (index === -1) return points[points.length - 1].score;
+    if (index === 0) return points[0].score;
+    const [from, to] = [points[index - 1], points[index]];
+    return from.score + (to.score - from.score) * (utilization - from.utilization) / (to.utilization - from.utilization);
+  };
+
+  let nodeScore = 0n;
+  let weightSum = 0n;
+  for (const { requested, allocatable, weight } of toAmounts(resources)) {
+    if (allocatable === 0n) continue;
+    const score = brokenLinear(requested > allocatable ? MAX_UTILIZATION : requested * MAX_UTILIZATION / allocatable);
+    if (score > 0n) {
+      nodeScore += score * weight;
+      weightSum += weight;
+    }
+  }
+  return weightSum === 0n ? 0 : Math.round(Number(nodeScore) / Number(weightSum));
+}
+
+/**
+ * Scores a node by how evenly its resources are requested, like the `NodeResourcesBalancedAllocation`
+ * plugin: 100 minus 100 times the standard deviation of the requested fractions (capped at 1) of
+ * the resources the node has. Weights do not apply.
+ *
+ * @example
+ * ```typescript
+ * balancedAllocationScore([
+ *   { requested: new CPUResource('3'), allocatable: new CPUResource('4') },
+ *   { requested: new MemoryResource('5Gi'), allocatable: new MemoryResource('10Gi') },
+ * ]);  // 87, as the fractions 0.75 and 0.5 deviate by 0.125
+ * ```
+ * @param resources - The requested and allocatable amounts of each resource
+ * @returns The score from 0 to 100
+ * @throws {Error} If amounts of different kinds are paired
+ */
+export function balancedAllocationScore(resources: ScoredResource[]): number {
+  const fractions = toAmounts(resources)
+    .filter(({ allocatable }) => allocatable !== 0n)
+    .map(({ requested, allocatable }) => Math.min(Number(requested) / Number(allocatable), 1));
+
+  let std = 0;
+  if (fractions.length === 2) {
+    std = Math.abs((fractions[0] - fractions[1]) / 2);
+  } else if (fractions.length > 2) {
+    const mean = fractions.reduce((sum, fraction) => sum + fraction, 0) / fractions.length;
+    const sum = fractions.reduce((total, fraction) => total + (fraction - mean) * (fraction - mean), 0);
+    std = Math.sqrt(sum / fractions.length);
+  }
+  return Math.trunc((1 - std) * Number(MAX_NODE_SCORE));
+}
@@ -0,0 +1,136 @@
+import { applyLimitRange, LimitRange } from '../../src/admission/limitRange';
+
+const limits = (...items: LimitRange['spec']['limits']): LimitRange => ({ spec: { limits: items } });
+
+describe('applyLimitRange', () => {
+  describe('defaulting', () => {
+    const limitRange = limits({
+      type: 'Container',
+      default: { cpu: '500m', memory: '512Mi' },
+      defaultRequest: { cpu: '100m', memory: '256Mi' },
+    });
+
+    it('should set default requests and limits and annotate them', () => {
+      const result = applyLimitRange({ containers: [{ name: 'app' }] }, limitRange);
+      expect(result.spec.containers[0].resources).toEqual({
+        requests: { cpu: '100m', memory: '256Mi' },
+        limits: { cpu: '500m', memory: '512Mi' },
+      });
+      expect(result.annotation).toBe('LimitRanger plugin set: cpu, memory request for container app; cpu, memory limit for container app');
+      expect(result.violations).toEqual([]);
+      expect(result.message).toBeUndefined();
+    });
+
+    it('should keep values the container sets', () => {
+      const result = applyLimitRange({
+        initContainers: [{ name: 'migrate', resources: { requests: { cpu: '50m' }, limits: { memory: '1Gi' } } }],
+        containers: [{ name: 'app', resources: { requests: { cpu: '200m', memory: '256Mi' }, limits: { cpu: '1', memory: '1Gi' } } }],
+      }, limitRange);
+      expect(result.spec.containers[0].resources).toEqual({
+        requests: { cpu: '200m', memory: '256Mi' },
+        limits: { cpu: '1', memory: '1Gi' },
+      });
+      // The API server defaults the memory request to the limit before LimitRanger runs
+      expect(result.spec.initContainers![0].resources).toEqual({
+        requests: { cpu: '50m', memory: '1Gi' },
+        limits: { cpu: '500m', memory: '1Gi' },
+      });
+      expect(result.annotation).toBe('LimitRanger plugin set: cpu limit for init container migrate');
+    });
+
+    it('should default limits to max and requests to default or min', () => {
+      const result = applyLimitRange({ containers: [{ name: 'app' }] }, limits({
+        type: 'Container',
+        max: { cpu: '2', memory: '1Gi' },
+        min: { cpu: '10m', 'ephemeral-storage': '1Gi' },
+        default: { memory: '512Mi' },
+      }));
+      expect(result.spec.containers[0].resources).toEqual({
+        requests: { memory: '512Mi', cpu: '2', 'ephemeral-storage': '1Gi' },
+        limits: { memory: '512Mi', cpu: '2' },
+      });
+    });
+
+    it('should not touch pods without Container items', () => {
+      const spec = { containers: [{ name: 'app' }] };
+      const result = applyLimitRange(spec, limits({ type: 'PersistentVolumeClaim', max: { storage: '1Gi' } }));
+      expect(result.spec).toEqual(spec);
+      expect(result.annotation).toBeUndefined();
+    });
+
+    it('should reject defaulted limits below the requests', () => {
+      const result = applyLimitRange({ containers: [{ name: 'app', resources: { requests: { cpu: '2' } } }] }, limitRange, { podName: 'web' });
+      expect(result.violations).toEqual([
+        'spec.containers[0].resources.requests[cpu]: Invalid value: "2": must be less than or equal to cpu limit of 500m',
+      ]);
+      expect(result.message).toBe(
+        'Pod "web" is invalid: spec.containers[0].resources.requests[cpu]: Invalid value: "2": must be less than or equal to cpu limit of 500m',
+      );
+    });
+  });
+
+  describe('constraints', () => {
+    it('should enforce min and max per container', () => {
+      const limitRange = limits({ type: 'Container', min: { cpu: '100m', memory: '64Mi' }, max: { cpu: '1' } });
+      const result = applyLimitRange({
+        containers: [
+          { name: 'app', resources: { requests: { cpu: '50m' }, limits: { cpu: '2' } } },
+          { name: 'proxy', resources: { requests: { cpu: '200m', memory: '32Mi' }, limits: { cpu: '500m', memory: '32Mi' } } },
+        ],
+      }, limitRange, { podName: 'web' });
+      expect(result.violations).toEqual([
+        'minimum cpu usage per Container is 100m, but request is 50m',
+        'maximum cpu usage per Container is 1, but limit is 2',
+        'minimum memory usage per Container is 64Mi, but request is 32Mi',
+      ]);
+    });
+
+    it('should report unset values', () => {
+      // Container items would default the missing values, Pod items do not
+      const result = applyLimitRange({ containers: [{ name: 'app', resources: { requests: { cpu: '200m' } } }] }, limits(
+        { type: 'Pod', min: { memory: '64Mi' }, max: { cpu: '1' } },
+      ), { podName: 'web' });
+      expect(result.violations).toEqual([
+        'minimum memory usage per Pod is 64Mi.  No request is specified',
+        'maximum cpu usage per Pod is 1.  No limit is specified',
+      ]);
+    });
+
+    it('should enforce pod constraints on the pod totals', () => {
+      const result = applyLimitRange({
+        containers: [
+          { name: 'app', resources: { limits: { cpu: '600m', memory: '1Gi' } } },
+          { name: 'proxy', resources: { limits: { cpu: '600m', memory: '1Gi' } } },
+        ],
+        overhead: { cpu: '1' },
+      }, limits({ type: 'Pod', max: { cpu: '1', memory: '4Gi' } }), { podName: 'web' });
+      expect(result.violations).toEqual(['maximum cpu usage per Pod is 1, but limit is 1200m']);
+      expect(result.message).toBe('pods "web" is forbidden: maximum cpu usage per Pod is 1, but limit is 1200m');
+    });
+
+    it('should enforce the max limit to request ratio', () => {
+      const limitRange = limits({ type: 'Container', maxLimitRequestRatio: { cpu: '4', memory: 1.5 } });
+      const spec = { containers: [{ name: 'app', resources: { requests: { cpu: '250m', memory: '1Gi' }, limits: { cpu: '1', memory: '2Gi' } } }] };
+      const result = applyLimitRange(spec, limitRange, { podName: 'web' });
+      expect(result.violations).toEqual(['memory max limit to request ratio per Container is 1500m, but provided ratio is 2.000000']);
+      expect(applyLimitRange({ containers: [{ name: 'app', resources: { limits: { cpu: '1', memory: '1Gi' } } }] }, limitRange).violations)
+        .toEqual([]);
+    });
+
+    it('should require a request and a limit for the ratio', () => {
+      const result = applyLimitRange({ containers: [{ name: 'app', resources: { requests: { cpu: '0' } } }] }, limits(
+        { type: 'Container', maxLimitRequestRatio: { cpu: '2', memory: '2' } },
+      ));
+      expect(result.violations).toEqual([
+        'cpu max limit to request ratio per Container is 2, but no request is specified or request is 0',
+        'memory max limit to request ratio per Container is 2, but no request is specified or request is 0',
+      ]);
+      expect(result.message).toBe('pods "" is forbidden: [' + result.violations.join(', ') + ']');
+    });
+
+    it('should reject invalid ratios', () => {
+      expect(() => applyLimitRange({ containers: [{}] }, limits({ type: 'Container', maxLimitRequestRatio: { cpu: 'x' } })))
+        .toThrow("Invalid limit to request ratio. Must be a number (e.g., '2' or '1.5')");
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { evaluateQuota, podQuotaUsage, ResourceQuota } from '../../src/admission/resourceQuota';
+import { PodSpec } from '../../src/pod/types';
+
+const app: PodSpec = {
+  containers: [{ name: 'app', resources: { requests: { cpu: '500m', memory: '1Gi' }, limits: { cpu: '1', memory: '1536Mi' } } }],
+};
+
+const compute: ResourceQuota = {
+  metadata: { name: 'compute' },
+  spec: { hard: { 'requests.cpu': '2', 'limits.memory': '4Gi', 'count/pods': '10' } },
+};
+
+describe('podQuotaUsage', () => {
+  it('should count requests, limits and the pod itself', () => {
+    expect(podQuotaUsage(app).toJSON()).toEqual({
+      pods: '1',
+      cpu: '500m',
+      'requests.cpu': '500m',
+      'limits.cpu': '1',
+      memory: '1Gi',
+      'requests.memory': '1Gi',
+      'limits.memory': '1536Mi',
+      'count/pods': '1',
+    });
+  });
+
+  it('should count hugepages and extended resources by their requests', () => {
+    const usage = podQuotaUsage({
+      containers: [{ resources: { limits: { memory: '1Gi', 'hugepages-2Mi': '4Mi', 'nvidia.com/gpu': '1' } } }],
+    });
+    expect(usage.get('requests.hugepages-2Mi')?.toString()).toBe('4Mi');
+    expect(usage.get('hugepages-2Mi')?.toString()).toBe('4Mi');
+    expect(usage.get('requests.nvidia.com/gpu')?.toString()).toBe('1');
+    expect(usage.has('limits.nvidia.com/gpu')).toBe(false);
+  });
+
+  it('should include pod overhead', () => {
+    expect(podQuotaUsage({ ...app, overhead: { cpu: '250m' } }).get('requests.cpu')?.toString()).toBe('750m');
+  });
+});
+
+describe('evaluateQuota', () => {
+  it('should admit pods within the quota and return the headroom', () => {
+    const result = evaluateQuota(app, compute, { used: { 'requests.cpu': '1', 'limits.memory': '1Gi', 'count/pods': '4' } });
+    expect(result.allowed).toBe(true);
+    expect(result.allowed && result.headroom.toJSON()).toEqual({ 'requests.cpu': '500m', 'limits.memory': '1536Mi', 'count/pods': '5' });
+    expect(result.requested.toJSON()).toEqual({ 'requests.cpu': '500m', 'limits.memory': '1536Mi', 'count/pods': '1' });
+  });
+
+  it('should read the usage from the quota status', () => {
+    const result = evaluateQuota(app, { ...compute, status: { used: { 'requests.cpu': '1500m' } } });
+    expect(result.allowed && result.headroom.get('requests.cpu')?.toString()).toBe('0');
+  });
+
+  it('should reject pods that exceed the quota with the API server message', () => {
+    const result = evaluateQuota(app, compute, { used: { 'requests.cpu': '1800m', 'limits.memory': '3Gi' }, podName: 'web' });
+    expect(result.allowed).toBe(false);
+    expect(!result.allowed && result.exceeded).toEqual(['limits.memory', 'requests.cpu']);
+    expect(!result.allowed && result.message).toBe(
+      'pods "web" is forbidden: exceeded quota: compute, ' +
+      'requested: limits.memory=1536Mi,requests.cpu=500m, used: limits.memory=3Gi,requests.cpu=1800m, limited: limits.memory=4Gi,requests.cpu=2',
+    );
+  });
+
+  it('should print missing usage as zero', () => {
+    const result = evaluateQuota(app, { spec: { hard: { 'limits.memory': '1Gi' } } }, { podName: 'web' });
+    expect(!result.allowed && result.message).toBe(
+      'pods "web" is forbidden: exceeded quota: , requested: limits.memory=1536Mi, used: limits.memory=0, limited: limits.memory=1Gi',
+    );
+  });
+
+  it('should require containers to specify constrained CPU and memory', () => {
+    const pod: PodSpec = {
+      initContainers: [{ name: 'migrate', resources: { requests: { cpu: '100m' } } }],
+      containers: [{ name: 'app', resources: { limits: { cpu: '1' } } }, { name: 'proxy' }],
+    };
+    const result = evaluateQuota(pod, compute, { podName: 'web' });
+    expect(!result.allowed && result.missing).toEqual(['limits.memory', 'requests.cpu']);
+    expect(!result.allowed && result.message).toBe(
+      'pods "web" is forbidden: failed quota: compute: must specify limits.memory for: app,migrate,proxy; requests.cpu for: proxy',
+    );
+  });
+
+  it('should only count resources the quota constrains', () => {
+    const quota: ResourceQuota = { spec: { hard: { pods: '2', services: '5', 'requests.nvidia.com/gpu': '4' } } };
+    const result = evaluateQuota(app, quota, { used: { pods: '1', services: '7' } });
+    expect(result.allowed && result.headroom.toJSON()).toEqual({ pods: '0', 'requests.nvidia.com/gpu': '4' });
+  });
+
+  it('should report no headroom for resources already over a lowered quota', () => {
+    const result = evaluateQuota(app, compute, { used: { 'limits.memory': '1Gi', 'requests.memory': '9Gi', 'count/pods': '12' } });
+    expect(result.allowed).toBe(false);
+
+    const lowered = evaluateQuota(app, { spec: { hard: { 'requests.cpu': '2', 'requests.nvidia.com/gpu': '1' } } }, {
+      used: { 'requests.nvidia.com/gpu': '2' },
+    });
+    expect(lowered.allowed && lowered.headroom.toJSON()).toEqual({ 'requests.cpu': '1500m', 'requests.nvidia.com/gpu': '0' });
+  });
+
+  it('should skip quotas that track no pod resources', () => {
+    const result = evaluateQuota(app, { spec: { hard: { services: '0' } } });
+    expect(result).toMatchObject({ allowed: true, matched: false });
+  });
+
+  describe('scopes', () => {
+    const bestEffort: PodSpec = { containers: [{ name: 'app' }] };
+    const pods = (spec: ResourceQuota['spec']) => ({ spec: { ...spec, hard: { pods: '0' } } });
+
+    it('should apply BestEffort and NotBestEffort quotas by QoS class', () => {
+      expect(evaluateQuota(bestEffort, pods({ hard: {}, scopes: ['BestEffort'] })).allowed).toBe(false);
+      expect(evaluateQuota(app, pods({ hard: {}, scopes: ['BestEffort'] })).allowed).toBe(true);
+      expect(evaluateQuota(app, pods({ hard: {}, scopes: ['NotBestEffort'] })).allowed).toBe(false);
+    });
+
+    it('should apply Terminating quotas to pods with an active deadline', () => {
+      const job: PodSpec = { ...bestEffort, activeDeadlineSeconds: 0 };
+      expect(evaluateQuota(job, pods({ hard: {}, scopes: ['Terminating'] })).allowed).toBe(false);
+      expect(evaluateQuota(bestEffort, pods({ hard: {}, scopes: ['Terminating'] })).allowed).toBe(true);
+      expect(evaluateQuota(bestEffort, pods({ hard: {}, scopes: ['NotTerminating', 'BestEffort'] })).allowed).toBe(false);
+    });
+
+    it('should select priority classes', () => {
+      const high: PodSpec = { ...bestEffort, priorityClassName: 'high' };
+      const selector = (operator: 'In' | 'NotIn' | 'Exists' | 'DoesNotExist') =>
+        pods({ hard: {}, scopeSelector: { matchExpressions: [{ scopeName: 'PriorityClass', operator, values: ['high'] }] } });
+      expect(evaluateQuota(high, selector('In')).allowed).toBe(false);
+      expect(evaluateQuota(bestEffort, selector('In')).allowed).toBe(true);
+      expect(evaluateQuota(bestEffort, selector('NotIn')).allowed).toBe(false);
+      expect(evaluateQuota(high, selector('Exists')).allowed).toBe(false);
+      expect(evaluateQuota(bestEffort, selector('Exists')).allowed).toBe(true);
+      expect(evaluateQuota(bestEffort, selector('DoesNotExist')).allowed).toBe(true);
+    });
+
+    it('should reject unsupported scopes', () => {
+      const quota = { spec: { hard: { pods: '1' }, scopes: ['CrossNamespacePodAffinity'] } } as unknown as ResourceQuota;
+      expect(() => evaluateQuota(app, quota)).toThrow('Unsupported quota scope "CrossNamespacePodAffinity"');
+    });
+  });
+});
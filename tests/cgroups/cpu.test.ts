@@ -0,0 +1,89 @@
+import {
+  fromCFSQuota, fromCPUMax, fromCPUShares, fromCPUWeight, sharesToWeight, toCFSQuota, toCPUMax, toCPUShares, toCPUWeight, weightToShares,
+} from '../../src/cgroups/cpu';
+import { CPUResource } from '../../src/resources/CPUResource';
+
+const cpu = (value: string) => new CPUResource(value);
+
+describe('cpu.shares', () => {
+  it('should convert requests like MilliCPUToShares', () => {
+    expect(toCPUShares(cpu('1'))).toBe(1024);
+    expect(toCPUShares(cpu('100m'))).toBe(102);
+    expect(toCPUShares(cpu('250m'))).toBe(256);
+  });
+
+  it('should clamp to the kernel range', () => {
+    expect(toCPUShares(cpu('0'))).toBe(2);
+    expect(toCPUShares(cpu('1m'))).toBe(2);
+    expect(toCPUShares(cpu('300'))).toBe(262144);
+  });
+
+  it('should convert shares back like SharesToMilliCPU', () => {
+    expect(fromCPUShares(1024).toString()).toBe('1');
+    expect(fromCPUShares('102\n').toString()).toBe('100m');
+    expect(fromCPUShares(2).toString()).toBe('2m');
+    expect(fromCPUShares(0).toString()).toBe('0');
+    expect(() => fromCPUShares('lots')).toThrow('Invalid cpu.shares value "lots". Must be a whole number');
+  });
+});
+
+describe('cpu.weight', () => {
+  it('should map shares to weights and back', () => {
+    expect(sharesToWeight(2)).toBe(1);
+    expect(sharesToWeight(1024)).toBe(39);
+    expect(sharesToWeight(262144)).toBe(10000);
+    expect(weightToShares(1)).toBe(2);
+    expect(weightToShares(39)).toBe(998);
+    expect(weightToShares(10000)).toBe(262144);
+  });
+
+  it('should reject values out of range', () => {
+    expect(() => sharesToWeight(1)).toThrow('cpu.shares must be a whole number from 2 to 262144, got 1');
+    expect(() => weightToShares(10001)).toThrow('cpu.weight must be a whole number from 1 to 10000, got 10001');
+  });
+
+  it('should convert requests by way of shares', () => {
+    expect(toCPUWeight(cpu('1'))).toBe(39);
+    expect(toCPUWeight(cpu('100m'))).toBe(4);
+    expect(toCPUWeight(cpu('0'))).toBe(1);
+    expect(fromCPUWeight('39').toString()).toBe('975m');
+  });
+});
+
+describe('CFS quota', () => {
+  it('should convert limits like MilliCPUToQuota', () => {
+    expect(toCFSQuota(cpu('250m'))).toBe(25000);
+    expect(toCFSQuota(cpu('2'))).toBe(200000);
+    expect(toCFSQuota(cpu('500m'), 50000)).toBe(25000);
+  });
+
+  it('should set a quota of at least 1ms and leave zero limits unset', () => {
+    expect(toCFSQuota(cpu('5m'))).toBe(1000);
+    expect(toCFSQuota(cpu('0'))).toBe(-1);
+  });
+
+  it('should validate the period', () => {
+    expect(() => toCFSQuota(cpu('1'), 500)).toThrow('CFS period must be a whole number of microseconds from 1000 to 1000000, got 500');
+  });
+
+  it('should convert quotas back like QuotaToMilliCPU', () => {
+    expect(fromCFSQuota(25000)?.toString()).toBe('250m');
+    expect(fromCFSQuota('33333', '100000')?.toString()).toBe('333m');
+    expect(fromCFSQuota(-1)).toBeUndefined();
+  });
+});
+
+describe('cpu.max', () => {
+  it('should write the quota and period', () => {
+    expect(toCPUMax(cpu('250m'))).toBe('25000 100000');
+    expect(toCPUMax(cpu('0'))).toBe('max 100000');
+    expect(toCPUMax(cpu('1'), 10000)).toBe('10000 10000');
+  });
+
+  it('should read the quota and period', () => {
+    expect(fromCPUMax('25000 100000\n')?.toString()).toBe('250m');
+    expect(fromCPUMax('150000 50000')?.toString()).toBe('3');
+    expect(fromCPUMax('max 100000')).toBeUndefined();
+    expect(() => fromCPUMax('1 2 3')).toThrow('Invalid cpu.max value "1 2 3". Must be "<quota> <period>" or "max <period>"');
+  });
+});
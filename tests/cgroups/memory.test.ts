@@ -0,0 +1,60 @@
+import {
+  fromMemoryLimitInBytes, fromMemoryMax, toMemoryHigh, toMemoryLimitInBytes, toMemoryMax, toMemoryMin, UNLIMITED_MEMORY_V1,
+} from '../../src/cgroups/memory';
+import { MemoryResource } from '../../src/resources/MemoryResource';
+
+const memory = (value: string) => new MemoryResource(value);
+
+describe('memory.limit_in_bytes', () => {
+  it('should write limits in bytes and leave zero limits unlimited', () => {
+    expect(toMemoryLimitInBytes(memory('512Mi'))).toBe(536870912n);
+    expect(toMemoryLimitInBytes(memory('0'))).toBe(UNLIMITED_MEMORY_V1);
+  });
+
+  it('should read limits back', () => {
+    expect(fromMemoryLimitInBytes('536870912\n')?.toString()).toBe('512Mi');
+    expect(fromMemoryLimitInBytes('9223372036854771712')).toBeUndefined();
+    expect(fromMemoryLimitInBytes(-1)).toBeUndefined();
+  });
+});
+
+describe('memory.max and memory.min', () => {
+  it('should write limits and requests in bytes', () => {
+    expect(toMemoryMax(memory('1Gi'))).toBe('1073741824');
+    expect(toMemoryMax(memory('0'))).toBe('max');
+    expect(toMemoryMin(memory('128Mi'))).toBe('134217728');
+  });
+
+  it('should read values back', () => {
+    expect(fromMemoryMax('1073741824\n')?.toString()).toBe('1Gi');
+    expect(fromMemoryMax('max\n')).toBeUndefined();
+    expect(() => fromMemoryMax('lots')).toThrow('Invalid memory.max value "lots". Must be a whole number');
+  });
+});
+
+describe('toMemoryHigh', () => {
+  it('should throttle at the factor between request and limit, rounded down to pages', () => {
+    // 128Mi + 0.9 * 128Mi = 255013683.2 bytes, 62259 pages
+    expect(toMemoryHigh(memory('128Mi'), memory('256Mi'))).toBe('255012864');
+    expect(toMemoryHigh(memory('0'), memory('1Gi'), { throttlingFactor: 0.5 })).toBe('536870912');
+  });
+
+  it('should use the node allocatable memory without a limit', () => {
+    expect(toMemoryHigh(memory('1Gi'), memory('0'), { nodeAllocatable: memory('3Gi') })).toBe('3006476288');
+    expect(toMemoryHigh(memory('1Gi'), memory('0'))).toBe('max');
+  });
+
+  it('should leave memory.high unset when the request equals the limit', () => {
+    expect(toMemoryHigh(memory('1Gi'), memory('1Gi'))).toBe('max');
+  });
+
+  it('should leave memory.high unset when it would not be above the request', () => {
+    expect(toMemoryHigh(memory('1000'), memory('2000'))).toBe('max');
+  });
+
+  it('should validate the options', () => {
+    expect(() => toMemoryHigh(memory('1Gi'), memory('2Gi'), { throttlingFactor: 1.5 }))
+      .toThrow('Memory throttling factor must be greater than 0 and at most 1, got 1.5');
+    expect(() => toMemoryHigh(memory('1Gi'), memory('2Gi'), { pageSize: 0 })).toThrow('Page size must be a positive whole number of bytes, got 0');
+  });
+});
@@ -0,0 +1,186 @@
+import { join } from 'path';
+import { main } from '../../src/cli/main';
+
+function run(...argv: string[]) {
+  let stdout = '';
+  let stderr = '';
+  const code = main(argv, {
+    stdout: { write: (text: string) => (stdout += text) },
+    stderr: { write: (text: string) => (stderr += text) },
+  });
+  return { code, stdout, stderr };
+}
+
+const fixtures = join(__dirname, '..', 'manifests', 'fixtures');
+
+describe('main', () => {
+  describe('calc', () => {
+    it('should print the result of an expression', () => {
+      expect(run('calc', '3 * 250m + 1.5')).toEqual({ code: 0, stdout: '2250m\n', stderr: '' });
+    });
+
+    it('should join arguments into one expression', () => {
+      expect(run('calc', '1Gi', '+', '512Mi').stdout).toBe('1536Mi\n');
+    });
+
+    it('should print JSON and CSV', () => {
+      expect(JSON.parse(run('calc', '1.5', '-o', 'json').stdout)).toEqual({ type: 'ratio', value: '1.5' });
+      expect(run('calc', '1 + 1m', '--output', 'csv').stdout).toBe('type,value\ncpu,1001m\n');
+    });
+
+    it('should exit with 1 on invalid expressions', () => {
+      expect(run('calc', '1Gi + 100m')).toEqual({
+        code: 1, stdout: '', stderr: 'k8s-resources: Cannot add CPU to memory at position 4\n',
+      });
+    });
+  });
+
+  describe('convert', () => {
+    it('should convert between units exactly', () => {
+      expect(run('convert', '1536Mi', '--to', 'Gi').stdout).toBe('1.5Gi\n');
+      expect(run('convert', '1G', '--to', 'Mi').stdout).toBe('953.67431640625Mi\n');
+      expect(run('convert', '250m', '--to', 'cores').stdout).toBe('0.25\n');
+      expect(run('convert', '2', '--to', 'm').stdout).toBe('2000m\n');
+    });
+
+    it('should reject converting between CPU and memory', () => {
+      expect(run('convert', '100m', '--to', 'Mi').code).toBe(1);
+      expect(run('convert', '1Gi', '--to', 'm').code).toBe(1);
+    });
+
+    it('should exit with 1 on invalid quantities', () => {
+      expect(run('convert', '1.2.3', '--to', 'Mi')).toEqual({
+        code: 1, stdout: '', stderr: 'k8s-resources: Invalid quantity "1.2.3"\n',
+      });
+    });
+
+    it('should exit with 2 on missing or unknown units', () => {
+      expect(run('convert', '1Gi').code).toBe(2);
+      expect(run('convert', '1Gi', '--to', 'GB').code).toBe(2);
+    });
+  });
+
+  describe('sum', () => {
+    it('should print workload and namespace totals as a table', () => {
+      const { code, stdout } = run('sum', fixtures);
+      expect(code).toBe(0);
+      expect(stdout.split('\n')).toEqual([
+        'KIND         NAMESPACE   NAME     REPLICAS   CPU REQUESTS   CPU LIMITS   MEMORY REQUESTS   MEMORY LIMITS',
+        'Job          default     worker   4          4              -            4Gi               -',
+        'Deployment   shop        web      3          750m           -            768Mi             1536Mi',
+        '',
+        'NAMESPACE   CPU REQUESTS   CPU LIMITS   MEMORY REQUESTS   MEMORY LIMITS',
+        'default     4              -            4Gi               -',
+        'shop        750m           -            768Mi             1536Mi',
+        'TOTAL       4750m          -            4864Mi            1536Mi',
+        '',
+      ]);
+    });
+
+    it('should print CSV with a scope column', () => {
+      expect(run('sum', fixtures, '-o', 'csv').stdout.split('\n')).toEqual([
+        'scope,kind,namespace,name,replicas,cpu_requests,cpu_limits,memory_requests,memory_limits',
+        'workload,Job,default,worker,4,4,,4Gi,',
+        'workload,Deployment,shop,web,3,750m,,768Mi,1536Mi',
+        'namespace,,default,,,4,,4Gi,',
+        'namespace,,shop,,,750m,,768Mi,1536Mi',
+        'total,,,,,4750m,,4864Mi,1536Mi',
+        '',
+      ]);
+    });
+
+    it('should print JSON', () => {
+      const result = JSON.parse(run('sum', fixtures, '-o', 'json', '-n', 'batch').stdout);
+      expect(Object.keys(result.namespaces)).toEqual(['batch', 'shop']);
+      expect(result.total.requests).toEqual({ cpu: '4750m', memory: '4864Mi' });
+      expect(result.workloads[1]).toMatchObject({ kind: 'Deployment', name: 'web', replicas: 3 });
+    });
+
+    it('should exit with 1 when a manifest cannot be read', () => {
+      const { code, stderr } = run('sum', join(fixtures, 'missing.yaml'));
+      expect(code).toBe(1);
+      expect(stderr).toMatch(/^k8s-resources: /);
+    });
+  });
+
+  describe('diff', () => {
+    const web = join(fixtures, 'web.yaml');
+
+    it('should print the changes as a table', () => {
+      expect(run('diff', web, fixtures).stdout.split('\n')).toEqual([
+        'KIND   NAMESPACE   NAME     CHANGE   REPLICAS BEFORE   REPLICAS AFTER   CPU REQUESTS   CPU LIMITS   MEMORY REQUESTS   MEMORY LIMITS',
+        'Job    default     worker   added    0                 4                +4             0            +4Gi              0',
+        '',
+        'NAMESPACE   CPU REQUESTS   CPU LIMITS   MEMORY REQUESTS   MEMORY LIMITS',
+        'default     +4             0            +4Gi              0',
+        'TOTAL       +4             0            +4Gi              0',
+        '',
+      ]);
+    });
+
+    it('should print JSON and Markdown', () => {
+      const result = JSON.parse(run('diff', fixtures, web, '-o', 'json').stdout);
+      expect(result.total.requests).toEqual({ cpu: '-4', memory: '-4Gi' });
+      expect(result.workloads[0]).toMatchObject({ name: 'worker', change: 'removed', replicas: { before: 4, after: 0 } });
+      expect(run('diff', web, fixtures, '-o', 'markdown').stdout).toMatch(/^\*\*Requests:\*\* \+4 CPU, \+4Gi memory/);
+    });
+
+    it('should exit with 2 without two paths', () => {
+      expect(run('diff', web).code).toBe(2);
+      expect(run('sum', web, '-o', 'markdown').stderr).toBe('k8s-resources: Markdown output is only supported by diff\n');
+    });
+  });
+
+  describe('lint', () => {
+    const lintFixtures = join(__dirname, '..', 'lint', 'fixtures');
+    const workloads = join(lintFixtures, 'workloads.yaml');
+    const config = join(lintFixtures, 'lint.yaml');
+
+    it('should print findings of the default rules and exit with 0 without errors', () => {
+      const { code, stdout } = run('lint', workloads);
+      expect(code).toBe(0);
+      const lines = stdout.split('\n');
+      expect(lines[0]).toMatch(/^SEVERITY +LOCATION +RULE +WORKLOAD +MESSAGE$/);
+      expect(lines[1]).toMatch(/^warning +\S+workloads\.yaml:37 +no-best-effort +CronJob\/prod-batch\/report +CronJob "report" has the BestEffort QoS class/);
+      expect(lines).toHaveLength(10);
+    });
+
+    it('should exit with 1 on errors', () => {
+      const { code, stdout } = run('lint', workloads, '--config', config, '-o', 'csv');
+      expect(code).toBe(1);
+      expect(stdout.split('\n')[0]).toBe('severity,source,line,rule,kind,namespace,name,container,message');
+      expect(stdout.split('\n')[1]).toBe(`error,${workloads},14,max-requests,Deployment,prod,api,app,"Container ""app"" requests 8 cpu, above the maximum of 4"`);
+    });
+
+    it('should print JSON and SARIF', () => {
+      const findings = JSON.parse(run('lint', workloads, '-c', config, '-o', 'json').stdout);
+      expect(findings).toHaveLength(6);
+      expect(findings[1]).toMatchObject({ ruleId: 'request-equals-limit', line: 15, message: 'Container "app" requests 1G memory but is limited to 1Gi' });
+      const sarif = JSON.parse(run('lint', workloads, '-c', config, '-o', 'sarif').stdout);
+      expect(sarif.runs[0].results).toHaveLength(6);
+      expect(sarif.runs[0].results[0].locations[0].physicalLocation.region).toEqual({ startLine: 14 });
+    });
+
+    it('should exit with 1 on invalid configs and 2 without paths', () => {
+      const pricing = join(__dirname, '..', 'cost', 'fixtures', 'pricing.yaml');
+      const { code, stderr } = run('lint', workloads, '-c', pricing);
+      expect(code).toBe(1);
+      expect(stderr).toBe(`k8s-resources: ${pricing}: Invalid lint config: expected an object with rules\n`);
+      expect(run('lint').code).toBe(2);
+      expect(run('sum', workloads, '-o', 'sarif').stderr).toBe('k8s-resources: SARIF output is only supported by lint\n');
+    });
+  });
+
+  it('should exit with 2 on usage errors', () => {
+    expect(run().code).toBe(2);
+    expect(run('frobnicate').stderr).toBe('k8s-resources: Unknown command "frobnicate"\n');
+    expect(run('calc', '1', '--bogus').code).toBe(2);
+    expect(run('calc', '1', '-o', 'xml').code).toBe(2);
+  });
+
+  it('should print usage with --help', () => {
+    const { code, stdout } = run('--help');
+    expect(code).toBe(0);
+    expect(stdout).toMatch(/^Usage: k8s-resources/);
+  });
+});
@@ -0,0 +1,82 @@
+import { idleCost, namespaceCosts, resourceCost, workloadCost } from '../../src/cost/cost';
+import { Pricing } from '../../src/cost/pricing';
+import { CPUResource } from '../../src/resources/CPUResource';
+import { MemoryResource } from '../../src/resources/MemoryResource';
+import { ResourceList } from '../../src/resources/ResourceList';
+
+const pricing: Pricing = {
+  default: { cpuPerHour: 0.04, memoryGiBPerHour: 0.005 },
+  rates: [{ capacityType: 'spot', cpuPerHour: 0.01, memoryGiBPerHour: 0.001 }],
+};
+const resources = (cpu: string, memory: string) => ({ cpu: new CPUResource(cpu), memory: new MemoryResource(memory) });
+
+describe('resourceCost', () => {
+  it('should price vCPU-hours and GiB-hours', () => {
+    const cost = resourceCost(resources('500m', '2Gi'), pricing);
+    expect(cost.cpu).toBeCloseTo(0.02);
+    expect(cost.memory).toBeCloseTo(0.01);
+    expect(cost.hourly).toBeCloseTo(0.03);
+    expect(cost.monthly).toBeCloseTo(21.9);
+  });
+
+  it('should use the prices of the context and the hours per month of the model', () => {
+    expect(resourceCost(resources('2', '1Gi'), pricing, { capacityType: 'spot' }).hourly).toBeCloseTo(0.021);
+    expect(resourceCost(resources('1', '0'), { ...pricing, hoursPerMonth: 720 }).monthly).toBeCloseTo(28.8);
+  });
+});
+
+describe('idleCost', () => {
+  it('should price the requests above the usage', () => {
+    const cost = idleCost(resources('2', '4Gi'), resources('500m', '1Gi'), pricing);
+    expect(cost.cpu).toBeCloseTo(0.06);
+    expect(cost.memory).toBeCloseTo(0.015);
+  });
+
+  it('should not count usage above the requests', () => {
+    const cost = idleCost(resources('1', '1Gi'), resources('3', '512Mi'), pricing);
+    expect(cost.cpu).toBe(0);
+    expect(cost.memory).toBeCloseTo(0.0025);
+  });
+});
+
+describe('workloadCost', () => {
+  const workload = { requests: new ResourceList({ cpu: '3', memory: '6Gi', 'nvidia.com/gpu': '1' }) };
+
+  it('should price the CPU and memory requests', () => {
+    const cost = workloadCost(workload, pricing);
+    expect(cost.hourly).toBeCloseTo(0.15);
+    expect(cost.idle).toBeUndefined();
+  });
+
+  it('should price idle requests when the usage is given', () => {
+    const cost = workloadCost(workload, pricing, { context: { capacityType: 'spot' }, usage: resources('1', '6Gi') });
+    expect(cost.hourly).toBeCloseTo(0.036);
+    expect(cost.idle!.hourly).toBeCloseTo(0.02);
+  });
+});
+
+describe('namespaceCosts', () => {
+  const workloads = [
+    { kind: 'Deployment', name: 'web', namespace: 'shop', requests: new ResourceList({ cpu: '1', memory: '2Gi' }) },
+    { kind: 'Job', name: 'report', namespace: 'analytics', requests: new ResourceList({ cpu: '4', memory: '8Gi' }) },
+    { kind: 'Deployment', name: 'api', namespace: 'shop', requests: new ResourceList({ cpu: '2', memory: '4Gi' }) },
+  ];
+
+  it('should sum the workloads of each namespace', () => {
+    const costs = namespaceCosts(workloads, pricing);
+    expect(Object.keys(costs)).toEqual(['analytics', 'shop']);
+    expect(costs.shop.hourly).toBeCloseTo(0.15);
+    expect(costs.analytics.monthly).toBeCloseTo(146);
+    expect(costs.shop.idle).toBeUndefined();
+  });
+
+  it('should price each workload for where it runs and sum the known idle costs', () => {
+    const costs = namespaceCosts(workloads, pricing, {
+      contextOf: workload => workload.name === 'report' ? { capacityType: 'spot' } : undefined,
+      usageOf: workload => workload.name === 'web' ? resources('250m', '2Gi') : undefined,
+    });
+    expect(costs.analytics.hourly).toBeCloseTo(0.048);
+    expect(costs.analytics.idle).toBeUndefined();
+    expect(costs.shop.idle!.hourly).toBeCloseTo(0.03);
+  });
+});
@@ -0,0 +1,68 @@
+import { join } from 'path';
+import { loadPricing, parsePricing, pricesFor } from '../../src/cost/pricing';
+import { ConfigError } from '../../src/errors';
+
+const fixtures = join(__dirname, 'fixtures');
+
+describe('loadPricing', () => {
+  it('should read a pricing file', () => {
+    const pricing = loadPricing(join(fixtures, 'pricing.yaml'));
+    expect(pricing.currency).toBe('USD');
+    expect(pricing.default).toEqual({ cpuPerHour: 0.04, memoryGiBPerHour: 0.005 });
+    expect(pricing.rates).toHaveLength(3);
+    expect(pricing.rates![2]).toEqual({ nodePool: 'gpu', capacityType: 'spot', cpuPerHour: 0.03, memoryGiBPerHour: 0.003 });
+  });
+
+  it('should fail for missing files', () => {
+    expect(() => loadPricing(join(fixtures, 'missing.yaml'))).toThrow('ENOENT');
+  });
+});
+
+describe('parsePricing', () => {
+  it('should read JSON', () => {
+    expect(parsePricing('{"hoursPerMonth": 720, "default": {"cpuPerHour": 0.03, "memoryGiBPerHour": 0.004}}'))
+      .toEqual({ hoursPerMonth: 720, default: { cpuPerHour: 0.03, memoryGiBPerHour: 0.004 } });
+  });
+
+  it('should report invalid models with their source', () => {
+    expect(() => parsePricing('- 1', 'prices.yaml')).toThrow('prices.yaml: Invalid pricing: expected an object');
+    expect(() => parsePricing('default: {cpuPerHour: 1}')).toThrow('Invalid pricing: default.memoryGiBPerHour must be a non-negative number, got undefined');
+    expect(() => parsePricing('rates: [{cpuPerHour: -1, memoryGiBPerHour: 0}]')).toThrow('rates[0].cpuPerHour must be a non-negative number, got -1');
+    expect(() => parsePricing('rates: [{capacityType: reserved, cpuPerHour: 1, memoryGiBPerHour: 0}]'))
+      .toThrow('rates[0].capacityType must be "on-demand" or "spot", got "reserved"');
+    expect(() => parsePricing('hoursPerMonth: 0')).toThrow('hoursPerMonth must be a number from 1 to 744, got 0');
+    expect(() => parsePricing('default: [')).toThrow('Invalid pricing:');
+  });
+
+  it('should throw config errors that keep the YAML error as the cause', () => {
+    expect(() => parsePricing('rates: {}')).toThrow(ConfigError);
+    try {
+      parsePricing('default: [');
+    } catch (error) {
+      expect((error as ConfigError).code).toBe('ERR_INVALID_CONFIG');
+      expect((error as ConfigError).cause).toBeInstanceOf(Error);
+    }
+    expect.assertions(3);
+  });
+});
+
+describe('pricesFor', () => {
+  const pricing = loadPricing(join(fixtures, 'pricing.yaml'));
+
+  it('should pick the matching rate that names the most fields', () => {
+    expect(pricesFor(pricing, { nodePool: 'gpu', capacityType: 'spot' }).cpuPerHour).toBe(0.03);
+    expect(pricesFor(pricing, { nodePool: 'gpu', capacityType: 'on-demand' }).cpuPerHour).toBe(0.1);
+    expect(pricesFor(pricing, { nodePool: 'general', capacityType: 'spot', region: 'eu-west-1' }).cpuPerHour).toBe(0.012);
+  });
+
+  it('should fall back to the default prices', () => {
+    expect(pricesFor(pricing, { nodePool: 'general' })).toEqual({ cpuPerHour: 0.04, memoryGiBPerHour: 0.005 });
+    expect(pricesFor(pricing)).toEqual({ cpuPerHour: 0.04, memoryGiBPerHour: 0.005 });
+  });
+
+  it('should fail without a matching rate or default', () => {
+    expect(() => pricesFor({ rates: pricing.rates }, { nodePool: 'general', region: 'us-east-1' }))
+      .toThrow('No price for nodePool "general", region "us-east-1"');
+    expect(() => pricesFor({})).toThrow('No price for the default context');
+  });
+});
@@ -0,0 +1,50 @@
+import {
+  InvalidArgumentError, NegativeResourceError, OverflowError, PrecisionError, ResourceError, ResourceParseError,
+  UnitMismatchError,
+} from '../src/errors';
+import { CPUResource } from '../src/resources/CPUResource';
+import { MemoryResource } from '../src/resources/MemoryResource';
+import { ResourceList } from '../src/resources/ResourceList';
+
+function thrown(fn: () => unknown): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('expected an error');
+}
+
+describe('errors', () => {
+  it('should report parse errors with the input, position and hint', () => {
+    const error = thrown(() => new CPUResource('100x')) as ResourceParseError;
+    expect(error).toBeInstanceOf(ResourceParseError);
+    expect(error).toBeInstanceOf(ResourceError);
+    expect(error.code).toBe('ERR_RESOURCE_PARSE');
+    expect(error.name).toBe('ResourceParseError');
+    expect(error.input).toBe('100x');
+    expect(error.position).toBe(3);
+    expect(error.hint).toMatch(/^a Kubernetes quantity suffix/);
+    expect(error.message).toBe(`Invalid CPU unit. Must be ${error.hint}`);
+  });
+
+  it('should report the position of malformed numbers', () => {
+    const error = thrown(() => new MemoryResource('1.2.3Gi')) as ResourceParseError;
+    expect(error.position).toBe(3);
+    expect(error.hint).toBe("a number followed by an optional unit (e.g., '128Mi' or '1Gi')");
+  });
+
+  it.each([
+    [() => new CPUResource('-1'), NegativeResourceError, 'ERR_RESOURCE_NEGATIVE'],
+    [() => new MemoryResource('1Gi').minus(new MemoryResource('2Gi')), NegativeResourceError, 'ERR_RESOURCE_NEGATIVE'],
+    [() => new MemoryResource('8Ei'), OverflowError, 'ERR_RESOURCE_OVERFLOW'],
+    [() => new CPUResource('0.5m'), PrecisionError, 'ERR_RESOURCE_PRECISION'],
+    [() => CPUResource.fromCores(NaN), InvalidArgumentError, 'ERR_INVALID_ARGUMENT'],
+    [() => new CPUResource('1').dividedBy(0), InvalidArgumentError, 'ERR_INVALID_ARGUMENT'],
+    [() => new ResourceList({ cpu: new MemoryResource('1Gi') }), UnitMismatchError, 'ERR_UNIT_MISMATCH'],
+  ])('should throw typed errors with stable codes (%#)', (fn, type, code) => {
+    const error = thrown(fn) as ResourceError;
+    expect(error).toBeInstanceOf(type);
+    expect(error.code).toBe(code);
+  });
+});
@@ -0,0 +1,109 @@
+import { evaluateExpression } from '../../src/expression/evaluate';
+import { parseExpression } from '../../src/expression/parseExpression';
+import { CPUResource } from '../../src/resources/CPUResource';
+import { MemoryResource } from '../../src/resources/MemoryResource';
+
+function value(expression: string, variables = {}) {
+  return String(evaluateExpression(expression, variables).value);
+}
+
+describe('evaluateExpression', () => {
+  it('should return typed results', () => {
+    const memory = evaluateExpression('(2Gi - 256Mi) * 3');
+    expect(memory.type).toBe('memory');
+    expect(memory.value).toBeInstanceOf(MemoryResource);
+    expect(memory.value.toString()).toBe('5376Mi');
+
+    const cpu = evaluateExpression('max(500m, 0.3) + 100m');
+    expect(cpu.type).toBe('cpu');
+    expect(cpu.value).toBeInstanceOf(CPUResource);
+    expect(cpu.value.toString()).toBe('600m');
+
+    expect(evaluateExpression('4Gi / 512Mi')).toEqual({ type: 'ratio', value: 8 });
+  });
+
+  it('should read numbers combined with resources as cores or bytes', () => {
+    expect(value('3 * 250m + 1.5')).toBe('2250m');
+    expect(value('1Gi + 1024')).toBe('1048577Ki');
+    expect(value('min(1Gi, 1e6)')).toBe('1M');
+  });
+
+  it('should read decimal SI suffixes and exponents as numbers that take their type from the context', () => {
+    expect(evaluateExpression('2k + 500m')).toEqual({ type: 'cpu', value: new CPUResource('2000500m') });
+    expect(value('1e3 + 1m')).toBe('1000001m');
+    expect(evaluateExpression('1G + 1Gi').type).toBe('memory');
+    expect(evaluateExpression('2M')).toEqual({ type: 'ratio', value: 2000000 });
+    expect(() => evaluateExpression('1Ki + 500m')).toThrow('Cannot add CPU to memory');
+  });
+
+  it('should follow operator precedence, parentheses and unary minus', () => {
+    expect(value('1 + 2 * 3')).toBe('7');
+    expect(value('(1 + 2) * 3')).toBe('9');
+    expect(value('10 - -2')).toBe('12');
+    expect(value('1 / 4 * 100m')).toBe('25m');
+  });
+
+  it('should keep intermediate results exact', () => {
+    expect(value('0.1 + 0.2')).toBe('0.3');
+    expect(value('1Gi / 3 * 3')).toBe('1Gi');
+    expect(value('1 / 3')).toBe(String(1 / 3));
+  });
+
+  it('should round resource results down to whole millicores and bytes', () => {
+    expect(value('1 / 3 * 1')).toBe(String(1 / 3));
+    expect(value('100m / 3')).toBe('33m');
+    expect(value('1Ki / 3')).toBe('341');
+  });
+
+  it('should keep the format of the leftmost resource', () => {
+    expect(value('1G + 24Mi')).toBe('1025165824');
+    expect(value('1Gi + 1G')).toBe('2073741824');
+    expect(value('x * 2', { x: new CPUResource('1e3') })).toBe('2e3');
+  });
+
+  it('should substitute variables', () => {
+    expect(value('512Mi + 64Mi * partitions', { partitions: 4 })).toBe('768Mi');
+    expect(value('base * 2', { base: new CPUResource('250m') })).toBe('500m');
+    expect(value('heap / 0.75', { heap: new MemoryResource('3Gi') })).toBe('4Gi');
+  });
+
+  it('should evaluate parsed expressions', () => {
+    const formula = parseExpression('512Mi + 64Mi * partitions');
+    expect(value(formula as never, { partitions: 1 })).toBe('576Mi');
+    expect(String(evaluateExpression(formula, { partitions: 8 }).value)).toBe('1Gi');
+  });
+
+  it('should reject mixing CPU and memory', () => {
+    expect(() => evaluateExpression('1Gi + 100m')).toThrow('Cannot add CPU to memory at position 4');
+    expect(() => evaluateExpression('1Gi - 100m')).toThrow('Cannot subtract CPU from memory at position 4');
+    expect(() => evaluateExpression('1Gi * 1Gi')).toThrow('Cannot multiply memory by memory at position 4');
+    expect(() => evaluateExpression('1Gi / 100m')).toThrow('Cannot divide memory by CPU at position 4');
+    expect(() => evaluateExpression('2 / 100m')).toThrow('Cannot divide ratio by CPU at position 2');
+    expect(() => evaluateExpression('max(1Gi, 0.5, 2)')).not.toThrow();
+    expect(() => evaluateExpression('max(1Gi, 500m)')).toThrow('Cannot compare CPU with memory at position 9');
+  });
+
+  it('should reject negative resources at the operator', () => {
+    expect(() => evaluateExpression('100m - 1')).toThrow('CPU resources cannot be negative at position 5');
+    expect(() => evaluateExpression('-1Gi')).toThrow('Memory resources cannot be negative at position 0');
+    expect(value('-1 + 2')).toBe('1');
+  });
+
+  it('should validate literals like the resource classes', () => {
+    expect(() => evaluateExpression('1 + 0.5m')).toThrow('CPU resources must be whole numbers of millicores at position 4');
+    expect(() => evaluateExpression('1 + 5Qi')).toThrow('Invalid quantity "5Qi" at position 4');
+  });
+
+  it('should report unknown names and division by zero', () => {
+    expect(() => evaluateExpression('1Gi * n')).toThrow('Unknown variable "n" at position 6');
+    expect(() => evaluateExpression('x', { x: Infinity })).toThrow('Variable "x" must be a finite number at position 0');
+    expect(() => evaluateExpression('avg(1, 2)')).toThrow('Unknown function "avg" at position 0');
+    expect(() => evaluateExpression('max()')).toThrow('max() requires at least one argument at position 0');
+    expect(() => evaluateExpression('1Gi / (1 - 1)')).toThrow('Division by zero at position 4');
+  });
+
+  it('should report overflows', () => {
+    expect(() => evaluateExpression('4Ei * 2')).toThrow('Memory resources overflow the maximum of 2^63-1 bytes at position 4');
+    expect(() => evaluateExpression('8Ei')).toThrow('Memory resources overflow the maximum of 2^63-1 bytes at position 0');
+  });
+});
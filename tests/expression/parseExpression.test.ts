@@ -0,0 +1,54 @@
+import { ExpressionError, parseExpression } from '../../src/expression/parseExpression';
+
+describe('parseExpression', () => {
+  it('should build a syntax tree with positions', () => {
+    expect(parseExpression('512Mi + 64Mi * partitions')).toEqual({
+      kind: 'binary',
+      operator: '+',
+      position: 6,
+      left: { kind: 'literal', text: '512Mi', position: 0 },
+      right: {
+        kind: 'binary',
+        operator: '*',
+        position: 13,
+        left: { kind: 'literal', text: '64Mi', position: 8 },
+        right: { kind: 'variable', name: 'partitions', position: 15 },
+      },
+    });
+  });
+
+  it('should parse function calls and unary operators', () => {
+    expect(parseExpression('max(-1, +2)')).toEqual({
+      kind: 'call',
+      name: 'max',
+      position: 0,
+      args: [
+        { kind: 'negate', position: 4, operand: { kind: 'literal', text: '1', position: 5 } },
+        { kind: 'literal', text: '2', position: 9 },
+      ],
+    });
+  });
+
+  it('should keep exponents and suffixes in literals', () => {
+    expect(parseExpression('1e3')).toEqual({ kind: 'literal', text: '1e3', position: 0 });
+    expect(parseExpression('1.5Gi')).toEqual({ kind: 'literal', text: '1.5Gi', position: 0 });
+  });
+
+  it('should report the position of syntax errors', () => {
+    expect(() => parseExpression('2 * (1 +')).toThrow('Unexpected end of expression at position 8');
+    expect(() => parseExpression('1 + ) 2')).toThrow('Unexpected ")" at position 4');
+    expect(() => parseExpression('1 2')).toThrow('Unexpected "2" at position 2');
+    expect(() => parseExpression('1 % 2')).toThrow('Unexpected "%" at position 2');
+    expect(() => parseExpression('max(1,')).toThrow('Unexpected end of expression at position 6');
+  });
+
+  it('should throw ExpressionError with the position', () => {
+    try {
+      parseExpression('1 +* 2');
+      fail('expected an error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ExpressionError);
+      expect((error as ExpressionError).position).toBe(3);
+    }
+  });
+});
@@ -0,0 +1,69 @@
+import { join } from 'path';
+import { ConfigError, ResourceParseError } from '../../src/errors';
+import { configureRules, loadLintConfig, parseLintConfig } from '../../src/lint/config';
+
+describe('loadLintConfig', () => {
+  it('should read a config file', () => {
+    const config = loadLintConfig(join(__dirname, 'fixtures', 'lint.yaml'));
+    expect(config.rules['require-limits']).toBe('error');
+    expect(config.rules['max-limit-request-ratio']).toEqual({ max: { cpu: 2 } });
+  });
+
+  it('should fail for missing files', () => {
+    expect(() => loadLintConfig(join(__dirname, 'fixtures', 'missing.yaml'))).toThrow('ENOENT');
+  });
+});
+
+describe('parseLintConfig', () => {
+  it('should read JSON', () => {
+    expect(parseLintConfig('{"rules": {"no-best-effort": "off"}}')).toEqual({ rules: { 'no-best-effort': 'off' } });
+  });
+
+  it('should report invalid configs with their source', () => {
+    expect(() => parseLintConfig('- 1', 'lint.yaml')).toThrow('lint.yaml: Invalid lint config: expected an object with rules');
+    expect(() => parseLintConfig('rules: {no-limits: error}')).toThrow('Invalid lint config: Unknown rule "no-limits". Must be one of: require-requests,');
+    expect(() => parseLintConfig('rules: {require-limits: fatal}')).toThrow('rules.require-limits must be "off", a severity or an object');
+    expect(() => parseLintConfig('rules: {require-limits: {severity: fatal}}'))
+      .toThrow('rules.require-limits.severity must be one of error, warning, note, got "fatal"');
+    expect(() => parseLintConfig('rules: {require-limits: {max: {cpu: 1}}}')).toThrow('rules.require-limits has an unknown option "max"');
+    expect(() => parseLintConfig('rules: {require-limits: {resources: memory}}')).toThrow('rules.require-limits.resources must be a list of strings');
+    expect(() => parseLintConfig('rules: {max-requests: error}')).toThrow('rules.max-requests.max must map resource names to quantities');
+    expect(() => parseLintConfig('rules: {max-requests: {max: {memory: 1GB}}}')).toThrow('rules.max-requests.max: ');
+    expect(() => parseLintConfig('rules: {max-limit-request-ratio: {max: {cpu: two}}}'))
+      .toThrow('rules.max-limit-request-ratio.max: Invalid limit to request ratio');
+    expect(() => parseLintConfig('rules: [', 'lint.yaml')).toThrow(/^lint\.yaml: Invalid lint config: /);
+  });
+
+  it('should throw config errors that keep the underlying error as the cause', () => {
+    expect(() => parseLintConfig('rules: {require-limits: fatal}')).toThrow(ConfigError);
+    try {
+      parseLintConfig('rules: {max-requests: {max: {memory: 1GB}}}', 'lint.yaml');
+    } catch (error) {
+      expect((error as ConfigError).code).toBe('ERR_INVALID_CONFIG');
+      expect((error as ConfigError).cause).toBeInstanceOf(ResourceParseError);
+    }
+    expect.assertions(3);
+  });
+});
+
+describe('configureRules', () => {
+  it('should leave out rules that are off', () => {
+    expect(configureRules({ rules: { 'require-limits': 'off', 'no-best-effort': 'note' } }).map(rule => rule.id)).toEqual(['no-best-effort']);
+  });
+
+  it('should default the severity and resources', () => {
+    expect(configureRules({ rules: { 'require-requests': {} } })[0]).toMatchObject({ severity: 'warning', resources: ['cpu', 'memory'] });
+  });
+
+  it('should parse thresholds as quantities and ratios', () => {
+    const [max, ratio] = configureRules({ rules: { 'max-limits': { max: { memory: '16Gi' } }, 'max-limit-request-ratio': { max: { memory: 1.5 } } } });
+    expect(max.max.memory().toString()).toBe('16Gi');
+    expect(ratio.ratios).toEqual({ memory: { milli: 1500n, display: '1500m' } });
+  });
+
+  it('should match namespace patterns', () => {
+    const [rule] = configureRules({ rules: { 'no-best-effort': { namespaces: ['prod', 'team.*-prod'] } } });
+    expect(['prod', 'team.a-prod', 'team.-prod', 'teamx-prod', 'production'].map(name => rule.namespaces!.test(name)))
+      .toEqual([true, true, true, false, false]);
+  });
+});
@@ -0,0 +1,93 @@
+import { join } from 'path';
+import { ResourceParseError } from '../../src/errors';
+import { loadLintConfig } from '../../src/lint/config';
+import { lintManifests } from '../../src/lint/lintManifests';
+import { loadManifests } from '../../src/manifests/loadManifests';
+import { parseManifests } from '../../src/manifests/parseManifests';
+
+const fixtures = join(__dirname, 'fixtures');
+const workloads = join(fixtures, 'workloads.yaml');
+
+function pod(resources: object, namespace = 'default') {
+  return parseManifests(JSON.stringify({
+    kind: 'Pod',
+    metadata: { name: 'web', namespace },
+    spec: { containers: [{ name: 'app', resources }] },
+  }));
+}
+
+describe('lintManifests', () => {
+  it('should report findings with their rule, severity and location', () => {
+    const findings = lintManifests(loadManifests([workloads]), loadLintConfig(join(fixtures, 'lint.yaml')));
+    expect(findings.map(({ ruleId, severity, line, name, container }) => ({ ruleId, severity, line, name, container }))).toEqual([
+      { ruleId: 'max-requests', severity: 'error', line: 14, name: 'api', container: 'app' },
+      { ruleId: 'request-equals-limit', severity: 'warning', line: 15, name: 'api', container: 'app' },
+      { ruleId: 'max-limit-request-ratio', severity: 'warning', line: 17, name: 'api', container: 'app' },
+      { ruleId: 'no-best-effort', severity: 'error', line: 37, name: 'report', container: undefined },
+      { ruleId: 'require-limits', severity: 'error', line: 39, name: 'report', container: 'report' },
+      { ruleId: 'require-limits', severity: 'error', line: 47, name: 'debug', container: 'shell' },
+    ]);
+    expect(findings[0]).toEqual({
+      ruleId: 'max-requests',
+      severity: 'error',
+      message: 'Container "app" requests 8 cpu, above the maximum of 4',
+      source: workloads,
+      line: 14,
+      kind: 'Deployment',
+      name: 'api',
+      namespace: 'prod',
+      container: 'app',
+    });
+    expect(findings.map(finding => finding.message).slice(1, 4)).toEqual([
+      'Container "app" requests 1G memory but is limited to 1Gi',
+      'Container "app" has a cpu limit to request ratio of 2.5, above the maximum of 2',
+      'CronJob "report" has the BestEffort QoS class: no container sets a CPU or memory request or limit',
+    ]);
+  });
+
+  it('should use the default config', () => {
+    const findings = lintManifests(pod({ limits: { memory: '1Gi' } }));
+    expect(findings.map(finding => finding.message)).toEqual(['Container "app" does not set a cpu request']);
+    expect(lintManifests(pod({})).map(finding => finding.ruleId))
+      .toEqual(['require-requests', 'require-requests', 'require-limits', 'no-best-effort']);
+  });
+
+  it('should compare quantities by value', () => {
+    const config = { rules: { 'request-equals-limit': 'error' as const, 'max-limits': { max: { memory: '1Gi' } } } };
+    expect(lintManifests(pod({ requests: { memory: '1024Mi' }, limits: { memory: '1Gi' } }), config)).toEqual([]);
+    expect(lintManifests(pod({ requests: { memory: '1Gi' }, limits: { memory: 1073741825 } }), config).map(finding => finding.message)).toEqual([
+      'Container "app" requests 1Gi memory but is limited to 1073741825',
+      'Container "app" is limited to 1073741825 memory, above the maximum of 1Gi',
+    ]);
+  });
+
+  it('should compare limit to request ratios exactly', () => {
+    const config = { rules: { 'max-limit-request-ratio': { max: { cpu: '1.5' } } } };
+    expect(lintManifests(pod({ requests: { cpu: '200m' }, limits: { cpu: '300m' } }), config)).toEqual([]);
+    expect(lintManifests(pod({ requests: { cpu: '200m' }, limits: { cpu: '301m' } }), config)).toHaveLength(1);
+  });
+
+  it('should check init containers', () => {
+    const manifests = parseManifests(JSON.stringify({
+      kind: 'Pod',
+      metadata: { name: 'web' },
+      spec: { initContainers: [{ resources: {} }], containers: [{ name: 'app', resources: { limits: { memory: '1Gi' } } }] },
+    }));
+    expect(lintManifests(manifests, { rules: { 'require-limits': 'note' } })).toMatchObject([
+      { severity: 'note', container: 'initContainers[0]', message: 'Container "initContainers[0]" does not set a memory limit' },
+    ]);
+  });
+
+  it('should only apply rules to the configured namespaces', () => {
+    const config = { rules: { 'no-best-effort': { namespaces: ['prod-*'] } } };
+    expect(lintManifests(pod({}, 'prod-eu'), config)).toHaveLength(1);
+    expect(lintManifests(pod({}, 'prod'), config)).toEqual([]);
+    expect(lintManifests(pod({}), config, { defaultNamespace: 'prod-us' })).toHaveLength(0);
+  });
+
+  it('should report invalid workloads with their location', () => {
+    const manifests = parseManifests('kind: Pod\nspec:\n  containers:\n    - resources: {requests: {cpu: lots}}\n', 'bad.yaml');
+    expect(() => lintManifests(manifests)).toThrow(/^bad\.yaml:1: /);
+    expect(() => lintManifests(manifests)).toThrow(ResourceParseError);
+  });
+});
@@ -0,0 +1,48 @@
+import { Finding } from '../../src/lint/lintManifests';
+import { toSarif } from '../../src/lint/sarif';
+
+const finding: Finding = {
+  ruleId: 'require-limits',
+  severity: 'error',
+  message: 'Container "app" does not set a memory limit',
+  source: 'deploy\\web.yaml',
+  line: 12,
+  kind: 'Deployment',
+  name: 'web',
+  namespace: 'shop',
+  container: 'app',
+};
+
+describe('toSarif', () => {
+  it('should convert findings to SARIF results', () => {
+    const sarif = toSarif([finding, { ...finding, ruleId: 'no-best-effort', severity: 'note', source: undefined, container: undefined }]);
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].tool.driver.rules).toEqual([
+      { id: 'no-best-effort', shortDescription: { text: 'Pods must not have the BestEffort QoS class' } },
+      { id: 'require-limits', shortDescription: { text: 'Containers must set limits on the listed resources' } },
+    ]);
+    expect(sarif.runs[0].results).toEqual([
+      {
+        ruleId: 'require-limits',
+        ruleIndex: 1,
+        level: 'error',
+        message: { text: 'Container "app" does not set a memory limit' },
+        locations: [{
+          physicalLocation: { artifactLocation: { uri: 'deploy/web.yaml' }, region: { startLine: 12 } },
+          logicalLocations: [{ fullyQualifiedName: 'shop/Deployment/web/app', kind: 'member' }],
+        }],
+      },
+      {
+        ruleId: 'no-best-effort',
+        ruleIndex: 0,
+        level: 'note',
+        message: { text: 'Container "app" does not set a memory limit' },
+        locations: [{ logicalLocations: [{ fullyQualifiedName: 'shop/Deployment/web', kind: 'module' }] }],
+      },
+    ]);
+  });
+
+  it('should produce an empty run without findings', () => {
+    expect(toSarif([]).runs[0]).toMatchObject({ tool: { driver: { rules: [] } }, results: [] });
+  });
+});
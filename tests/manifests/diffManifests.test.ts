@@ -0,0 +1,89 @@
+import { describeDeltas, diffManifests, formatDiffMarkdown } from '../../src/manifests/diffManifests';
+import { parseManifests } from '../../src/manifests/parseManifests';
+
+const deployment = (name: string, replicas: number, requests: string, limits = '{}', namespace = 'shop') => `
+kind: Deployment
+metadata: { name: ${name}, namespace: ${namespace} }
+spec:
+  replicas: ${replicas}
+  template:
+    spec:
+      containers:
+        - resources: { requests: ${requests}, limits: ${limits} }
+---`;
+
+describe('diffManifests', () => {
+  const before = parseManifests([
+    deployment('web', 2, '{ cpu: 500m, memory: 1Gi }', '{ memory: 2Gi }'),
+    deployment('cache', 1, '{ cpu: 1, memory: 4Gi }'),
+    deployment('api', 3, '{ cpu: 250m }'),
+  ].join('\n'));
+  const after = parseManifests([
+    deployment('web', 3, '{ cpu: 500m, memory: 1Gi }', '{ memory: 2Gi }'),
+    deployment('api', 3, '{ cpu: 250m }'),
+    deployment('report', 1, '{ cpu: 2, memory: 8Gi }', '{}', 'analytics'),
+  ].join('\n'));
+
+  it('should report added, removed and changed workloads', () => {
+    const diff = diffManifests(before, after);
+    expect(diff.workloads.map(workload => [workload.namespace, workload.name, workload.change])).toEqual([
+      ['analytics', 'report', 'added'],
+      ['shop', 'cache', 'removed'],
+      ['shop', 'web', 'changed'],
+    ]);
+    const web = diff.workloads[2];
+    expect(web.replicas).toEqual({ before: 2, after: 3 });
+    expect(JSON.parse(JSON.stringify(web.requests))).toEqual({ cpu: '+500m', memory: '+1Gi' });
+    expect(JSON.parse(JSON.stringify(web.limits))).toEqual({ memory: '+2Gi' });
+    expect(diff.workloads[1].replicas).toEqual({ before: 1, after: 0 });
+  });
+
+  it('should sum the changes per namespace and in total', () => {
+    const diff = diffManifests(before, after);
+    expect(JSON.parse(JSON.stringify(diff.namespaces))).toEqual({
+      analytics: { requests: { cpu: '+2', memory: '+8Gi' }, limits: {} },
+      shop: { requests: { cpu: '-500m', memory: '-3Gi' }, limits: { memory: '+2Gi' } },
+    });
+    expect(describeDeltas(diff.total.requests)).toBe('+1.5 CPU, +5Gi memory');
+  });
+
+  it('should leave out changes that cancel out', () => {
+    const diff = diffManifests(
+      parseManifests(deployment('web', 2, '{ cpu: 1 }')),
+      parseManifests(`${deployment('web', 2, '{ cpu: 1 }')}\n${deployment('web', 1, '{ memory: 1Gi }', '{}', 'other')}`),
+    );
+    expect(diff.workloads).toHaveLength(1);
+    expect(diffManifests(before, before).workloads).toEqual([]);
+    expect(diffManifests(before, before).total).toEqual({ requests: {}, limits: {} });
+  });
+});
+
+describe('describeDeltas', () => {
+  it('should show CPU in cores and other resources in their canonical format', () => {
+    const diff = diffManifests(parseManifests(deployment('web', 1, '{ cpu: 1250m, nvidia.com/gpu: 2 }')), parseManifests(deployment('web', 1, '{ memory: 512Mi }')));
+    expect(describeDeltas(diff.total.requests)).toBe('-1.25 CPU, +512Mi memory, -2 nvidia.com/gpu');
+    expect(describeDeltas({})).toBe('no change');
+  });
+});
+
+describe('formatDiffMarkdown', () => {
+  it('should print the totals and tables for namespaces and workloads', () => {
+    const diff = diffManifests(parseManifests(deployment('web', 2, '{ cpu: 500m }')), parseManifests(deployment('web', 3, '{ cpu: 500m }')));
+    expect(formatDiffMarkdown(diff).split('\n')).toEqual([
+      '**Requests:** +0.5 CPU  ',
+      '**Limits:** no change',
+      '',
+      '| Namespace | Requests | Limits |',
+      '| --- | --- | --- |',
+      '| shop | +0.5 CPU | no change |',
+      '',
+      '| Workload | Namespace | Change | Replicas | Requests | Limits |',
+      '| --- | --- | --- | --- | --- | --- |',
+      '| Deployment/web | shop | changed | 2 → 3 | +0.5 CPU | no change |',
+    ]);
+  });
+
+  it('should say when nothing changed', () => {
+    expect(formatDiffMarkdown(diffManifests([], []))).toBe('No changes to workload resources.');
+  });
+});
@@ -0,0 +1,24 @@
+import { join } from 'path';
+import { loadManifests } from '../../src/manifests/loadManifests';
+
+const fixtures = join(__dirname, 'fixtures');
+
+describe('loadManifests', () => {
+  it('should read manifest files in directories recursively', () => {
+    const manifests = loadManifests([fixtures]);
+    expect(manifests.map(m => `${m.object.kind}/${m.object.metadata?.name}`)).toEqual([
+      'Job/worker',
+      'Deployment/web',
+      'Service/web',
+    ]);
+  });
+
+  it('should record the file of each object', () => {
+    const [manifest] = loadManifests([join(fixtures, 'web.yaml')]);
+    expect(manifest.source).toBe(join(fixtures, 'web.yaml'));
+  });
+
+  it('should throw on missing paths', () => {
+    expect(() => loadManifests([join(fixtures, 'missing.yaml')])).toThrow('ENOENT');
+  });
+});
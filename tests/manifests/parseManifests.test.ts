@@ -0,0 +1,62 @@
+import { ConfigError } from '../../src/errors';
+import { parseManifests } from '../../src/manifests/parseManifests';
+
+describe('parseManifests', () => {
+  it('should parse multi-document YAML', () => {
+    const manifests = parseManifests('kind: Pod\nmetadata:\n  name: a\n---\nkind: Pod\nmetadata:\n  name: b\n');
+    expect(manifests.map(m => m.object.metadata?.name)).toEqual(['a', 'b']);
+  });
+
+  it('should record the source and starting line of each object', () => {
+    const manifests = parseManifests('kind: Pod\n---\n# comment\nkind: Deployment\n', 'app.yaml');
+    expect(manifests.map(({ source, line }) => ({ source, line }))).toEqual([
+      { source: 'app.yaml', line: 1 },
+      { source: 'app.yaml', line: 4 },
+    ]);
+  });
+
+  it('should look up the lines of fields', () => {
+    const [pod, deployment] = parseManifests(
+      'kind: Pod\nspec:\n  containers:\n    - name: app\n      resources:\n        limits:\n          memory: 1Gi\n---\nkind: Deployment\n',
+    );
+    expect(pod.lineOf!(['spec', 'containers', 0, 'resources', 'limits', 'memory'])).toBe(7);
+    expect(pod.lineOf!(['spec', 'containers', 0, 'resources', 'requests', 'cpu'])).toBe(5);
+    expect(pod.lineOf!(['spec', 'containers', 1])).toBe(3);
+    expect(deployment.lineOf!(['spec', 'template'])).toBe(9);
+  });
+
+  it('should look up the lines of fields of List items', () => {
+    const [, deployment] = parseManifests('kind: List\nitems:\n  - kind: Pod\n  - kind: Deployment\n    spec:\n      replicas: 2\n');
+    expect(deployment.lineOf!(['spec', 'replicas'])).toBe(6);
+    expect(deployment.lineOf!(['metadata'])).toBe(4);
+  });
+
+  it('should parse JSON', () => {
+    const manifests = parseManifests('{"kind": "Pod", "spec": {"containers": []}}');
+    expect(manifests[0].object).toEqual({ kind: 'Pod', spec: { containers: [] } });
+  });
+
+  it('should skip empty documents', () => {
+    expect(parseManifests('---\n---\nkind: Pod\n---\n')).toHaveLength(1);
+  });
+
+  it('should flatten List objects', () => {
+    const manifests = parseManifests('kind: List\nitems:\n  - kind: Pod\n  - kind: Deployment\n');
+    expect(manifests.map(m => m.object.kind)).toEqual(['Pod', 'Deployment']);
+  });
+
+  it('should keep numeric quantities as numbers', () => {
+    const [manifest] = parseManifests('kind: Pod\nspec:\n  overhead:\n    cpu: 0.5\n');
+    expect(manifest.object.spec).toEqual({ overhead: { cpu: 0.5 } });
+  });
+
+  it('should throw on invalid YAML', () => {
+    expect(() => parseManifests('kind: [Pod\n', 'bad.yaml')).toThrow(/^bad.yaml: Invalid manifest/);
+    expect(() => parseManifests('kind: [Pod\n')).toThrow(expect.objectContaining({ code: 'ERR_INVALID_CONFIG', cause: expect.any(Error) }));
+  });
+
+  it('should throw on documents that are not objects', () => {
+    expect(() => parseManifests('- a\n- b\n')).toThrow('Invalid manifest at line 1: expected a Kubernetes object');
+    expect(() => parseManifests('- a\n- b\n')).toThrow(ConfigError);
+  });
+});
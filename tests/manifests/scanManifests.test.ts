@@ -0,0 +1,55 @@
+import { join } from 'path';
+import { ResourceParseError } from '../../src/errors';
+import { loadManifests } from '../../src/manifests/loadManifests';
+import { parseManifests } from '../../src/manifests/parseManifests';
+import { scanManifests } from '../../src/manifests/scanManifests';
+
+describe('scanManifests', () => {
+  it('should total workloads by namespace', () => {
+    const result = scanManifests(loadManifests([join(__dirname, 'fixtures')]));
+
+    expect(result.workloads.map(w => ({ kind: w.kind, name: w.name, replicas: w.replicas }))).toEqual([
+      { kind: 'Job', name: 'worker', replicas: 4 },
+      { kind: 'Deployment', name: 'web', replicas: 3 },
+    ]);
+    expect(Object.keys(result.namespaces)).toEqual(['default', 'shop']);
+    expect(result.namespaces.shop.requests.toJSON()).toEqual({ cpu: '750m', memory: '768Mi' });
+    expect(result.namespaces.shop.limits.toJSON()).toEqual({ memory: '1536Mi' });
+    expect(result.total.requests.toJSON()).toEqual({ cpu: '4750m', memory: '4864Mi' });
+  });
+
+  it('should keep per-pod values next to the totals', () => {
+    const [workload] = scanManifests(parseManifests(`
+kind: Deployment
+metadata: { name: api }
+spec:
+  replicas: 2
+  template:
+    spec:
+      initContainers:
+        - resources: { requests: { cpu: 2 } }
+      containers:
+        - resources: { requests: { cpu: 500m } }
+`)).workloads;
+    expect(workload.podRequests.toJSON()).toEqual({ cpu: '2' });
+    expect(workload.requests.toJSON()).toEqual({ cpu: '4' });
+  });
+
+  it('should return empty totals when there are no workloads', () => {
+    const result = scanManifests(parseManifests('kind: ConfigMap\n'));
+    expect(result.workloads).toEqual([]);
+    expect(result.total.requests.size).toBe(0);
+  });
+
+  it('should not scale resources by fractional replicas', () => {
+    const manifests = parseManifests('kind: Deployment\nmetadata: {name: web}\nspec:\n  replicas: 1.5\n  template: {spec: {containers: [{resources: {requests: {cpu: 1}}}]}}\n', 'web.yaml');
+    expect(() => scanManifests(manifests)).toThrow('web.yaml:1: Deployment web: spec.replicas must be a non-negative integer, got 1.5');
+  });
+
+  it('should report the location of invalid resources', () => {
+    const manifests = parseManifests('kind: Pod\nspec:\n  containers:\n    - resources: { requests: { cpu: lots } }\n', 'pod.yaml');
+    expect(() => scanManifests(manifests)).toThrow('pod.yaml:1: Invalid CPU resource format');
+    expect(() => scanManifests(manifests)).toThrow(expect.objectContaining({ code: 'ERR_RESOURCE_PARSE', input: 'lots' }));
+    expect(() => scanManifests(manifests)).toThrow(ResourceParseError);
+  });
+});
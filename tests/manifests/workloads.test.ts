@@ -0,0 +1,72 @@
+import { ConfigError } from '../../src/errors';
+import { readWorkload } from '../../src/manifests/workloads';
+
+const podSpec = { containers: [{ name: 'app' }] };
+
+describe('readWorkload', () => {
+  it('should read bare pods', () => {
+    const workload = readWorkload({ kind: 'Pod', metadata: { name: 'p', namespace: 'ns' }, spec: podSpec });
+    expect(workload).toEqual({ kind: 'Pod', name: 'p', namespace: 'ns', podSpec, replicas: 1 });
+  });
+
+  it.each(['Deployment', 'StatefulSet', 'ReplicaSet', 'ReplicationController'])('should read %s replicas', kind => {
+    const workload = readWorkload({ kind, metadata: { name: 'w' }, spec: { replicas: 5, template: { spec: podSpec } } });
+    expect(workload?.replicas).toBe(5);
+    expect(workload?.podSpec).toBe(podSpec);
+  });
+
+  it('should default replicas to 1', () => {
+    const workload = readWorkload({ kind: 'Deployment', spec: { template: { spec: podSpec } } });
+    expect(workload?.replicas).toBe(1);
+  });
+
+  it('should count DaemonSet pods per configured node', () => {
+    const daemonSet = { kind: 'DaemonSet', spec: { template: { spec: podSpec } } };
+    expect(readWorkload(daemonSet)?.replicas).toBe(1);
+    expect(readWorkload(daemonSet, { daemonSetNodes: 12 })?.replicas).toBe(12);
+  });
+
+  it('should use Job parallelism capped by completions', () => {
+    expect(readWorkload({ kind: 'Job', spec: { parallelism: 4, template: { spec: podSpec } } })?.replicas).toBe(4);
+    expect(readWorkload({ kind: 'Job', spec: { parallelism: 4, completions: 2, template: { spec: podSpec } } })?.replicas).toBe(2);
+    expect(readWorkload({ kind: 'Job', spec: { template: { spec: podSpec } } })?.replicas).toBe(1);
+  });
+
+  it('should read CronJob job templates', () => {
+    const workload = readWorkload({
+      kind: 'CronJob',
+      spec: { jobTemplate: { spec: { parallelism: 3, template: { spec: podSpec } } } },
+    });
+    expect(workload?.replicas).toBe(3);
+    expect(workload?.podSpec).toBe(podSpec);
+  });
+
+  it('should apply the default namespace', () => {
+    expect(readWorkload({ kind: 'Pod', spec: podSpec })?.namespace).toBe('default');
+    expect(readWorkload({ kind: 'Pod', spec: podSpec }, { defaultNamespace: 'dev' })?.namespace).toBe('dev');
+  });
+
+  it('should ignore other kinds', () => {
+    expect(readWorkload({ kind: 'Service', spec: {} })).toBeUndefined();
+  });
+
+  it.each([1.5, -1, '3'])('should reject replicas of %p', replicas => {
+    const deployment = { kind: 'Deployment', metadata: { name: 'web' }, spec: { replicas, template: { spec: podSpec } } };
+    expect(() => readWorkload(deployment))
+      .toThrow(`Deployment web: spec.replicas must be a non-negative integer, got ${JSON.stringify(replicas)}`);
+    expect(() => readWorkload(deployment)).toThrow(ConfigError);
+  });
+
+  it('should reject Job parallelism and completions that are not non-negative integers', () => {
+    expect(() => readWorkload({ kind: 'Job', metadata: { name: 'j' }, spec: { parallelism: 0.5, template: { spec: podSpec } } }))
+      .toThrow('Job j: spec.parallelism must be a non-negative integer, got 0.5');
+    expect(() => readWorkload({ kind: 'CronJob', metadata: { name: 'c' }, spec: { jobTemplate: { spec: { completions: -2, template: { spec: podSpec } } } } }))
+      .toThrow('CronJob c: spec.jobTemplate.spec.completions must be a non-negative integer, got -2');
+  });
+
+  it('should throw on workloads without a pod template', () => {
+    expect(() => readWorkload({ kind: 'Deployment', metadata: { name: 'web' }, spec: {} }))
+      .toThrow('Deployment web has no pod template with containers');
+    expect(() => readWorkload({ kind: 'Deployment', spec: {} })).toThrow(ConfigError);
+  });
+});
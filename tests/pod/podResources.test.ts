@@ -0,0 +1,114 @@
+import { containerRequests, podLimits, podRequests } from '../../src/pod/podResources';
+import { PodSpec } from '../../src/pod/types';
+
+describe('podResources', () => {
+  describe('containerRequests', () => {
+    it('should default requests to limits', () => {
+      const requests = containerRequests({ resources: { limits: { cpu: '1', memory: '1Gi' } } });
+      expect(requests.toJSON()).toEqual({ cpu: '1', memory: '1Gi' });
+    });
+
+    it('should keep explicit requests', () => {
+      const requests = containerRequests({ resources: { requests: { cpu: '100m' }, limits: { cpu: '1', memory: '1Gi' } } });
+      expect(requests.toJSON()).toEqual({ cpu: '100m', memory: '1Gi' });
+    });
+
+    it('should accept numeric quantities', () => {
+      expect(containerRequests({ resources: { requests: { cpu: 0.5 } } }).toJSON()).toEqual({ cpu: '500m' });
+    });
+
+    it('should handle containers without resources', () => {
+      expect(containerRequests({}).size).toBe(0);
+    });
+  });
+
+  describe('podRequests', () => {
+    it('should sum app containers', () => {
+      const spec: PodSpec = {
+        containers: [
+          { resources: { requests: { cpu: '100m', memory: '128Mi' } } },
+          { resources: { requests: { cpu: '200m', memory: '256Mi' } } },
+        ],
+      };
+      expect(podRequests(spec).toJSON()).toEqual({ cpu: '300m', memory: '384Mi' });
+    });
+
+    it('should take the maximum of init containers and app containers', () => {
+      const spec: PodSpec = {
+        initContainers: [
+          { resources: { requests: { cpu: '2', memory: '64Mi' } } },
+          { resources: { requests: { cpu: '500m', memory: '1Gi' } } },
+        ],
+        containers: [
+          { resources: { requests: { cpu: '500m', memory: '256Mi' } } },
+          { resources: { requests: { cpu: '500m', memory: '256Mi' } } },
+        ],
+      };
+      expect(podRequests(spec).toJSON()).toEqual({ cpu: '2', memory: '1Gi' });
+    });
+
+    it('should add sidecars to app containers and later init containers', () => {
+      const spec: PodSpec = {
+        initContainers: [
+          { name: 'init-1', resources: { requests: { cpu: '1' } } },
+          { name: 'sidecar', restartPolicy: 'Always', resources: { requests: { cpu: '200m' } } },
+          { name: 'init-2', resources: { requests: { cpu: '1500m' } } },
+        ],
+        containers: [{ resources: { requests: { cpu: '100m' } } }],
+      };
+      // app containers + sidecar = 300m, init-2 + sidecar = 1700m, init-1 alone = 1
+      expect(podRequests(spec).cpu().toString()).toBe('1700m');
+    });
+
+    it('should accumulate multiple sidecars', () => {
+      const spec: PodSpec = {
+        initContainers: [
+          { restartPolicy: 'Always', resources: { requests: { memory: '128Mi' } } },
+          { restartPolicy: 'Always', resources: { requests: { memory: '128Mi' } } },
+        ],
+        containers: [{ resources: { requests: { memory: '256Mi' } } }],
+      };
+      expect(podRequests(spec).memory().toString()).toBe('512Mi');
+    });
+
+    it('should add pod overhead', () => {
+      const spec: PodSpec = {
+        containers: [{ resources: { requests: { cpu: '100m' } } }],
+        overhead: { cpu: '250m', memory: '120Mi' },
+      };
+      expect(podRequests(spec).toJSON()).toEqual({ cpu: '350m', memory: '120Mi' });
+      expect(podRequests(spec, { excludeOverhead: true }).toJSON()).toEqual({ cpu: '100m' });
+    });
+
+    it('should use limits as requests when only limits are set', () => {
+      const spec: PodSpec = { containers: [{ resources: { limits: { cpu: '1' } } }] };
+      expect(podRequests(spec).toJSON()).toEqual({ cpu: '1' });
+    });
+  });
+
+  describe('podLimits', () => {
+    it('should aggregate limits like requests', () => {
+      const spec: PodSpec = {
+        initContainers: [
+          { restartPolicy: 'Always', resources: { limits: { cpu: '500m' } } },
+          { resources: { limits: { cpu: '4' } } },
+        ],
+        containers: [{ resources: { limits: { cpu: '1', memory: '1Gi' } } }],
+      };
+      expect(podLimits(spec).toJSON()).toEqual({ cpu: '4500m', memory: '1Gi' });
+    });
+
+    it('should only add overhead to resources that have a limit', () => {
+      const spec: PodSpec = {
+        containers: [{ resources: { limits: { memory: '1Gi' } } }],
+        overhead: { cpu: '250m', memory: '128Mi' },
+      };
+      expect(podLimits(spec).toJSON()).toEqual({ memory: '1152Mi' });
+    });
+
+    it('should not default limits from requests', () => {
+      const spec: PodSpec = { containers: [{ resources: { requests: { cpu: '1' } } }] };
+      expect(podLimits(spec).size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { podQOSClass } from '../../src/pod/qosClass';
+
+describe('podQOSClass', () => {
+  it('should classify pods without requests or limits as BestEffort', () => {
+    const result = podQOSClass({ containers: [{ name: 'app' }] });
+    expect(result.qosClass).toBe('BestEffort');
+    expect(result.reasons).toEqual([{ message: 'No container sets a CPU or memory request or limit' }]);
+  });
+
+  it('should ignore resources other than CPU and memory', () => {
+    const result = podQOSClass({ containers: [{ resources: { limits: { 'nvidia.com/gpu': '1' } } }] });
+    expect(result.qosClass).toBe('BestEffort');
+  });
+
+  it('should ignore zero requests', () => {
+    const result = podQOSClass({ containers: [{ resources: { requests: { cpu: '0' } } }] });
+    expect(result.qosClass).toBe('BestEffort');
+  });
+
+  it('should classify pods with equal requests and limits as Guaranteed', () => {
+    const result = podQOSClass({
+      containers: [{ name: 'app', resources: { requests: { cpu: '1', memory: '1Gi' }, limits: { cpu: '1000m', memory: '1024Mi' } } }],
+    });
+    expect(result.qosClass).toBe('Guaranteed');
+  });
+
+  it('should default requests to limits', () => {
+    const result = podQOSClass({
+      containers: [{ resources: { limits: { cpu: '500m', memory: '256Mi' } } }],
+    });
+    expect(result.qosClass).toBe('Guaranteed');
+  });
+
+  it('should require init containers to be Guaranteed as well', () => {
+    const result = podQOSClass({
+      initContainers: [{ name: 'migrate', resources: { requests: { cpu: '100m' } } }],
+      containers: [{ name: 'app', resources: { limits: { cpu: '1', memory: '1Gi' } } }],
+    });
+    expect(result.qosClass).toBe('Burstable');
+    expect(result.reasons).toEqual([
+      { container: 'migrate', resource: 'cpu', message: 'Container "migrate" does not set a cpu limit' },
+      { container: 'migrate', resource: 'memory', message: 'Container "migrate" does not set a memory limit' },
+    ]);
+  });
+
+  it('should explain which container has requests below its limits', () => {
+    const result = podQOSClass({
+      containers: [
+        { name: 'app', resources: { limits: { cpu: '1', memory: '1Gi' } } },
+        { name: 'proxy', resources: { requests: { cpu: '100m', memory: '64Mi' }, limits: { cpu: '200m', memory: '64Mi' } } },
+      ],
+    });
+    expect(result.qosClass).toBe('Burstable');
+    expect(result.reasons).toEqual([
+      { container: 'proxy', resource: 'cpu', message: 'Container "proxy" requests 100m cpu but is limited to 200m' },
+    ]);
+  });
+
+  it('should name unnamed containers by position', () => {
+    const result = podQOSClass({ containers: [{ resources: { requests: { memory: '64Mi' } } }] });
+    expect(result.qosClass).toBe('Burstable');
+    expect(result.reasons[0].container).toBe('containers[0]');
+  });
+
+  it('should treat explicit zero requests below a limit as Burstable', () => {
+    const result = podQOSClass({
+      containers: [{ name: 'app', resources: { requests: { cpu: '0' }, limits: { cpu: '1', memory: '1Gi' } } }],
+    });
+    expect(result.qosClass).toBe('Burstable');
+    expect(result.reasons).toEqual([
+      { container: 'app', resource: 'cpu', message: 'Container "app" requests 0 cpu but is limited to 1' },
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import { isOvercommitAllowed, validateContainerResources } from '../../src/pod/validateResources';
+
+describe('isOvercommitAllowed', () => {
+  it('should not allow overcommitting hugepages and extended resources', () => {
+    expect(isOvercommitAllowed('cpu')).toBe(true);
+    expect(isOvercommitAllowed('ephemeral-storage')).toBe(true);
+    expect(isOvercommitAllowed('hugepages-2Mi')).toBe(false);
+    expect(isOvercommitAllowed('nvidia.com/gpu')).toBe(false);
+  });
+});
+
+describe('validateContainerResources', () => {
+  it('should accept valid requirements', () => {
+    expect(validateContainerResources({ resources: { requests: { cpu: '500m' }, limits: { cpu: '1', 'nvidia.com/gpu': '1' } } })).toEqual([]);
+    expect(validateContainerResources({ resources: { requests: { 'nvidia.com/gpu': 2 }, limits: { 'nvidia.com/gpu': '2' } } })).toEqual([]);
+    expect(validateContainerResources({ name: 'app' })).toEqual([]);
+  });
+
+  it('should require requests of non-overcommittable resources to equal their limits', () => {
+    expect(validateContainerResources({
+      resources: { requests: { 'nvidia.com/gpu': '1' }, limits: { 'nvidia.com/gpu': '2' } },
+    })).toEqual(['resources.requests[nvidia.com/gpu]: Invalid value: "1": must be equal to nvidia.com/gpu limit of 2']);
+  });
+
+  it('should require limits for non-overcommittable resources', () => {
+    expect(validateContainerResources({ resources: { requests: { 'example.com/foo': '1' } } }))
+      .toEqual(['resources.limits[example.com/foo]: Required value: Limit must be set for non overcommitable resources']);
+  });
+
+  it('should reject requests above limits', () => {
+    expect(validateContainerResources({ resources: { requests: { memory: '2Gi' }, limits: { memory: '1Gi' } } }))
+      .toEqual(['resources.requests[memory]: Invalid value: "2Gi": must be less than or equal to memory limit of 1Gi']);
+  });
+
+  it('should require cpu or memory with hugepages', () => {
+    expect(validateContainerResources({ resources: { limits: { 'hugepages-2Mi': '64Mi' } } }))
+      .toEqual(['resources: Forbidden: HugePages require cpu or memory']);
+    expect(validateContainerResources({ resources: { limits: { 'hugepages-2Mi': '64Mi', memory: '1Gi' } } })).toEqual([]);
+  });
+
+  it('should throw on fractional extended resources', () => {
+    expect(() => validateContainerResources({ resources: { limits: { 'nvidia.com/gpu': '0.5' } } }))
+      .toThrow('Extended resources must be whole numbers');
+  });
+});
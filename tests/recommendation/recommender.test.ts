@@ -0,0 +1,81 @@
+import { recommendRequests, UsageSample } from '../../src/recommendation/recommender';
+import { CPUResource } from '../../src/resources/CPUResource';
+import { MemoryResource } from '../../src/resources/MemoryResource';
+
+const start = Date.UTC(2026, 0, 1);
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/** One sample per minute for the given number of days. */
+const minutely = (days: number, sample: (minute: number) => Omit<UsageSample, 'timestamp'>): UsageSample[] =>
+  Array.from({ length: days * 1440 }, (_, minute) => ({ timestamp: start + minute * MINUTE, ...sample(minute) }));
+
+describe('recommendRequests', () => {
+  const steady = minutely(8, () => ({ cpu: new CPUResource('500m'), memory: new MemoryResource('600Mi') }));
+
+  it('should add the safety margin to the end of the percentile bucket', () => {
+    const { target, confidence } = recommendRequests({ samples: steady });
+    // 500m falls into the bucket ending at 510.7m, plus 15%
+    expect(target.cpu.toString()).toBe('587m');
+    expect(target.memory.toBigInt()).toBe(764046746n);
+    expect(confidence).toBeCloseTo(8, 2);
+  });
+
+  it('should widen the bounds by the confidence', () => {
+    const { lowerBound, upperBound } = recommendRequests({ samples: steady });
+    expect(lowerBound.cpu.toString()).toBe('587m');
+    expect(lowerBound.memory.toBigInt()).toBe(763855753n);
+    expect(upperBound.cpu.toString()).toBe('661m');
+    expect(upperBound.memory.toBigInt()).toBe(859560880n);
+  });
+
+  it('should take CPU percentiles of the samples and memory percentiles of the daily peaks', () => {
+    const spiky = minutely(8, minute => ({
+      cpu: new CPUResource(minute % 10 === 0 ? '2' : '200m'),
+      memory: new MemoryResource(minute % 1440 === 5 ? '1Gi' : '300Mi'),
+    }));
+    const { target, upperBound } = recommendRequests({ samples: spiky });
+    // One sample in ten spikes, which only the 95th percentile reaches; every daily peak is 1Gi
+    expect(target.cpu.toString()).toBe('248m');
+    expect(upperBound.cpu.toString()).toBe('2708m');
+    expect(target.memory.toBigInt()).toBe(1238659776n);
+  });
+
+  it('should weigh recent samples more', () => {
+    const shrinking = minutely(14, minute => ({ cpu: new CPUResource(minute < 7 * 1440 ? '2' : '500m') }));
+    expect(recommendRequests({ samples: shrinking }).target.cpu.toString()).toBe('587m');
+    expect(recommendRequests({ samples: shrinking }, { halfLifeHours: 240 }).target.cpu.toString()).toBe('2407m');
+  });
+
+  it('should bump memory past OOM kills', () => {
+    // 600Mi is bumped to 720Mi, as 20% is more than 100Mi
+    const { target } = recommendRequests({ samples: steady, ooms: [{ timestamp: start + 7 * DAY, memory: new MemoryResource('600Mi') }] });
+    expect(target.memory.toBigInt()).toBe(920733364n);
+    expect(target.cpu.toString()).toBe('587m');
+  });
+
+  it('should apply the minimums', () => {
+    const idle = minutely(2, () => ({ cpu: new CPUResource('1m'), memory: new MemoryResource('10Mi') }));
+    const { target } = recommendRequests({ samples: idle });
+    expect(target.cpu.toString()).toBe('25m');
+    expect(target.memory.toString()).toBe('250Mi');
+    // Below the minimum, the first bucket ends at 10m
+    expect(recommendRequests({ samples: idle }, { minCPU: new CPUResource('5m') }).target.cpu.toString()).toBe('11m');
+  });
+
+  it('should leave the upper bound open without history', () => {
+    const { target, lowerBound, upperBound, confidence } = recommendRequests({
+      samples: [{ timestamp: new Date(start), cpu: new CPUResource('1'), memory: new MemoryResource('1Gi') }],
+    });
+    expect(confidence).toBe(0);
+    expect(target.cpu.toString()).toBe('1168m');
+    expect(lowerBound.cpu.toString()).toBe('25m');
+    expect(upperBound.cpu.toString()).toBe('100G');
+  });
+
+  it('should validate the input', () => {
+    expect(() => recommendRequests({ samples: [] })).toThrow('Cannot recommend requests without usage samples');
+    expect(() => recommendRequests({ samples: steady }, { cpuPercentile: 90 })).toThrow('CPU percentile must be between 0 and 1, got 90');
+    expect(() => recommendRequests({ samples: [{ timestamp: new Date('soon') }] })).toThrow('Invalid sample timestamp Invalid Date');
+  });
+});
@@ -32,17 +32,17 @@ describe('CPUResource', () => {
 
     it('should handle large millicore values', () => {
       const cpu = new CPUResource('9999m');
-      expect(cpu.toString()).toBe('9.999');
+      expect(cpu.toString()).toBe('9999m');
     });
 
     it('should handle zero with unit', () => {
       const cpu = new CPUResource('0m');
-      expect(cpu.toString()).toBe('0m');
+      expect(cpu.toString()).toBe('0');
     });
 
     it('should handle zero without unit', () => {
       const cpu = new CPUResource('0');
-      expect(cpu.toString()).toBe('0m');
+      expect(cpu.toString()).toBe('0');
     });
 
     it('should handle empty string', () => {
@@ -52,12 +52,64 @@ describe('CPUResource', () => {
     it('should handle whitespace', () => {
       expect(() => new CPUResource(' 100m')).toThrow('Invalid CPU resource format');
     });
+
+    // Kubernetes quantity grammar
+    it('should accept decimal SI suffixes', () => {
+      expect(new CPUResource('1k').valueOf()).toBe(1_000_000);
+      expect(new CPUResource('1000000u').valueOf()).toBe(1000);
+      expect(new CPUResource('2000000n').valueOf()).toBe(2);
+    });
+
+    it('should accept decimal exponents', () => {
+      expect(new CPUResource('1e3').valueOf()).toBe(1_000_000);
+      expect(new CPUResource('15e-1').valueOf()).toBe(1500);
+    });
+
+    it('should accept an explicit plus sign', () => {
+      expect(new CPUResource('+100m').valueOf()).toBe(100);
+    });
+
+    it('should accept a fraction without leading digits', () => {
+      expect(new CPUResource('.5').valueOf()).toBe(500);
+    });
+
+    it('should accept negative zero', () => {
+      expect(new CPUResource('-0').valueOf()).toBe(0);
+    });
+
+    it('should throw on sub-millicore precision', () => {
+      expect(() => new CPUResource('1500u')).toThrow('CPU resources must be whole numbers of millicores');
+    });
+
+    it('should throw on negative fractional values', () => {
+      expect(() => new CPUResource('-0.1m')).toThrow('CPU resources cannot be negative');
+    });
+  });
+
+  describe('tryParse', () => {
+    it('should return the parsed resource', () => {
+      const result = CPUResource.tryParse('250m');
+      expect(result.ok && result.value.toString()).toBe('250m');
+    });
+
+    it('should return the error instead of throwing', () => {
+      const result = CPUResource.tryParse('abc');
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('ERR_RESOURCE_PARSE');
+        expect(result.error.message).toMatch(/^Invalid CPU resource format/);
+      }
+    });
+
+    it('should pass rounding options on', () => {
+      expect(CPUResource.tryParse('0.5', { rounding: 'ceil' }).ok).toBe(true);
+    });
   });
 
   describe('static methods', () => {
     it('should create zero resource', () => {
       const cpu = CPUResource.zero();
-      expect(cpu.toString()).toBe('0m');
+      expect(cpu.toString()).toBe('0');
     });
 
     it('should create from millicores', () => {
@@ -93,7 +145,7 @@ describe('CPUResource', () => {
       const cpu1 = new CPUResource('100m');
       const cpu2 = new CPUResource('1');
       const sum = cpu1.plus(cpu2);
-      expect(sum.toString()).toBe('1.1');
+      expect(sum.toString()).toBe('1100m');
     });
 
     it('should subtract resources', () => {
@@ -131,7 +183,7 @@ describe('CPUResource', () => {
     it('should handle multiplying by zero', () => {
       const cpu = new CPUResource('1');
       const result = cpu.times(0);
-      expect(result.toString()).toBe('0m');
+      expect(result.toString()).toBe('0');
     });
 
     it('should handle multiplying by one', () => {
@@ -151,6 +203,170 @@ describe('CPUResource', () => {
     });
   });
 
+  describe('division and ratios', () => {
+    it('should divide by a number', () => {
+      expect(new CPUResource('1').dividedBy(4).toString()).toBe('250m');
+      expect(new CPUResource('1').dividedBy(0.5).toString()).toBe('2');
+    });
+
+    it('should round quotients down to whole millicores', () => {
+      expect(new CPUResource('1').dividedBy(3).toString()).toBe('333m');
+    });
+
+    it('should throw on invalid divisors', () => {
+      const cpu = new CPUResource('1');
+      expect(() => cpu.dividedBy(0)).toThrow('Cannot divide by zero');
+      expect(() => cpu.dividedBy(-2)).toThrow('CPU resources cannot be negative');
+      expect(() => cpu.dividedBy(NaN)).toThrow('Divisor must be a finite number');
+    });
+
+    it('should compute ratios and percentages', () => {
+      const usage = new CPUResource('750m');
+      const limit = new CPUResource('1');
+      expect(usage.ratioTo(limit)).toBe(0.75);
+      expect(usage.percentOf(limit)).toBe(75);
+      expect(new CPUResource('1').percentOf(new CPUResource('3'))).toBeCloseTo(33.333333, 6);
+      expect(() => usage.ratioTo(CPUResource.zero())).toThrow('Cannot compute a ratio to a zero CPU resource');
+    });
+
+    it('should split into parts that add up to the original', () => {
+      const parts = new CPUResource('1').splitEvenly(3);
+      expect(parts.map(String)).toEqual(['334m', '333m', '333m']);
+      expect(parts.reduce((sum, part) => sum.plus(part)).toString()).toBe('1');
+    });
+
+    it('should split values smaller than the number of parts', () => {
+      expect(new CPUResource('2m').splitEvenly(4).map(String)).toEqual(['1m', '1m', '0', '0']);
+    });
+
+    it('should throw on invalid numbers of parts', () => {
+      expect(() => new CPUResource('1').splitEvenly(0)).toThrow('Number of parts must be a positive whole number');
+      expect(() => new CPUResource('1').splitEvenly(1.5)).toThrow('Number of parts must be a positive whole number');
+    });
+  });
+
+  describe('rounding', () => {
+    it('should round sub-millicore values on construction when asked', () => {
+      expect(new CPUResource('0.0005', { rounding: 'ceil' }).toString()).toBe('1m');
+      expect(new CPUResource('1500u', { rounding: 'floor' }).toString()).toBe('1m');
+      expect(new CPUResource('2500u', { rounding: 'half-even' }).toString()).toBe('2m');
+      expect(new CPUResource('1n', {}).toString()).toBe('1m');
+      expect(new CPUResource('1e-999999', {}).toBigInt()).toBe(1n);
+    });
+
+    it('should still reject sub-millicore values without rounding options', () => {
+      expect(() => new CPUResource('0.0005')).toThrow('CPU resources must be whole numbers of millicores');
+    });
+
+    it('should round to a granularity on construction', () => {
+      expect(new CPUResource('120m', { granularity: '50m' }).toString()).toBe('150m');
+      expect(new CPUResource('1200m', { granularity: '1', rounding: 'floor' }).toString()).toBe('1');
+      expect(new CPUResource('100m', { granularity: '50m' }).toString()).toBe('100m');
+    });
+
+    it('should round factories', () => {
+      expect(CPUResource.fromCores(0.0001, { rounding: 'ceil' }).toString()).toBe('1m');
+      expect(CPUResource.fromMillicores(1.5, { rounding: 'half-even' }).toString()).toBe('2m');
+      expect(CPUResource.fromMillicores(1234n, { granularity: new CPUResource('100m') }).toString()).toBe('1300m');
+    });
+
+    it('should round products and quotients', () => {
+      const cpu = new CPUResource('1');
+      expect(cpu.times(1 / 3).toString()).toBe('333m');
+      expect(cpu.times(0.0015, { rounding: 'ceil' }).toString()).toBe('2m');
+      expect(cpu.times(1.2, { granularity: '1' }).toString()).toBe('1');
+      expect(cpu.times(1.2, { granularity: '1', rounding: 'ceil' }).toString()).toBe('2');
+      expect(cpu.dividedBy(3, { rounding: 'ceil' }).toString()).toBe('334m');
+      expect(cpu.dividedBy(3, { granularity: '50m', rounding: 'half-even' }).toString()).toBe('350m');
+    });
+
+    it('should round to a granularity', () => {
+      const cpu = new CPUResource('1230m');
+      expect(cpu.roundTo('50m').toString()).toBe('1250m');
+      expect(cpu.roundTo('1').toString()).toBe('2');
+      expect(cpu.roundTo('1', 'floor').toString()).toBe('1');
+      expect(cpu.roundTo('100m', 'half-even').toString()).toBe('1200m');
+    });
+
+    it('should reject a zero granularity', () => {
+      expect(() => new CPUResource('1').roundTo('0')).toThrow('Rounding granularity must be greater than zero');
+    });
+  });
+
+  describe('canonical formatting', () => {
+    it.each([
+      ['100m', '100m'],
+      ['1000m', '1'],
+      ['1500m', '1500m'],
+      ['1.5', '1500m'],
+      ['0.1', '100m'],
+      ['2000000n', '2m'],
+      ['1k', '1k'],
+      ['1000', '1k'],
+      ['1e3', '1e3'],
+      ['1Ki', '1Ki'],
+      ['0.5Ki', '512'],
+    ])('should serialize %s as %s', (input, expected) => {
+      expect(new CPUResource(input).toString()).toBe(expected);
+    });
+
+    it('should keep canonical input strings verbatim like apimachinery', () => {
+      expect(new CPUResource('+100m').toString()).toBe('+100m');
+    });
+
+    it('should remember the input format', () => {
+      expect(new CPUResource('100m').format).toBe('DecimalSI');
+      expect(new CPUResource('1Ki').format).toBe('BinarySI');
+      expect(new CPUResource('1e3').format).toBe('DecimalExponent');
+    });
+
+    it('should drop verbatim input strings after arithmetic', () => {
+      expect(new CPUResource('+100m').times(1).toString()).toBe('100m');
+    });
+  });
+
+  describe('exact values', () => {
+    it('should expose the exact value as a BigInt', () => {
+      expect(new CPUResource('1.5').toBigInt()).toBe(1500n);
+    });
+
+    it('should create from BigInt millicores', () => {
+      const cpu = CPUResource.fromMillicores(2n ** 60n);
+      expect(cpu.toBigInt()).toBe(2n ** 60n);
+    });
+
+    it('should keep valueOf and primitive conversion usable', () => {
+      const cpu = new CPUResource('250m');
+      expect(+cpu).toBe(250);
+      expect(`${cpu}`).toBe('250m');
+      expect(cpu.valueOf() < new CPUResource('1').valueOf()).toBe(true);
+    });
+
+    it('should add values beyond the safe integer range exactly', () => {
+      const cpu = CPUResource.fromMillicores(2n ** 53n);
+      expect(cpu.plus(CPUResource.fromMillicores(1)).toBigInt()).toBe(2n ** 53n + 1n);
+    });
+
+    it('should multiply by decimal factors as written', () => {
+      expect(new CPUResource('1').times(0.3).toBigInt()).toBe(300n);
+      expect(new CPUResource('1').times(1.001).toBigInt()).toBe(1001n);
+    });
+
+    it('should create from fractional cores exactly', () => {
+      expect(CPUResource.fromCores(1.001).toBigInt()).toBe(1001n);
+    });
+
+    it('should throw on overflow when parsing', () => {
+      expect(() => new CPUResource('10E')).toThrow('CPU resources overflow the maximum of 2^63-1 millicores');
+    });
+
+    it('should throw on overflow in arithmetic', () => {
+      const cpu = CPUResource.fromMillicores(2n ** 62n);
+      expect(() => cpu.plus(cpu)).toThrow('CPU resources overflow');
+      expect(() => cpu.times(2)).toThrow('CPU resources overflow');
+    });
+  });
+
   describe('comparison operations', () => {
     it('should compare equal resources', () => {
       const cpu1 = new CPUResource('1');
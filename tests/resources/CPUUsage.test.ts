@@ -0,0 +1,91 @@
+import { CPUResource } from '../../src/resources/CPUResource';
+import { CPUUsage } from '../../src/resources/CPUUsage';
+import { ScalarResource } from '../../src/resources/ScalarResource';
+import { getResourceKind } from '../../src/resources/units';
+
+describe('CPUUsage', () => {
+  describe('constructor', () => {
+    it('should parse nanocores and microcores exactly', () => {
+      expect(new CPUUsage('123456789n').toBigInt()).toBe(123456789n);
+      expect(new CPUUsage('250u').toBigInt()).toBe(250000n);
+      expect(new CPUUsage('1.5').toBigInt()).toBe(1500000000n);
+    });
+
+    it('should keep metrics-server strings unchanged', () => {
+      expect(new CPUUsage('123456789n').toString()).toBe('123456789n');
+      expect(new CPUUsage('250u').toString()).toBe('250u');
+    });
+
+    it('should reject invalid values', () => {
+      expect(() => new CPUUsage('abc')).toThrow('Invalid CPU usage resource format');
+      expect(() => new CPUUsage('1x')).toThrow('Invalid CPU usage unit');
+      expect(() => new CPUUsage('-1n')).toThrow('CPU usage resources cannot be negative');
+      expect(() => new CPUUsage('0.5n')).toThrow('CPU usage resources must be whole numbers of nanocores');
+      expect(() => new CPUUsage('10G')).toThrow('CPU usage resources overflow the maximum of 2^63-1 nanocores');
+    });
+
+    it('should be a resource of the registered cpu-usage kind', () => {
+      const usage = new CPUUsage('1n');
+      expect(usage).toBeInstanceOf(ScalarResource);
+      expect(usage.kind).toBe(getResourceKind('cpu-usage'));
+      expect(new CPUUsage('1500000n', { rounding: 'ceil', granularity: '1m' }).toString()).toBe('2m');
+    });
+
+    it('should parse without throwing', () => {
+      expect(CPUUsage.tryParse('1n').ok).toBe(true);
+      const result = CPUUsage.tryParse('1x');
+      expect(!result.ok && result.error.code).toBe('ERR_RESOURCE_PARSE');
+    });
+  });
+
+  describe('aggregation', () => {
+    it('should sum samples losslessly', () => {
+      const samples = ['123456789n', '1n', '250u', '3m'].map(s => new CPUUsage(s));
+      const total = samples.reduce((sum, sample) => sum.plus(sample), CPUUsage.zero());
+      expect(total.toBigInt()).toBe(126706790n);
+      expect(total.toString()).toBe('126706790n');
+    });
+
+    it('should add and subtract CPU resources', () => {
+      const usage = new CPUUsage('1500000n');
+      expect(usage.plus(new CPUResource('1m')).toString()).toBe('2500u');
+      expect(usage.minus(new CPUResource('1m')).toString()).toBe('500u');
+      expect(() => usage.minus(new CPUResource('2m'))).toThrow('CPU usage resources cannot be negative');
+    });
+
+    it('should multiply by a factor', () => {
+      expect(new CPUUsage('3n').times(0.5).toString()).toBe('1n');
+    });
+
+    it('should create values from nanocores and CPU resources', () => {
+      expect(CPUUsage.fromNanocores(1500).toString()).toBe('1500n');
+      expect(CPUUsage.fromNanocores(10n ** 9n).toString()).toBe('1');
+      expect(CPUUsage.fromCPUResource(new CPUResource('250m')).toString()).toBe('250m');
+      expect(() => CPUUsage.fromNanocores(0.5)).toThrow('CPU usage resources must be whole numbers of nanocores');
+    });
+  });
+
+  describe('comparison with CPU resources', () => {
+    const usage = new CPUUsage('123456789n');
+
+    it('should compare against requests', () => {
+      expect(usage.isGreaterThan(new CPUResource('123m'))).toBe(true);
+      expect(usage.isLessThan(new CPUResource('124m'))).toBe(true);
+      expect(new CPUUsage('100000000n').equals(new CPUResource('100m'))).toBe(true);
+      expect(usage.equals(new CPUUsage('123456789n'))).toBe(true);
+    });
+
+    it('should compute utilization', () => {
+      expect(new CPUUsage('250000000n').ratioTo(new CPUResource('500m'))).toBe(0.5);
+      expect(new CPUUsage('375u').percentOf(new CPUResource('1m'))).toBe(37.5);
+      expect(() => usage.ratioTo(CPUResource.zero())).toThrow('Cannot compute a ratio to a zero CPU usage resource');
+      expect(() => usage.percentOf(CPUResource.zero())).toThrow('Cannot compute a percentage of a zero CPU usage resource');
+    });
+
+    it('should convert to CPU resources', () => {
+      expect(usage.toCPUResource().toString()).toBe('124m');
+      expect(usage.toCPUResource('floor').toString()).toBe('123m');
+      expect(usage.toCPUResource('half-even').toString()).toBe('123m');
+    });
+  });
+});
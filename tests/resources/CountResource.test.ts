@@ -0,0 +1,18 @@
+import { CountResource } from '../../src/resources/CountResource';
+
+describe('CountResource', () => {
+  it('should parse whole counts', () => {
+    expect(new CountResource('110').toBigInt()).toBe(110n);
+    expect(new CountResource('1k').toString()).toBe('1k');
+    expect(CountResource.fromCount(3).plus(new CountResource('2')).toString()).toBe('5');
+    expect(CountResource.zero().toBigInt()).toBe(0n);
+  });
+
+  it('should reject fractional and invalid counts without byte wording', () => {
+    expect(() => new CountResource('1.5')).toThrow('Object count resources must be whole numbers');
+    expect(() => new CountResource('lots')).toThrow("Invalid object count resource format. Must be a whole number (e.g., '110' or '1k')");
+    expect(() => CountResource.fromCount(-1)).toThrow('Object count resources cannot be negative');
+    const result = CountResource.tryParse('500m');
+    expect(!result.ok && result.error.code).toBe('ERR_RESOURCE_PRECISION');
+  });
+});
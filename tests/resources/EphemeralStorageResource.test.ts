@@ -0,0 +1,76 @@
+import { NegativeResourceError, PrecisionError, ResourceParseError, UnitMismatchError } from '../../src/errors';
+import { MemoryResource } from '../../src/resources/MemoryResource';
+import { ExtendedResource } from '../../src/resources/ExtendedResource';
+import { EphemeralStorageResource } from '../../src/resources/EphemeralStorageResource';
+
+describe('EphemeralStorageResource', () => {
+  describe('constructor', () => {
+    it('should parse binary and decimal units', () => {
+      expect(new EphemeralStorageResource('10Gi').toBigInt()).toBe(10n * 1024n ** 3n);
+      expect(new EphemeralStorageResource('500M').toBigInt()).toBe(500_000_000n);
+      expect(new EphemeralStorageResource('1e3').toBigInt()).toBe(1000n);
+    });
+
+    it('should keep canonical input unchanged', () => {
+      expect(new EphemeralStorageResource('10Gi').toString()).toBe('10Gi');
+      expect(new EphemeralStorageResource('1024Ki').toString()).toBe('1Mi');
+    });
+
+    it('should throw on invalid values', () => {
+      expect(() => new EphemeralStorageResource('lots')).toThrow(ResourceParseError);
+      expect(() => new EphemeralStorageResource('lots')).toThrow('Invalid ephemeral storage resource format');
+      expect(() => new EphemeralStorageResource('-1Gi')).toThrow(NegativeResourceError);
+      expect(() => new EphemeralStorageResource('1.5')).toThrow(PrecisionError);
+      expect(() => new EphemeralStorageResource('1.5')).toThrow('Ephemeral storage resources must be whole numbers of bytes');
+    });
+  });
+
+  describe('factories', () => {
+    it('should create zero and values from bytes', () => {
+      expect(EphemeralStorageResource.zero().toBigInt()).toBe(0n);
+      expect(EphemeralStorageResource.fromBytes(1024).toString()).toBe('1024');
+      expect(EphemeralStorageResource.fromBytes(2n ** 40n).toBigInt()).toBe(2n ** 40n);
+      expect(() => EphemeralStorageResource.fromBytes(0.5)).toThrow(PrecisionError);
+    });
+
+    it('should parse without throwing', () => {
+      expect(EphemeralStorageResource.tryParse('1Gi')).toEqual({ ok: true, value: new EphemeralStorageResource('1Gi') });
+      const result = EphemeralStorageResource.tryParse('-1');
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error.code).toBe('ERR_RESOURCE_NEGATIVE');
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should add, subtract and multiply', () => {
+      const storage = new EphemeralStorageResource('10Gi');
+      expect(storage.plus(new EphemeralStorageResource('512Mi')).toString()).toBe('10752Mi');
+      expect(storage.minus(new EphemeralStorageResource('2Gi')).toString()).toBe('8Gi');
+      expect(storage.times(1.5).toString()).toBe('15Gi');
+      expect(new EphemeralStorageResource('3').times(0.5, { rounding: 'ceil' }).toString()).toBe('2');
+    });
+
+    it('should throw on negative results', () => {
+      expect(() => new EphemeralStorageResource('1Gi').minus(new EphemeralStorageResource('2Gi')))
+        .toThrow('Ephemeral storage resources cannot be negative');
+    });
+
+    it('should compare values', () => {
+      const small = new EphemeralStorageResource('1Gi');
+      const large = new EphemeralStorageResource('2Gi');
+      expect(small.isLessThan(large)).toBe(true);
+      expect(large.isGreaterThan(small)).toBe(true);
+      expect(small.equals(new EphemeralStorageResource('1024Mi'))).toBe(true);
+    });
+
+    it('should not mix with other kinds of resources', () => {
+      const storage = new EphemeralStorageResource('1Gi');
+      // @ts-expect-error ephemeral storage and memory are different kinds
+      expect(() => storage.plus(MemoryResource.fromGiB(1))).toThrow(UnitMismatchError);
+      // @ts-expect-error ephemeral storage and extended resources are different kinds
+      expect(() => storage.isLessThan(new ExtendedResource('example.com/foo', '1'))).toThrow(
+        'Cannot combine ephemeral-storage and example.com/foo resources',
+      );
+    });
+  });
+});
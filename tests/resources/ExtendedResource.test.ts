@@ -0,0 +1,60 @@
+import { InvalidArgumentError, NegativeResourceError, PrecisionError, UnitMismatchError } from '../../src/errors';
+import { ExtendedResource } from '../../src/resources/ExtendedResource';
+
+describe('ExtendedResource', () => {
+  describe('constructor', () => {
+    it('should parse whole counts', () => {
+      expect(new ExtendedResource('nvidia.com/gpu', '2').toBigInt()).toBe(2n);
+      expect(new ExtendedResource('example.com/foo', '1k').toBigInt()).toBe(1000n);
+      expect(new ExtendedResource('example.com/foo', '2000m').toString()).toBe('2');
+    });
+
+    it('should reject fractions', () => {
+      expect(() => new ExtendedResource('nvidia.com/gpu', '500m')).toThrow(PrecisionError);
+      expect(() => new ExtendedResource('nvidia.com/gpu', '0.5')).toThrow('Extended resources must be whole numbers');
+      expect(() => new ExtendedResource('nvidia.com/gpu', '-1')).toThrow(NegativeResourceError);
+    });
+
+    it('should reject names that are not extended resource names', () => {
+      expect(() => new ExtendedResource('gpu', '1')).toThrow(InvalidArgumentError);
+      expect(() => new ExtendedResource('kubernetes.io/gpu', '1')).toThrow('Invalid extended resource name "kubernetes.io/gpu"');
+      expect(() => new ExtendedResource('Example.com/foo', '1')).toThrow(InvalidArgumentError);
+    });
+
+    it('should parse without throwing', () => {
+      expect(ExtendedResource.tryParse('nvidia.com/gpu', '1').ok).toBe(true);
+      const result = ExtendedResource.tryParse('nvidia.com/gpu', '1.5');
+      expect(!result.ok && result.error.code).toBe('ERR_RESOURCE_PRECISION');
+    });
+  });
+
+  describe('isExtendedResourceName', () => {
+    it('should accept domain-prefixed names outside kubernetes.io', () => {
+      expect(ExtendedResource.isExtendedResourceName('nvidia.com/gpu')).toBe(true);
+      expect(ExtendedResource.isExtendedResourceName('example.com/foo_bar.baz')).toBe(true);
+      expect(ExtendedResource.isExtendedResourceName('cpu')).toBe(false);
+      expect(ExtendedResource.isExtendedResourceName('hugepages-2Mi')).toBe(false);
+      expect(ExtendedResource.isExtendedResourceName('node.kubernetes.io/foo')).toBe(false);
+      expect(ExtendedResource.isExtendedResourceName(`example.com/${'a'.repeat(64)}`)).toBe(false);
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should add, subtract, multiply and compare counts', () => {
+      const gpus = new ExtendedResource('nvidia.com/gpu', '2');
+      expect(gpus.plus(new ExtendedResource('nvidia.com/gpu', '1')).toString()).toBe('3');
+      expect(gpus.minus(new ExtendedResource('nvidia.com/gpu', '2')).toBigInt()).toBe(0n);
+      expect(gpus.times(4).toString()).toBe('8');
+      expect(gpus.times(0.5).toString()).toBe('1');
+      expect(new ExtendedResource('nvidia.com/gpu', '3').times(0.5).toString()).toBe('1');
+      expect(gpus.isGreaterThan(ExtendedResource.zero('nvidia.com/gpu'))).toBe(true);
+    });
+
+    it('should not combine different extended resources', () => {
+      const gpus = new ExtendedResource('nvidia.com/gpu', '2');
+      const foo = new ExtendedResource('example.com/foo', '2');
+      expect(() => gpus.plus(foo)).toThrow(UnitMismatchError);
+      expect(() => gpus.isLessThan(foo)).toThrow('Cannot combine nvidia.com/gpu and example.com/foo resources');
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { InvalidArgumentError, PrecisionError, UnitMismatchError } from '../../src/errors';
+import { HugePagesResource } from '../../src/resources/HugePagesResource';
+
+describe('HugePagesResource', () => {
+  describe('constructor', () => {
+    it('should parse whole numbers of pages', () => {
+      const pages = new HugePagesResource('hugepages-2Mi', '64Mi');
+      expect(pages.name).toBe('hugepages-2Mi');
+      expect(pages.toBigInt()).toBe(64n * 1024n ** 2n);
+      expect(pages.pages()).toBe(32n);
+      expect(pages.pageSize.toString()).toBe('2Mi');
+      expect(new HugePagesResource('hugepages-1Gi', '0').pages()).toBe(0n);
+    });
+
+    it('should reject values that are not a multiple of the page size', () => {
+      expect(() => new HugePagesResource('hugepages-2Mi', '3Mi')).toThrow(PrecisionError);
+      expect(() => new HugePagesResource('hugepages-2Mi', '3Mi')).toThrow('3Mi is not positive integer multiple of 2Mi');
+      expect(() => new HugePagesResource('hugepages-1Gi', '512Mi')).toThrow('512Mi is not positive integer multiple of 1Gi');
+    });
+
+    it('should reject invalid resource names', () => {
+      expect(() => new HugePagesResource('hugepages', '2Mi')).toThrow(InvalidArgumentError);
+      expect(() => new HugePagesResource('hugepages-big', '2Mi')).toThrow('Invalid hugepages resource name "hugepages-big"');
+      expect(() => new HugePagesResource('hugepages-0', '0')).toThrow(InvalidArgumentError);
+      expect(() => new HugePagesResource('memory', '2Mi')).toThrow(InvalidArgumentError);
+    });
+
+    it('should parse without throwing', () => {
+      expect(HugePagesResource.tryParse('hugepages-2Mi', '4Mi').ok).toBe(true);
+      const result = HugePagesResource.tryParse('hugepages-2Mi', '1Mi');
+      expect(!result.ok && result.error.code).toBe('ERR_RESOURCE_PRECISION');
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should add, subtract and compare values of the same page size', () => {
+      const a = new HugePagesResource('hugepages-2Mi', '64Mi');
+      const b = new HugePagesResource('hugepages-2Mi', '4Mi');
+      expect(a.plus(b).toString()).toBe('68Mi');
+      expect(a.minus(b).pages()).toBe(30n);
+      expect(b.isLessThan(a)).toBe(true);
+      expect(a.plus(b).name).toBe('hugepages-2Mi');
+      expect(HugePagesResource.zero('hugepages-2Mi').plus(a).equals(a)).toBe(true);
+    });
+
+    it('should round products to whole pages', () => {
+      const pages = new HugePagesResource('hugepages-2Mi', '6Mi');
+      expect(pages.times(1.5).toString()).toBe('8Mi');
+      expect(pages.times(1.5, { rounding: 'ceil' }).toString()).toBe('10Mi');
+      expect(pages.times(2).pages()).toBe(6n);
+    });
+
+    it('should not combine different page sizes', () => {
+      const small = new HugePagesResource('hugepages-2Mi', '2Gi');
+      const large = new HugePagesResource('hugepages-1Gi', '2Gi');
+      expect(() => small.plus(large)).toThrow(UnitMismatchError);
+      expect(() => small.plus(large)).toThrow('Cannot combine hugepages-2Mi and hugepages-1Gi resources');
+      expect(() => small.equals(large)).toThrow(UnitMismatchError);
+    });
+  });
+});
@@ -4,7 +4,7 @@ describe('MemoryResource', () => {
   describe('constructor', () => {
     it('should create from bytes', () => {
       const mem = new MemoryResource('100B');
-      expect(mem.toString()).toBe('100B');
+      expect(mem.toString()).toBe('100');
     });
 
     it('should create from kibibytes', () => {
@@ -42,17 +42,17 @@ describe('MemoryResource', () => {
 
     it('should handle large byte values', () => {
       const mem = new MemoryResource('9999B');
-      expect(mem.toString()).toBe('9.7646484375Ki');
+      expect(mem.toString()).toBe('9999');
     });
 
     it('should handle zero with unit', () => {
       const mem = new MemoryResource('0B');
-      expect(mem.toString()).toBe('0B');
+      expect(mem.toString()).toBe('0');
     });
 
     it('should handle zero without unit', () => {
       const mem = new MemoryResource('0');
-      expect(mem.toString()).toBe('0B');
+      expect(mem.toString()).toBe('0');
     });
 
     it('should handle empty string', () => {
@@ -65,14 +65,67 @@ describe('MemoryResource', () => {
 
     it('should handle very large values', () => {
       const mem = new MemoryResource('2Ti');
-      expect(mem.toString()).toBe('2048Gi');
+      expect(mem.toString()).toBe('2Ti');
+    });
+
+    // Kubernetes quantity grammar
+    it('should accept decimal SI suffixes', () => {
+      expect(new MemoryResource('1G').valueOf()).toBe(1e9);
+      expect(new MemoryResource('500M').valueOf()).toBe(5e8);
+      expect(new MemoryResource('100k').valueOf()).toBe(1e5);
+    });
+
+    it('should accept large binary SI suffixes', () => {
+      expect(new MemoryResource('2Pi').valueOf()).toBe(2 * 1024 ** 5);
+      expect(new MemoryResource('1Ei').valueOf()).toBe(1024 ** 6);
+    });
+
+    it('should accept decimal exponents', () => {
+      expect(new MemoryResource('1e3').valueOf()).toBe(1000);
+      expect(new MemoryResource('1.5E+2').valueOf()).toBe(150);
+    });
+
+    it('should accept an explicit plus sign', () => {
+      expect(new MemoryResource('+1Gi').valueOf()).toBe(1024 ** 3);
+    });
+
+    it('should accept milli-units that add up to whole bytes', () => {
+      expect(new MemoryResource('1000m').valueOf()).toBe(1);
+    });
+
+    it('should throw on fractional bytes', () => {
+      expect(() => new MemoryResource('0.5')).toThrow('Memory resources must be whole numbers of bytes');
+    });
+
+    it('should throw on unsupported suffix combinations', () => {
+      expect(() => new MemoryResource('1KB')).toThrow('Invalid memory unit');
+    });
+  });
+
+  describe('tryParse', () => {
+    it('should return the parsed resource', () => {
+      const result = MemoryResource.tryParse('512Mi');
+      expect(result.ok && result.value.toString()).toBe('512Mi');
+    });
+
+    it('should return the error instead of throwing', () => {
+      const result = MemoryResource.tryParse('1Qi');
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('ERR_RESOURCE_PARSE');
+        expect(result.error.message).toMatch(/^Invalid memory unit/);
+      }
+    });
+
+    it('should pass rounding options on', () => {
+      expect(MemoryResource.tryParse('0.5', { rounding: 'ceil' }).ok).toBe(true);
     });
   });
 
   describe('static methods', () => {
     it('should create zero resource', () => {
       const mem = MemoryResource.zero();
-      expect(mem.toString()).toBe('0B');
+      expect(mem.toString()).toBe('0');
     });
 
     it('should create from bytes', () => {
@@ -134,7 +187,7 @@ describe('MemoryResource', () => {
       const mem1 = new MemoryResource('128Mi');
       const mem2 = new MemoryResource('1Gi');
       const sum = mem1.plus(mem2);
-      expect(sum.toString()).toBe('1.125Gi');
+      expect(sum.toString()).toBe('1152Mi');
     });
 
     it('should subtract resources', () => {
@@ -172,7 +225,7 @@ describe('MemoryResource', () => {
     it('should handle multiplying by zero', () => {
       const mem = new MemoryResource('1Gi');
       const result = mem.times(0);
-      expect(result.toString()).toBe('0B');
+      expect(result.toString()).toBe('0');
     });
 
     it('should handle multiplying by one', () => {
@@ -199,6 +252,156 @@ describe('MemoryResource', () => {
     });
   });
 
+  describe('division and ratios', () => {
+    it('should divide by a number', () => {
+      expect(new MemoryResource('1Gi').dividedBy(4).toString()).toBe('256Mi');
+      expect(new MemoryResource('3Gi').dividedBy(0.75).toString()).toBe('4Gi');
+    });
+
+    it('should round quotients down to whole bytes', () => {
+      expect(new MemoryResource('1Ki').dividedBy(3).toBigInt()).toBe(341n);
+    });
+
+    it('should throw on invalid divisors', () => {
+      const mem = new MemoryResource('1Gi');
+      expect(() => mem.dividedBy(0)).toThrow('Cannot divide by zero');
+      expect(() => mem.dividedBy(-1)).toThrow('Memory resources cannot be negative');
+      expect(() => mem.dividedBy(Infinity)).toThrow('Divisor must be a finite number');
+    });
+
+    it('should compute ratios and percentages', () => {
+      const usage = new MemoryResource('384Mi');
+      const limit = new MemoryResource('512Mi');
+      expect(usage.ratioTo(limit)).toBe(0.75);
+      expect(usage.percentOf(limit)).toBe(75);
+      expect(limit.ratioTo(usage)).toBeCloseTo(4 / 3, 12);
+      expect(() => usage.percentOf(MemoryResource.zero())).toThrow('Cannot compute a percentage of a zero memory resource');
+    });
+
+    it('should split into parts that add up to the original', () => {
+      const parts = new MemoryResource('1Gi').splitEvenly(3);
+      expect(parts.map(part => part.toBigInt())).toEqual([357913942n, 357913941n, 357913941n]);
+      expect(parts.reduce((sum, part) => sum.plus(part)).equals(new MemoryResource('1Gi'))).toBe(true);
+      expect(new MemoryResource('1Gi').splitEvenly(4).map(String)).toEqual(['256Mi', '256Mi', '256Mi', '256Mi']);
+    });
+
+    it('should throw on invalid numbers of parts', () => {
+      expect(() => new MemoryResource('1Gi').splitEvenly(-1)).toThrow('Number of parts must be a positive whole number');
+    });
+  });
+
+  describe('rounding', () => {
+    it('should round fractional bytes on construction when asked', () => {
+      expect(new MemoryResource('1.5', { rounding: 'ceil' }).toBigInt()).toBe(2n);
+      expect(new MemoryResource('2.5', { rounding: 'half-even' }).toBigInt()).toBe(2n);
+      expect(new MemoryResource('0.1Ki', { rounding: 'floor' }).toBigInt()).toBe(102n);
+      expect(() => new MemoryResource('1.5')).toThrow('Memory resources must be whole numbers of bytes');
+    });
+
+    it('should round to a granularity', () => {
+      expect(new MemoryResource('100Mi', { granularity: '64Mi' }).toString()).toBe('128Mi');
+      expect(new MemoryResource('1Gi').roundTo('64Mi').toString()).toBe('1Gi');
+      expect(new MemoryResource('1G').roundTo('64Mi').toBigInt()).toBe(1006632960n);
+      expect(new MemoryResource('1G').roundTo(new MemoryResource('1Gi'), 'floor').toString()).toBe('0');
+      expect(MemoryResource.fromMiB(100.5, { granularity: '1Mi' }).toString()).toBe('101Mi');
+    });
+
+    it('should round products and quotients', () => {
+      const mem = new MemoryResource('1Gi');
+      expect(mem.times(0.3, { granularity: '64Mi' }).toString()).toBe('256Mi');
+      expect(mem.times(0.3, { granularity: '64Mi', rounding: 'ceil' }).toString()).toBe('320Mi');
+      expect(mem.dividedBy(3, { rounding: 'ceil' }).toBigInt()).toBe(357913942n);
+      expect(mem.dividedBy(3, { granularity: '1Mi', rounding: 'half-even' }).toString()).toBe('341Mi');
+    });
+  });
+
+  describe('canonical formatting', () => {
+    it.each([
+      ['1Gi', '1Gi'],
+      ['1024Mi', '1Gi'],
+      ['1536Mi', '1536Mi'],
+      ['1.5Gi', '1536Mi'],
+      ['1G', '1G'],
+      ['1000M', '1G'],
+      ['1500M', '1500M'],
+      ['1e3', '1e3'],
+      ['1000e0', '1e3'],
+      ['1Ki', '1Ki'],
+      ['1023', '1023'],
+      ['0.5Ki', '512'],
+      ['1000m', '1'],
+    ])('should serialize %s as %s', (input, expected) => {
+      expect(new MemoryResource(input).toString()).toBe(expected);
+    });
+
+    it('should keep canonical input strings verbatim like apimachinery', () => {
+      expect(new MemoryResource('+1Gi').toString()).toBe('+1Gi');
+      expect(new MemoryResource('012Mi').toString()).toBe('012Mi');
+    });
+
+    it('should remember the input format', () => {
+      expect(new MemoryResource('1Gi').format).toBe('BinarySI');
+      expect(new MemoryResource('1G').format).toBe('DecimalSI');
+      expect(new MemoryResource('1e9').format).toBe('DecimalExponent');
+      expect(new MemoryResource('100B').format).toBe('DecimalSI');
+    });
+
+    it('should use the format of the left operand in arithmetic', () => {
+      const sum = new MemoryResource('1G').plus(new MemoryResource('1Gi'));
+      expect(sum.toString()).toBe('2073741824');
+      expect(new MemoryResource('1e9').times(2).toString()).toBe('2e9');
+    });
+
+    it('should use the format of the right operand when adding to zero', () => {
+      expect(MemoryResource.zero().plus(new MemoryResource('2Gi')).toString()).toBe('2Gi');
+    });
+
+    it('should serialize factory results in binary units', () => {
+      expect(MemoryResource.fromBytes(1536 * 1024).toString()).toBe('1536Ki');
+      expect(MemoryResource.fromGiB(0.5).toString()).toBe('512Mi');
+    });
+
+    it('should use primitive string conversion for the canonical form', () => {
+      expect(`${new MemoryResource('2048Mi')}`).toBe('2Gi');
+    });
+  });
+
+  describe('exact values', () => {
+    it('should expose the exact value as a BigInt', () => {
+      expect(new MemoryResource('1Ki').toBigInt()).toBe(1024n);
+    });
+
+    it('should create from BigInt bytes', () => {
+      const mem = MemoryResource.fromBytes(2n ** 62n + 1n);
+      expect(mem.toBigInt()).toBe(2n ** 62n + 1n);
+    });
+
+    it('should keep valueOf and primitive conversion usable', () => {
+      const mem = new MemoryResource('1Ki');
+      expect(+mem).toBe(1024);
+      expect(`${mem}`).toBe('1Ki');
+    });
+
+    it('should sum multi-PiB values without precision loss', () => {
+      const mem = new MemoryResource('7Ei').plus(new MemoryResource('1'));
+      expect(mem.toBigInt()).toBe(7n * 2n ** 60n + 1n);
+    });
+
+    it('should multiply exactly', () => {
+      const mem = MemoryResource.fromBytes(2n ** 53n + 1n);
+      expect(mem.times(3).toBigInt()).toBe(3n * (2n ** 53n + 1n));
+    });
+
+    it('should throw on overflow when parsing', () => {
+      expect(() => new MemoryResource('8Ei')).toThrow('Memory resources overflow the maximum of 2^63-1 bytes');
+    });
+
+    it('should throw on overflow in arithmetic', () => {
+      const mem = new MemoryResource('4Ei');
+      expect(() => mem.plus(mem)).toThrow('Memory resources overflow');
+    });
+  });
+
   describe('comparison operations', () => {
     it('should compare equal resources', () => {
       const mem1 = new MemoryResource('1Gi');
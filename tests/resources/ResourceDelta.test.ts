@@ -0,0 +1,48 @@
+import { ResourceDelta } from '../../src/resources/ResourceDelta';
+import { CPUResource } from '../../src/resources/CPUResource';
+import { MemoryResource } from '../../src/resources/MemoryResource';
+import { ExtendedResource } from '../../src/resources/ExtendedResource';
+
+const cpu = (before: string, after: string) => ResourceDelta.between(new CPUResource(before), new CPUResource(after));
+const memory = (before: string, after: string) => ResourceDelta.between(new MemoryResource(before), new MemoryResource(after));
+
+describe('ResourceDelta', () => {
+  it('should hold increases and decreases', () => {
+    expect(cpu('500m', '2').toString()).toBe('+1500m');
+    expect(memory('4Gi', '1Gi').toString()).toBe('-3Gi');
+    expect(cpu('1', '1').toString()).toBe('0');
+  });
+
+  it('should report the sign, size and exact value', () => {
+    const delta = memory('4Gi', '1Gi');
+    expect(delta.sign()).toBe(-1);
+    expect(delta.abs().toString()).toBe('3Gi');
+    expect(delta.toBigInt()).toBe(-3221225472n);
+    expect(delta.name).toBe('memory');
+    expect(cpu('1', '2').sign()).toBe(1);
+    expect(cpu('1', '1').sign()).toBe(0);
+    expect(cpu('1', '1').isZero()).toBe(true);
+  });
+
+  it('should add deltas of either sign', () => {
+    expect(cpu('0', '1').plus(cpu('0', '500m')).toString()).toBe('+1500m');
+    expect(cpu('0', '1').plus(cpu('3', '1')).toString()).toBe('-1');
+    expect(memory('1Gi', '0').plus(memory('0', '1536Mi')).toString()).toBe('+512Mi');
+    expect(memory('1Gi', '0').plus(memory('0', '1Gi')).sign()).toBe(0);
+  });
+
+  it('should negate deltas', () => {
+    expect(cpu('0', '250m').negated().toString()).toBe('-250m');
+    expect(cpu('1', '1').negated().toString()).toBe('0');
+  });
+
+  it('should serialize to JSON as its string', () => {
+    expect(JSON.stringify({ cpu: cpu('2', '1500m') })).toBe('{"cpu":"-500m"}');
+  });
+
+  it('should reject mismatched kinds', () => {
+    const gpus = ResourceDelta.between(new ExtendedResource('nvidia.com/gpu', '1'), new ExtendedResource('nvidia.com/gpu', '2'));
+    const tpus = ResourceDelta.between(new ExtendedResource('google.com/tpu', '1'), new ExtendedResource('google.com/tpu', '2'));
+    expect(() => gpus.plus(tpus)).toThrow('Cannot combine nvidia.com/gpu and google.com/tpu resources');
+  });
+});
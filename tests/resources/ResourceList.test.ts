@@ -0,0 +1,199 @@
+import { CPUResource } from '../../src/resources/CPUResource';
+import { CountResource } from '../../src/resources/CountResource';
+import { MemoryResource } from '../../src/resources/MemoryResource';
+import { EphemeralStorageResource } from '../../src/resources/EphemeralStorageResource';
+import { ExtendedResource } from '../../src/resources/ExtendedResource';
+import { HugePagesResource } from '../../src/resources/HugePagesResource';
+import { ResourceList } from '../../src/resources/ResourceList';
+
+describe('ResourceList', () => {
+  describe('constructor', () => {
+    it('should create from a plain object', () => {
+      const list = new ResourceList({ cpu: '100m', memory: '1Gi' });
+      expect(list.get('cpu')).toBeInstanceOf(CPUResource);
+      expect(list.get('memory')).toBeInstanceOf(MemoryResource);
+      expect(list.size).toBe(2);
+    });
+
+    it('should hold quota CPU names as CPU resources', () => {
+      const list = new ResourceList({ 'requests.cpu': '500m', 'limits.cpu': '1' });
+      expect(list.get('requests.cpu')).toBeInstanceOf(CPUResource);
+      expect(list.get('limits.cpu')).toBeInstanceOf(CPUResource);
+    });
+
+    it('should hold extended resources whose names end in .cpu as extended resources', () => {
+      const list = new ResourceList({ 'example.com/foo.cpu': '2' });
+      expect(list.get('example.com/foo.cpu')).toBeInstanceOf(ExtendedResource);
+      expect(() => new ResourceList({ 'example.com/foo.cpu': '500m' })).toThrow('Extended resources must be whole numbers');
+    });
+
+    it('should hold other resources as whole-unit quantities', () => {
+      const list = new ResourceList({ 'nvidia.com/gpu': '2', 'hugepages-2Mi': '64Mi', pods: '110' });
+      expect(list.get('nvidia.com/gpu')?.toBigInt()).toBe(2n);
+      expect(list.get('hugepages-2Mi')?.toBigInt()).toBe(64n * 1024n * 1024n);
+    });
+
+    it('should hold storage, hugepages and extended resources in their own classes', () => {
+      const list = new ResourceList({
+        'ephemeral-storage': '10Gi', 'hugepages-2Mi': '64Mi', 'nvidia.com/gpu': '2',
+        'requests.nvidia.com/gpu': '4', 'count/services': '10', pods: '110',
+      });
+      expect(list.get('ephemeral-storage')).toBeInstanceOf(EphemeralStorageResource);
+      expect(list.get('hugepages-2Mi')).toBeInstanceOf(HugePagesResource);
+      expect(list.get('nvidia.com/gpu')).toBeInstanceOf(ExtendedResource);
+      expect(list.get('requests.nvidia.com/gpu')).toBeInstanceOf(ExtendedResource);
+      expect(list.get('count/services')).toBeInstanceOf(CountResource);
+      expect(list.get('pods')).toBeInstanceOf(CountResource);
+    });
+
+    it('should hold object counts as whole counts', () => {
+      const list = new ResourceList({ services: '10', 'gold.storageclass.storage.k8s.io/persistentvolumeclaims': '5', 'requests.storage': '1Ti' });
+      expect(list.get('services')).toBeInstanceOf(CountResource);
+      expect(list.get('gold.storageclass.storage.k8s.io/persistentvolumeclaims')).toBeInstanceOf(CountResource);
+      expect(list.get('requests.storage')).toBeInstanceOf(MemoryResource);
+      expect(() => new ResourceList({ pods: '1.5' })).toThrow('Object count resources must be whole numbers');
+    });
+
+    it('should validate storage, hugepages and extended resources', () => {
+      expect(() => new ResourceList({ 'nvidia.com/gpu': '500m' })).toThrow('Extended resources must be whole numbers');
+      expect(() => new ResourceList({ 'hugepages-2Mi': '3Mi' })).toThrow('3Mi is not positive integer multiple of 2Mi');
+      expect(() => new ResourceList({ 'ephemeral-storage': MemoryResource.fromGiB(1) }))
+        .toThrow('Resource ephemeral-storage must be an EphemeralStorageResource');
+      expect(() => new ResourceList({ 'nvidia.com/gpu': new ExtendedResource('example.com/foo', '1') }))
+        .toThrow('Resource nvidia.com/gpu must be a nvidia.com/gpu value, not example.com/foo');
+    });
+
+    it('should accept resource instances', () => {
+      const list = new ResourceList({ cpu: CPUResource.fromCores(2) });
+      expect(list.toJSON()).toEqual({ cpu: '2' });
+    });
+
+    it('should throw on mismatched resource kinds', () => {
+      expect(() => new ResourceList({ memory: CPUResource.fromCores(1) })).toThrow('Resource memory must be a MemoryResource');
+      expect(() => new ResourceList({ cpu: MemoryResource.fromGiB(1) })).toThrow('Resource cpu must be a CPUResource');
+    });
+
+    it('should throw on invalid quantities', () => {
+      expect(() => new ResourceList({ cpu: 'lots' })).toThrow('Invalid CPU resource format');
+    });
+
+    it('should create an empty list', () => {
+      expect(new ResourceList().size).toBe(0);
+    });
+  });
+
+  describe('accessors', () => {
+    const list = new ResourceList({ cpu: '250m', memory: '512Mi' });
+
+    it('should list names in insertion order', () => {
+      expect(list.names()).toEqual(['cpu', 'memory']);
+    });
+
+    it('should return typed CPU and memory values', () => {
+      expect(list.cpu().toString()).toBe('250m');
+      expect(list.memory().toString()).toBe('512Mi');
+    });
+
+    it('should return zero for missing CPU and memory values', () => {
+      expect(new ResourceList().cpu().toBigInt()).toBe(0n);
+      expect(new ResourceList().memory().toBigInt()).toBe(0n);
+    });
+
+    it('should set and remove resources without mutating the list', () => {
+      const updated = list.with('cpu', '1').without('memory');
+      expect(updated.toJSON()).toEqual({ cpu: '1' });
+      expect(list.toJSON()).toEqual({ cpu: '250m', memory: '512Mi' });
+    });
+  });
+
+  describe('arithmetic operations', () => {
+    it('should add lists over the union of names', () => {
+      const sum = new ResourceList({ cpu: '100m', memory: '1Gi' })
+        .plus(new ResourceList({ cpu: '1', 'nvidia.com/gpu': '1' }));
+      expect(sum.toJSON()).toEqual({ cpu: '1100m', memory: '1Gi', 'nvidia.com/gpu': '1' });
+    });
+
+    it('should subtract lists', () => {
+      const diff = new ResourceList({ cpu: '1', memory: '1Gi' })
+        .minus(new ResourceList({ cpu: '250m' }));
+      expect(diff.toJSON()).toEqual({ cpu: '750m', memory: '1Gi' });
+    });
+
+    it('should treat names missing from the left operand as zero when subtracting', () => {
+      const diff = new ResourceList({ cpu: '1' }).minus(new ResourceList({ memory: '0' }));
+      expect(diff.toJSON()).toEqual({ cpu: '1', memory: '0' });
+      expect(() => new ResourceList({ cpu: '1' }).minus(new ResourceList({ memory: '1Gi' })))
+        .toThrow('Memory resources cannot be negative');
+    });
+
+    it('should throw on negative differences', () => {
+      expect(() => new ResourceList({ cpu: '100m' }).minus(new ResourceList({ cpu: '200m' })))
+        .toThrow('CPU resources cannot be negative');
+    });
+
+    it('should multiply every resource', () => {
+      const scaled = new ResourceList({ cpu: '250m', memory: '512Mi' }).times(3);
+      expect(scaled.toJSON()).toEqual({ cpu: '750m', memory: '1536Mi' });
+    });
+
+    it('should take the maximum over the union of names', () => {
+      const max = new ResourceList({ cpu: '2', memory: '1Gi' })
+        .max(new ResourceList({ cpu: '500m', memory: '2Gi', 'ephemeral-storage': '10Gi' }));
+      expect(max.toJSON()).toEqual({ cpu: '2', memory: '2Gi', 'ephemeral-storage': '10Gi' });
+    });
+
+    it('should take the minimum over names present in both lists', () => {
+      const min = new ResourceList({ cpu: '2', memory: '1Gi' })
+        .min(new ResourceList({ cpu: '500m', 'ephemeral-storage': '10Gi' }));
+      expect(min.toJSON()).toEqual({ cpu: '500m' });
+    });
+  });
+
+  describe('comparison operations', () => {
+    const limits = new ResourceList({ cpu: '1', memory: '1Gi' });
+
+    it('should fit within larger limits', () => {
+      expect(new ResourceList({ cpu: '500m', memory: '1Gi' }).fits(limits)).toBe(true);
+    });
+
+    it('should ignore resources the limits do not mention', () => {
+      expect(new ResourceList({ cpu: '500m', 'nvidia.com/gpu': '4' }).fits(limits)).toBe(true);
+    });
+
+    it('should report exceeded resources', () => {
+      const requests = new ResourceList({ cpu: '2', memory: '2Gi' });
+      expect(requests.fits(limits)).toBe(false);
+      expect(requests.exceeded(limits)).toEqual(['cpu', 'memory']);
+    });
+
+    it('should require every non-zero resource to be present for subsets', () => {
+      expect(new ResourceList({ cpu: '500m' }).isSubsetOf(limits)).toBe(true);
+      expect(new ResourceList({ cpu: '500m', 'nvidia.com/gpu': '1' }).isSubsetOf(limits)).toBe(false);
+      expect(new ResourceList({ cpu: '500m', 'nvidia.com/gpu': '0' }).isSubsetOf(limits)).toBe(true);
+    });
+
+    it('should report missing keys', () => {
+      const list = new ResourceList({ cpu: '1' });
+      expect(list.missingKeys(['cpu', 'memory'])).toEqual(['memory']);
+      expect(list.missingKeys(limits)).toEqual(['memory']);
+    });
+
+    it('should detect zero lists', () => {
+      expect(new ResourceList().isZero()).toBe(true);
+      expect(new ResourceList({ cpu: '0', memory: '0' }).isZero()).toBe(true);
+      expect(new ResourceList({ cpu: '1m' }).isZero()).toBe(false);
+    });
+
+    it('should compare lists for equality', () => {
+      expect(new ResourceList({ cpu: '1000m', memory: '1Gi' }).equals(limits)).toBe(true);
+      expect(new ResourceList({ cpu: '1' }).equals(limits)).toBe(false);
+    });
+  });
+
+  describe('serialization', () => {
+    it('should serialize to canonical quantity strings', () => {
+      const list = new ResourceList({ cpu: '1000m', memory: '1024Mi' });
+      expect(JSON.stringify(list)).toBe('{"cpu":"1","memory":"1Gi"}');
+    });
+  });
+});
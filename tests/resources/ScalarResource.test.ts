@@ -0,0 +1,105 @@
+import { NegativeResourceError, PrecisionError, ResourceParseError, UnitMismatchError } from '../../src/errors';
+import { CPUResource } from '../../src/resources/CPUResource';
+import { MemoryResource } from '../../src/resources/MemoryResource';
+import { ScalarResource } from '../../src/resources/ScalarResource';
+import { defineResourceKind } from '../../src/resources/units';
+
+const BANDWIDTH = defineResourceKind({
+  name: 'example.com/bandwidth',
+  label: 'Bandwidth',
+  baseUnit: 'bits',
+  kubernetesSuffixes: false,
+  suffixes: { bit: 1, Kbit: 1e3, Mbit: 1e6, Gbit: 1e9 },
+  preferredUnits: ['Gbit', 'Mbit', 'Kbit', 'bit'],
+});
+
+class Bandwidth extends ScalarResource {
+  private declare readonly brand: 'bandwidth';
+
+  constructor(resource: string) {
+    super(BANDWIDTH, resource);
+  }
+
+  static fromMbit(mbit: number): Bandwidth {
+    return this.create(BANDWIDTH, this.toBaseUnits(BANDWIDTH, mbit, 'Mbit'), 'DecimalSI');
+  }
+}
+
+const LICENSES = defineResourceKind({ name: 'example.com/licenses', label: 'License', granularity: 5 });
+
+class Licenses extends ScalarResource {
+  private declare readonly brand: 'licenses';
+
+  constructor(resource: string) {
+    super(LICENSES, resource);
+  }
+}
+
+describe('ScalarResource', () => {
+  describe('custom kinds', () => {
+    it('should parse custom suffixes', () => {
+      expect(new Bandwidth('500Mbit').toBigInt()).toBe(500_000_000n);
+      expect(new Bandwidth('1.5Gbit').toBigInt()).toBe(1_500_000_000n);
+      expect(new Bandwidth('42').toBigInt()).toBe(42n);
+      expect(Bandwidth.fromMbit(2.5).toString()).toBe('2500Kbit');
+    });
+
+    it('should format values with the preferred units', () => {
+      expect(new Bandwidth('500Mbit').plus(new Bandwidth('1.5Gbit')).toString()).toBe('2Gbit');
+      expect(new Bandwidth('1500000bit').toString()).toBe('1500Kbit');
+      expect(new Bandwidth('7').toString()).toBe('7bit');
+    });
+
+    it('should reject units the kind does not accept', () => {
+      expect(() => new Bandwidth('1Mi')).toThrow(ResourceParseError);
+      expect(() => new Bandwidth('1Mi')).toThrow('Invalid bandwidth unit. Must be one of: bit, Kbit, Mbit, Gbit');
+      expect(() => new Bandwidth('1e3')).toThrow('Invalid bandwidth unit');
+      expect(() => new Bandwidth('fast')).toThrow("Invalid bandwidth resource format. Must be a number followed by an optional unit (e.g., '10Gbit')");
+      expect(() => new Bandwidth('0.5bit')).toThrow('Bandwidth resources must be whole numbers of bits');
+      expect(() => new Bandwidth('-1Mbit')).toThrow(NegativeResourceError);
+    });
+
+    it('should report the position of invalid units', () => {
+      try {
+        new Bandwidth('10Mi');
+        fail('expected an error');
+      } catch (error) {
+        expect((error as ResourceParseError).position).toBe(2);
+      }
+    });
+
+    it('should enforce the granularity of the kind', () => {
+      expect(new Licenses('10').toBigInt()).toBe(10n);
+      expect(() => new Licenses('7')).toThrow(PrecisionError);
+      expect(() => new Licenses('7')).toThrow('7 is not positive integer multiple of 5');
+      expect(new Licenses('10').times(1.2).toString()).toBe('10');
+      expect(new Licenses('10').times(1.2, { rounding: 'ceil' }).toString()).toBe('15');
+      expect(new Licenses('25').splitEvenly(2).map(String)).toEqual(['15', '10']);
+    });
+
+    it('should share the arithmetic of the built-in resources', () => {
+      const link = new Bandwidth('1Gbit');
+      expect(link.minus(new Bandwidth('250Mbit')).toString()).toBe('750Mbit');
+      expect(link.dividedBy(4).toString()).toBe('250Mbit');
+      expect(new Bandwidth('250Mbit').percentOf(link)).toBe(25);
+      expect(link.isGreaterThan(new Bandwidth('999Mbit'))).toBe(true);
+      expect(link.name).toBe('example.com/bandwidth');
+    });
+  });
+
+  describe('type safety', () => {
+    it('should not mix kinds', () => {
+      // @ts-expect-error CPU and memory are different kinds
+      expect(() => CPUResource.fromCores(1).plus(MemoryResource.fromGiB(1))).toThrow(UnitMismatchError);
+      // @ts-expect-error bandwidth and CPU are different kinds
+      expect(() => new Bandwidth('1Mbit').isLessThan(new CPUResource('1'))).toThrow('Cannot combine example.com/bandwidth and cpu resources');
+      // @ts-expect-error licenses and bandwidth are different kinds
+      expect(() => new Licenses('5').equals(new Bandwidth('5bit'))).toThrow(UnitMismatchError);
+    });
+
+    it('should not round to a granularity of another kind', () => {
+      // @ts-expect-error the granularity must be of the same kind
+      expect(() => new CPUResource('1').roundTo(MemoryResource.fromGiB(1))).toThrow('Cannot round cpu resources to a granularity of memory');
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { floorDiv, formatFraction, roundFraction, toFraction } from '../../src/resources/arithmetic';
+
+describe('arithmetic', () => {
+  describe('toFraction', () => {
+    it('should convert integers', () => {
+      expect(toFraction(42)).toEqual({ numerator: 42n, denominator: 1n });
+    });
+
+    it('should convert decimals as written', () => {
+      expect(toFraction(0.3)).toEqual({ numerator: 3n, denominator: 10n });
+      expect(toFraction(-1.25)).toEqual({ numerator: -125n, denominator: 100n });
+    });
+
+    it('should convert exponent notation', () => {
+      expect(toFraction(1e21)).toEqual({ numerator: 10n ** 21n, denominator: 1n });
+      expect(toFraction(1.5e-7)).toEqual({ numerator: 15n, denominator: 10n ** 8n });
+    });
+  });
+
+  describe('floorDiv', () => {
+    it('should round towards negative infinity', () => {
+      expect(floorDiv(7n, 2n)).toBe(3n);
+      expect(floorDiv(-7n, 2n)).toBe(-4n);
+      expect(floorDiv(-6n, 2n)).toBe(-3n);
+    });
+  });
+
+  describe('roundFraction', () => {
+    it('should round in each mode', () => {
+      expect(roundFraction(5n, 2n, 'floor')).toBe(2n);
+      expect(roundFraction(5n, 2n, 'ceil')).toBe(3n);
+      expect(roundFraction(-5n, 2n, 'ceil')).toBe(-2n);
+      expect(roundFraction(4n, 1n, 'ceil')).toBe(4n);
+    });
+
+    it('should round ties to even', () => {
+      expect(roundFraction(5n, 2n, 'half-even')).toBe(2n);
+      expect(roundFraction(7n, 2n, 'half-even')).toBe(4n);
+      expect(roundFraction(11n, 4n, 'half-even')).toBe(3n);
+      expect(roundFraction(9n, 4n, 'half-even')).toBe(2n);
+    });
+
+    it('should round to multiples of a step', () => {
+      expect(roundFraction(120n, 1n, 'ceil', 50n)).toBe(150n);
+      expect(roundFraction(120n, 1n, 'floor', 50n)).toBe(100n);
+      expect(roundFraction(125n, 1n, 'half-even', 50n)).toBe(100n);
+      expect(roundFraction(175n, 1n, 'half-even', 50n)).toBe(200n);
+    });
+  });
+
+  describe('formatFraction', () => {
+    it('should format terminating fractions exactly', () => {
+      expect(formatFraction(1100n, 1000n)).toBe('1.1');
+      expect(formatFraction(9999n, 1024n)).toBe('9.7646484375');
+      expect(formatFraction(2048n, 1024n)).toBe('2');
+    });
+
+    it('should truncate non-terminating fractions', () => {
+      expect(formatFraction(1n, 3n, 4)).toBe('0.3333');
+    });
+  });
+});
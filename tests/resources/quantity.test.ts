@@ -0,0 +1,144 @@
+import { formatQuantity, parseQuantity, scaleQuantity } from '../../src/resources/quantity';
+
+function scaled(str: string, shift = 0) {
+  const result = parseQuantity(str);
+  if (!result.ok) throw new Error(`failed to parse ${str}`);
+  return scaleQuantity(result.quantity, shift);
+}
+
+describe('parseQuantity', () => {
+  describe('accepted forms', () => {
+    it('should parse plain integers and decimals', () => {
+      expect(scaled('100').value).toBe(100n);
+      expect(scaled('1.5', 3).value).toBe(1500n);
+    });
+
+    it('should parse numbers without integer or fraction digits', () => {
+      expect(scaled('.5', 3).value).toBe(500n);
+      expect(scaled('5.', 3).value).toBe(5000n);
+    });
+
+    it('should parse explicit signs', () => {
+      expect(parseQuantity('+100m')).toMatchObject({ ok: true, quantity: { negative: false, digits: 100n } });
+      expect(parseQuantity('-100m')).toMatchObject({ ok: true, quantity: { negative: true, digits: 100n } });
+    });
+
+    it('should parse decimal SI suffixes', () => {
+      expect(scaled('1n', 9).value).toBe(1n);
+      expect(scaled('1u', 6).value).toBe(1n);
+      expect(scaled('1m', 3).value).toBe(1n);
+      expect(scaled('100k').value).toBe(100_000n);
+      expect(scaled('500M').value).toBe(500_000_000n);
+      expect(scaled('1G').value).toBe(10n ** 9n);
+      expect(scaled('1T').value).toBe(10n ** 12n);
+      expect(scaled('1P').value).toBe(10n ** 15n);
+      expect(scaled('1E').value).toBe(10n ** 18n);
+    });
+
+    it('should parse binary SI suffixes', () => {
+      expect(scaled('1Ki').value).toBe(1024n);
+      expect(scaled('2Pi').value).toBe(2n ** 51n);
+      expect(scaled('1Ei').value).toBe(2n ** 60n);
+      expect(scaled('1.5Gi').value).toBe(3n * 2n ** 29n);
+    });
+
+    it('should parse decimal exponents', () => {
+      expect(scaled('1e3').value).toBe(1000n);
+      expect(scaled('1E3').value).toBe(1000n);
+      expect(scaled('1.5e+2').value).toBe(150n);
+      expect(scaled('25e-1', 3).value).toBe(2500n);
+    });
+
+    it('should treat a lone sign or decimal point as zero like apimachinery', () => {
+      expect(scaled('.').value).toBe(0n);
+      expect(scaled('+').value).toBe(0n);
+    });
+  });
+
+  describe('rejected forms', () => {
+    it('should reject empty strings', () => {
+      expect(parseQuantity('')).toEqual({ ok: false, reason: 'format', position: 0 });
+    });
+
+    it('should reject unknown suffixes', () => {
+      expect(parseQuantity('100x')).toEqual({ ok: false, reason: 'unit', position: 3 });
+      expect(parseQuantity('1KiB')).toEqual({ ok: false, reason: 'unit', position: 1 });
+      expect(parseQuantity('1e')).toEqual({ ok: false, reason: 'unit', position: 1 });
+      expect(parseQuantity('1Ki3')).toEqual({ ok: false, reason: 'unit', position: 1 });
+    });
+
+    it('should reject malformed numbers', () => {
+      expect(parseQuantity(' 100m')).toEqual({ ok: false, reason: 'format', position: 0 });
+      expect(parseQuantity('1.2.3')).toEqual({ ok: false, reason: 'format', position: 3 });
+      expect(parseQuantity('1.5E+2Mi')).toEqual({ ok: false, reason: 'format', position: 3 });
+    });
+  });
+
+  describe('formats', () => {
+    it('should detect the format from the suffix', () => {
+      expect(parseQuantity('1Gi')).toMatchObject({ quantity: { format: 'BinarySI' } });
+      expect(parseQuantity('1G')).toMatchObject({ quantity: { format: 'DecimalSI' } });
+      expect(parseQuantity('1e9')).toMatchObject({ quantity: { format: 'DecimalExponent' } });
+    });
+
+    it('should switch binary values below one to decimal', () => {
+      expect(parseQuantity('0.0005Ki')).toMatchObject({ quantity: { format: 'DecimalSI' } });
+    });
+
+    it('should flag strings apimachinery keeps verbatim', () => {
+      expect(parseQuantity('100m')).toMatchObject({ quantity: { canonical: true } });
+      expect(parseQuantity('12Gi')).toMatchObject({ quantity: { canonical: true } });
+      expect(parseQuantity('1000m')).toMatchObject({ quantity: { canonical: false } });
+      expect(parseQuantity('0.5')).toMatchObject({ quantity: { canonical: false } });
+      expect(parseQuantity('16Gi')).toMatchObject({ quantity: { canonical: false } });
+      expect(parseQuantity('1.5Gi')).toMatchObject({ quantity: { canonical: false } });
+    });
+  });
+
+  describe('formatQuantity', () => {
+    it('should format zero without a suffix', () => {
+      expect(formatQuantity(0n, -3, 'BinarySI')).toBe('0');
+    });
+
+    it('should move trailing zeros into decimal suffixes', () => {
+      expect(formatQuantity(1500n, -3, 'DecimalSI')).toBe('1500m');
+      expect(formatQuantity(2_000_000n, 0, 'DecimalSI')).toBe('2M');
+      expect(formatQuantity(1n, -9, 'DecimalSI')).toBe('1n');
+      expect(formatQuantity(12n, -8, 'DecimalSI')).toBe('120n');
+    });
+
+    it('should format decimal exponents in multiples of three', () => {
+      expect(formatQuantity(20_000n, 0, 'DecimalExponent')).toBe('20e3');
+      expect(formatQuantity(5n, -1, 'DecimalExponent')).toBe('500e-3');
+      expect(formatQuantity(7n, 0, 'DecimalExponent')).toBe('7');
+    });
+
+    it('should format binary values in the largest exact unit', () => {
+      expect(formatQuantity(3n * 2n ** 40n, 0, 'BinarySI')).toBe('3Ti');
+      expect(formatQuantity(1025n * 1024n, 0, 'BinarySI')).toBe('1025Ki');
+      expect(formatQuantity(2n ** 60n, 0, 'BinarySI')).toBe('1Ei');
+    });
+
+    it('should fall back to decimal for small or fractional binary values', () => {
+      expect(formatQuantity(1000n, 0, 'BinarySI')).toBe('1k');
+      expect(formatQuantity(1024500n, -3, 'BinarySI')).toBe('1024500m');
+    });
+
+    it('should format negative values', () => {
+      expect(formatQuantity(-1500n, -3, 'DecimalSI')).toBe('-1500m');
+      expect(formatQuantity(-1024n, 0, 'BinarySI')).toBe('-1Ki');
+    });
+  });
+
+  describe('scaleQuantity', () => {
+    it('should report inexact results', () => {
+      expect(scaled('1.5')).toEqual({ value: 1n, exact: false });
+      expect(scaled('1n')).toEqual({ value: 0n, exact: false });
+    });
+
+    it('should keep huge exponents bounded', () => {
+      expect(scaled('1e999999999').value > 10n ** 300n).toBe(true);
+      expect(scaled('1e-999999999')).toEqual({ value: 0n, exact: false });
+    });
+  });
+});
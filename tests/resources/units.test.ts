@@ -0,0 +1,61 @@
+import { InvalidArgumentError } from '../../src/errors';
+import { createResourceKind, defineResourceKind, getResourceKind, unitSize } from '../../src/resources/units';
+import '../../src/resources/CPUResource';
+import '../../src/resources/MemoryResource';
+
+describe('defineResourceKind', () => {
+  it('should register kinds with defaults', () => {
+    const kind = defineResourceKind({ name: 'example.com/licenses', label: 'License' });
+    expect(getResourceKind('example.com/licenses')).toBe(kind);
+    expect(kind.exponent).toBe(0);
+    expect(kind.granularity).toBe(1n);
+    expect(kind.kubernetesSuffixes).toBe(true);
+    expect(kind.preferredUnits).toEqual([]);
+  });
+
+  it('should register the built-in kinds', () => {
+    expect(getResourceKind('cpu')?.baseUnit).toBe('millicores');
+    expect(getResourceKind('memory')?.suffixes.get('B')).toBe(1n);
+    expect(getResourceKind('example.com/unknown')).toBeUndefined();
+  });
+
+  it('should reject duplicate names', () => {
+    expect(() => defineResourceKind({ name: 'cpu', label: 'CPU' })).toThrow('Resource kind "cpu" is already defined');
+  });
+
+  it('should reject invalid definitions', () => {
+    expect(() => createResourceKind({ name: '', label: 'Nothing' })).toThrow(InvalidArgumentError);
+    expect(() => createResourceKind({ name: 'a', label: 'A', suffixes: { M: 1 } }))
+      .toThrow('Suffix "M" of resource kind "a" conflicts with a Kubernetes quantity suffix');
+    expect(() => createResourceKind({ name: 'a', label: 'A', suffixes: { 'bit/s': 1 } })).toThrow('must consist of letters');
+    expect(() => createResourceKind({ name: 'a', label: 'A', suffixes: { bit: 0 } }))
+      .toThrow('Size of suffix "bit" must be a positive whole number');
+    expect(() => createResourceKind({ name: 'a', label: 'A', granularity: 1.5 }))
+      .toThrow('Granularity of resource kind "a" must be a positive whole number');
+    expect(() => createResourceKind({ name: 'a', label: 'A', suffixes: { bit: 1 }, preferredUnits: ['Mbit'] }))
+      .toThrow('Preferred unit "Mbit" of resource kind "a" is not one of its suffixes');
+  });
+
+  it('should allow Kubernetes suffix names when Kubernetes suffixes are disabled', () => {
+    const kind = createResourceKind({ name: 'a', label: 'A', kubernetesSuffixes: false, suffixes: { M: 1_000_000 } });
+    expect(kind.suffixes.get('M')).toBe(1_000_000n);
+    expect(kind.unitHint).toBe('one of: M');
+  });
+});
+
+describe('unitSize', () => {
+  it('should return the size of units in base units', () => {
+    const cpu = getResourceKind('cpu')!;
+    expect(unitSize(cpu, '')).toEqual({ numerator: 1000n, denominator: 1n });
+    expect(unitSize(cpu, 'n')).toEqual({ numerator: 1n, denominator: 1000000n });
+    expect(unitSize(getResourceKind('memory')!, 'Ki')).toEqual({ numerator: 1024n, denominator: 1n });
+    expect(unitSize(getResourceKind('memory')!, 'B')).toEqual({ numerator: 1n, denominator: 1n });
+    expect(unitSize(cpu, 'bit')).toBeUndefined();
+  });
+
+  it('should not accept Kubernetes suffixes for kinds without them', () => {
+    const kind = createResourceKind({ name: 'a', label: 'A', kubernetesSuffixes: false, suffixes: { bit: 1 } });
+    expect(unitSize(kind, 'k')).toBeUndefined();
+    expect(unitSize(kind, '')).toEqual({ numerator: 1n, denominator: 1n });
+  });
+});
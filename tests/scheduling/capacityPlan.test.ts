@@ -0,0 +1,75 @@
+import { planCapacity, PlannedWorkload } from '../../src/scheduling/capacityPlan';
+import { ResourceList } from '../../src/resources/ResourceList';
+
+const workload = (name: string, replicas: number, requests: Record<string, string>, kind: PlannedWorkload['kind'] = 'Deployment'): PlannedWorkload =>
+  ({ kind, name, podRequests: new ResourceList(requests), replicas });
+
+describe('planCapacity', () => {
+  const workloads = [
+    workload('web', 3, { cpu: '1', memory: '2Gi' }),
+    workload('db', 1, { cpu: '2', memory: '8Gi' }, 'StatefulSet'),
+    workload('logging', 10, { cpu: '100m', memory: '128Mi' }, 'DaemonSet'),
+  ];
+  const node = { name: 'medium', capacity: { cpu: '4', memory: '16Gi', pods: '110' } };
+
+  it('should pack the largest pods first next to the DaemonSet pods', () => {
+    const [plan] = planCapacity(workloads, [node]);
+    expect(plan.nodeType).toBe('medium');
+    expect(plan.nodes).toBe(2);
+    expect(plan.allocatable.cpu.toString()).toBe('4');
+    expect(plan.daemonSetOverhead.cpu.toString()).toBe('100m');
+    expect(plan.daemonSetOverhead.memory.toString()).toBe('128Mi');
+    expect(plan.fill.map(fill => [fill.cpu.toString(), fill.memory.toString(), fill.pods])).toEqual([
+      ['3100m', '10368Mi', 3],
+      ['2100m', '4224Mi', 3],
+    ]);
+    expect(plan.fill[0].cpuPercent).toBe(77.5);
+    expect(plan.fill[0].memoryPercent).toBe(63.28125);
+    expect(plan.unschedulable).toEqual([]);
+  });
+
+  it('should report the capacity of nodes no pod fits on as stranded', () => {
+    const [plan] = planCapacity(workloads, [node]);
+    expect(plan.stranded.cpu.toString()).toBe('900m');
+    expect(plan.stranded.memory.toString()).toBe('6016Mi');
+  });
+
+  it('should plan every node type', () => {
+    const plans = planCapacity(workloads, [node, { name: 'large', capacity: { cpu: '8', memory: '32Gi' }, kubeReserved: { cpu: '100m' } }]);
+    expect(plans.map(plan => [plan.nodeType, plan.nodes])).toEqual([['medium', 2], ['large', 1]]);
+    expect(plans[1].allocatable.cpu.toString()).toBe('7900m');
+  });
+
+  it('should place pods on the fullest node with best-fit', () => {
+    const cores = [7, 4, 4, 2, 1].map((cpu, index) => workload(`app-${index}`, 1, { cpu: String(cpu) }));
+    const nodeType = { name: 'ten', capacity: { cpu: '10', memory: '1Gi' } };
+    const fill = (strategy: 'first-fit-decreasing' | 'best-fit-decreasing') =>
+      planCapacity(cores, [nodeType], { strategy })[0].fill.map(node => node.cpu.toString());
+    expect(fill('first-fit-decreasing')).toEqual(['10', '8']);
+    expect(fill('best-fit-decreasing')).toEqual(['8', '10']);
+  });
+
+  it('should respect the pod capacity of nodes', () => {
+    const [plan] = planCapacity([workload('tiny', 5, { cpu: '10m' })], [{ name: 'small', capacity: { cpu: '1', memory: '1Gi', pods: '2' } }]);
+    expect(plan.nodes).toBe(3);
+    expect(plan.fill.map(fill => fill.pods)).toEqual([2, 2, 1]);
+  });
+
+  it('should list workloads that do not fit on an empty node', () => {
+    const [plan] = planCapacity([
+      workload('huge', 2, { cpu: '8' }),
+      workload('agent', 1, { memory: '32Gi' }, 'DaemonSet'),
+      workload('web', 1, { cpu: '1' }),
+    ], [node]);
+    expect(plan.nodes).toBe(1);
+    expect(plan.unschedulable).toEqual(['DaemonSet/agent', 'Deployment/huge']);
+    expect(plan.daemonSetOverhead.memory.toString()).toBe('0');
+  });
+
+  it('should plan no nodes without pods', () => {
+    const [plan] = planCapacity([], [node]);
+    expect(plan.nodes).toBe(0);
+    expect(plan.fill).toEqual([]);
+    expect(plan.stranded.cpu.toString()).toBe('0');
+  });
+});
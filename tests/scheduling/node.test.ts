@@ -0,0 +1,83 @@
+import { fits, nodeAllocatable, NodeResources } from '../../src/scheduling/node';
+import { ResourceList } from '../../src/resources/ResourceList';
+
+describe('nodeAllocatable', () => {
+  it('should subtract reservations and eviction thresholds from capacity', () => {
+    const allocatable = nodeAllocatable({
+      capacity: { cpu: '4', memory: '16Gi', pods: '110' },
+      systemReserved: { cpu: '100m', memory: '512Mi' },
+      kubeReserved: { cpu: '100m', memory: '1Gi' },
+      evictionHard: { 'memory.available': '100Mi' },
+    });
+    expect(allocatable.toJSON()).toEqual({ cpu: '3800m', memory: '14748Mi', pods: '110' });
+  });
+
+  it('should compute percentage thresholds like the kubelet', () => {
+    const allocatable = nodeAllocatable({
+      capacity: { memory: '1000', 'ephemeral-storage': '100Gi' },
+      evictionHard: { 'memory.available': '7.5%', 'nodefs.available': '10%', 'imagefs.available': '15%' },
+    });
+    expect(allocatable.memory().toBigInt()).toBe(925n);
+    // The float32 percentage reserves slightly more than 10%
+    expect(allocatable.get('ephemeral-storage')?.toBigInt()).toBe(107374182400n - 10737418400n);
+  });
+
+  it('should subtract hugepages from memory', () => {
+    const allocatable = nodeAllocatable({ capacity: { memory: '8Gi', 'hugepages-2Mi': '1Gi' } });
+    expect(allocatable.toJSON()).toEqual({ memory: '7Gi', 'hugepages-2Mi': '1Gi' });
+  });
+
+  it('should not go below zero', () => {
+    const allocatable = nodeAllocatable({ capacity: { cpu: '1', memory: '1Gi' }, systemReserved: { cpu: '2', 'nvidia.com/gpu': '1' } });
+    expect(allocatable.toJSON()).toEqual({ cpu: '0', memory: '1Gi' });
+  });
+
+  it('should reject invalid percentages', () => {
+    expect(() => nodeAllocatable({ capacity: { memory: '1Gi' }, evictionHard: { 'memory.available': '150%' } }))
+      .toThrow('Invalid eviction threshold "150%". Must be a quantity or a percentage between 0% and 100%');
+  });
+});
+
+describe('fits', () => {
+  const node: NodeResources = { capacity: { cpu: '2', memory: '4Gi', pods: '3', 'nvidia.com/gpu': '1' } };
+
+  it('should fit pods into the remaining allocatable resources', () => {
+    const result = fits(new ResourceList({ cpu: '1', memory: '2Gi' }), node, [new ResourceList({ cpu: '1', memory: '2Gi' })]);
+    expect(result).toEqual({ fits: true, reasons: [] });
+  });
+
+  it('should report insufficient resources', () => {
+    const result = fits(
+      new ResourceList({ 'nvidia.com/gpu': '1', memory: '3Gi', cpu: '1500m' }),
+      node,
+      [new ResourceList({ cpu: '1', 'nvidia.com/gpu': '1' })],
+    );
+    expect(result.fits).toBe(false);
+    expect(result.reasons.map(reason => reason.reason)).toEqual(['Insufficient cpu', 'Insufficient nvidia.com/gpu']);
+    expect(result.reasons[0]).toMatchObject({ resource: 'cpu' });
+    expect(result.reasons[0].requested.toString()).toBe('1500m');
+    expect(result.reasons[0].used.toString()).toBe('1');
+    expect(result.reasons[0].capacity.toString()).toBe('2');
+  });
+
+  it('should report resources the node does not have', () => {
+    const result = fits(new ResourceList({ 'ephemeral-storage': '1Gi', 'example.com/foo': '1' }), node);
+    expect(result.reasons.map(reason => reason.reason)).toEqual(['Insufficient ephemeral-storage', 'Insufficient example.com/foo']);
+    expect(result.reasons[0].capacity.toString()).toBe('0');
+  });
+
+  it('should report too many pods', () => {
+    const existing = [new ResourceList(), new ResourceList(), new ResourceList()];
+    const result = fits(new ResourceList({ cpu: '0' }), node, existing);
+    expect(result.reasons).toHaveLength(1);
+    expect(result.reasons[0].reason).toBe('Too many pods');
+    expect(result.reasons[0].used.toString()).toBe('3');
+    expect(result.reasons[0].capacity.toString()).toBe('3');
+  });
+
+  it('should use allocatable rather than capacity', () => {
+    const reserved: NodeResources = { ...node, kubeReserved: { memory: '1Gi' } };
+    expect(fits(new ResourceList({ memory: '4Gi' }), node).fits).toBe(true);
+    expect(fits(new ResourceList({ memory: '4Gi' }), reserved).reasons[0].reason).toBe('Insufficient memory');
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  balancedAllocationScore, leastAllocatedScore, mostAllocatedScore, requestedToCapacityRatioScore, ScoredResource,
+} from '../../src/scheduling/scoring';
+import { CPUResource } from '../../src/resources/CPUResource';
+import { MemoryResource } from '../../src/resources/MemoryResource';
+import { ExtendedResource } from '../../src/resources/ExtendedResource';
+
+const cpu = (requested: string, allocatable: string, weight?: number): ScoredResource =>
+  ({ requested: new CPUResource(requested), allocatable: new CPUResource(allocatable), weight });
+const memory = (requested: string, allocatable: string, weight?: number): ScoredResource =>
+  ({ requested: new MemoryResource(requested), allocatable: new MemoryResource(allocatable), weight });
+
+describe('leastAllocatedScore', () => {
+  it('should score the free share of each resource and round the average down', () => {
+    // From the scheduler's tests: cpu (4000-3000)*100/4000 = 25, memory (10000-5000)*100/10000 = 50
+    expect(leastAllocatedScore([cpu('3', '4'), memory('5000', '10000')])).toBe(37);
+    expect(leastAllocatedScore([cpu('0', '4'), memory('0', '10000')])).toBe(100);
+  });
+
+  it('should weight resources', () => {
+    expect(leastAllocatedScore([cpu('3', '4', 2), memory('5000', '10000', 1)])).toBe(33);
+  });
+
+  it('should score over-requested resources as zero', () => {
+    expect(leastAllocatedScore([cpu('5', '4'), memory('5000', '10000')])).toBe(25);
+  });
+
+  it('should skip resources the node does not have', () => {
+    expect(leastAllocatedScore([cpu('1', '4'), memory('1Gi', '0')])).toBe(75);
+    expect(leastAllocatedScore([memory('1Gi', '0')])).toBe(0);
+  });
+});
+
+describe('mostAllocatedScore', () => {
+  it('should score the requested share of each resource', () => {
+    expect(mostAllocatedScore([cpu('3', '4'), memory('5000', '10000')])).toBe(62);
+  });
+
+  it('should cap requests at the allocatable amount', () => {
+    expect(mostAllocatedScore([cpu('6', '4'), memory('5000', '10000')])).toBe(75);
+  });
+
+  it('should score extended resources', () => {
+    const gpu = { requested: new ExtendedResource('nvidia.com/gpu', '1'), allocatable: new ExtendedResource('nvidia.com/gpu', '3'), weight: 3 };
+    expect(mostAllocatedScore([cpu('2', '4'), gpu])).toBe(37);
+  });
+});
+
+describe('requestedToCapacityRatioScore', () => {
+  const binPacking = [{ utilization: 0, score: 0 }, { utilization: 100, score: 10 }];
+  const spreading = [{ utilization: 0, score: 10 }, { utilization: 100, score: 0 }];
+
+  it('should map utilization through the shape', () => {
+    expect(requestedToCapacityRatioScore([cpu('3', '4')], binPacking)).toBe(75);
+    expect(requestedToCapacityRatioScore([cpu('3', '4')], spreading)).toBe(25);
+    expect(requestedToCapacityRatioScore([cpu('3', '4'), memory('5000', '10000')], binPacking)).toBe(63);
+  });
+
+  it('should truncate like Go integer arithmetic', () => {
+    const shape = [{ utilization: 10, score: 2 }, { utilization: 40, score: 3 }, { utilization: 70, score: 9 }];
+    // 5% is below the first point, 33% gives 20 + 10*23/30 = 27, 90% is past the last point
+    expect(requestedToCapacityRatioScore([cpu('50m', '1')], shape)).toBe(20);
+    expect(requestedToCapacityRatioScore([cpu('333m', '1')], shape)).toBe(27);
+    expect(requestedToCapacityRatioScore([cpu('900m', '1')], shape)).toBe(90);
+    // Descending slopes truncate toward zero: 90 + (-90*1/7 = -12) = 78
+    expect(requestedToCapacityRatioScore([cpu('10m', '1')], [{ utilization: 0, score: 9 }, { utilization: 7, score: 0 }])).toBe(78);
+  });
+
+  it('should leave resources scoring zero out of the average', () => {
+    expect(requestedToCapacityRatioScore([cpu('3', '4'), memory('0', '10000')], binPacking)).toBe(75);
+    expect(requestedToCapacityRatioScore([cpu('0', '4')], binPacking)).toBe(0);
+  });
+
+  it('should treat over-requested resources as fully utilized', () => {
+    expect(requestedToCapacityRatioScore([cpu('5', '4')], binPacking)).toBe(100);
+  });
+
+  it('should validate the shape', () => {
+    expect(() => requestedToCapacityRatioScore([], [])).toThrow('The scoring function shape needs at least one point');
+    expect(() => requestedToCapacityRatioScore([], [{ utilization: 0, score: 11 }])).toThrow('Shape point score must be a whole number from 0 to 10, got 11');
+    expect(() => requestedToCapacityRatioScore([], [{ utilization: 101, score: 1 }])).toThrow('Shape point utilization must be a whole number from 0 to 100, got 101');
+    expect(() => requestedToCapacityRatioScore([], [{ utilization: 50, score: 1 }, { utilization: 50, score: 2 }]))
+      .toThrow('Shape point utilizations must be increasing');
+  });
+});
+
+describe('balancedAllocationScore', () => {
+  it('should score the deviation of the requested fractions', () => {
+    expect(balancedAllocationScore([cpu('3', '4'), memory('5Gi', '10Gi')])).toBe(87);
+    expect(balancedAllocationScore([cpu('2', '4'), memory('5Gi', '10Gi')])).toBe(100);
+  });
+
+  it('should use the standard deviation for more than two resources', () => {
+    const gpu = { requested: new ExtendedResource('nvidia.com/gpu', '0'), allocatable: new ExtendedResource('nvidia.com/gpu', '4') };
+    // Fractions 0.5, 0.5 and 0 deviate from their mean by sqrt(1/18)
+    expect(balancedAllocationScore([cpu('2', '4'), memory('5Gi', '10Gi'), gpu])).toBe(76);
+  });
+
+  it('should cap fractions at 1 and ignore weights', () => {
+    expect(balancedAllocationScore([cpu('8', '4', 5), memory('10Gi', '10Gi')])).toBe(100);
+    expect(balancedAllocationScore([cpu('1', '4')])).toBe(100);
+  });
+});
+
+describe('weights and kinds', () => {
+  it('should reject invalid weights', () => {
+    expect(() => leastAllocatedScore([cpu('1', '2', 0)])).toThrow('Resource weight must be a whole number from 1 to 100, got 0');
+  });
+
+  it('should reject mismatched kinds', () => {
+    const mixed = { requested: new CPUResource('1'), allocatable: new MemoryResource('1Gi') } as unknown as ScoredResource;
+    expect(() => mostAllocatedScore([mixed])).toThrow('Cannot combine cpu and memory resources');
+  });
+});